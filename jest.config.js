@@ -0,0 +1,15 @@
+const nextJest = require('next/jest')
+
+// Loads next.config.js and .env files, and compiles TypeScript with SWC
+const createJestConfig = nextJest({ dir: './' })
+
+/** @type {import('jest').Config} */
+const config = {
+  testEnvironment: 'node', // Component tests opt in to jsdom per file
+  moduleNameMapper: {
+    '^@/(.*)$': '<rootDir>/src/$1',
+  },
+  testPathIgnorePatterns: ['<rootDir>/node_modules/', '<rootDir>/e2e/'],
+}
+
+module.exports = createJestConfig(config)
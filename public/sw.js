@@ -0,0 +1,221 @@
+/**
+ * Service Worker
+ *
+ * Offline: the app shell, the timer route and the bell sounds are
+ * precached on install, so the timer boots with no network at all.
+ * - Pages are network-first, falling back to the cached copy. They are
+ *   cached as rendered for the signed-in user (premium ones included), so
+ *   the page clears PAGE_CACHE on sign-out (clearPageCache in
+ *   src/lib/serviceWorker.ts)
+ * - Hashed build assets, sounds and icons are cache-first
+ * Bump CACHE_VERSION to drop old caches after a deploy changes the shell.
+ *
+ * Notifications: shows a quiet system notification when a meditation
+ * session reaches its planned end, for when the page itself has been
+ * throttled and can't ring the bell (see src/lib/endNotification.ts).
+ * - Normally it arrives as a Web Push message from the
+ *   send-end-notifications Edge Function, which wakes the worker itself
+ * - Without push, the page schedules it here with a message and it waits
+ *   in a plain timer. That is best effort: browsers stop a worker after a
+ *   few minutes (Chrome after 5) even while waitUntil is pending.
+ * If a timer page is visible when the time comes, the notification is
+ * skipped - the in-page bell handles it, so there is never a double alert.
+ */
+
+const CACHE_VERSION = 'v2'
+const SHELL_CACHE = `shell-${CACHE_VERSION}`
+const RUNTIME_CACHE = `runtime-${CACHE_VERSION}` // Immutable files
+const PAGE_CACHE = `pages-${CACHE_VERSION}` // Pages visited
+
+// Pages and files the app needs to start offline
+const SHELL_URLS = [
+  '/',
+  '/stats',
+  '/settings',
+  '/manifest.webmanifest',
+  '/icons/icon-192.png',
+  '/icons/icon-512.png',
+  '/icons/apple-touch-icon.png',
+]
+
+// Bell samples (ambient loops are cached the first time they play)
+const SOUND_URLS = [
+  '/sounds/singing-bowl.mp3',
+  '/sounds/chime.mp3',
+  '/sounds/wood-block.mp3',
+]
+
+// Paths served cache-first (content never changes at the same URL)
+const CACHE_FIRST_PREFIXES = ['/_next/static/', '/sounds/', '/icons/']
+
+const END_NOTIFICATION_TAG = 'session-end'
+
+/**
+ * Precache the shell, plus the hashed JS/CSS that the timer page loads
+ */
+async function precache() {
+  const cache = await caches.open(SHELL_CACHE)
+  await cache.addAll(SHELL_URLS)
+
+  // Build assets have hashed names, so read them from the timer page itself
+  const page = await cache.match('/')
+  const html = page ? await page.text() : ''
+  const assets = new Set(html.match(/\/_next\/static\/[^"'\s)\\]+/g) || [])
+  await cache.addAll(Array.from(assets))
+
+  await cache.addAll(SOUND_URLS)
+}
+
+/**
+ * Network first, falling back to the cache (for pages)
+ */
+async function networkFirst(request) {
+  const cache = await caches.open(PAGE_CACHE)
+
+  try {
+    const response = await fetch(request)
+    if (response.ok) cache.put(request, response.clone())
+    return response
+  } catch (error) {
+    const cached =
+      (await caches.match(request, { ignoreSearch: true })) ||
+      (request.mode === 'navigate' && (await caches.match('/')))
+    if (cached) return cached
+    throw error
+  }
+}
+
+/**
+ * Cache first, filling the cache from the network (for immutable files)
+ */
+async function cacheFirst(request) {
+  const cached = await caches.match(request)
+  if (cached) return cached
+
+  const response = await fetch(request)
+  if (response.ok) {
+    const cache = await caches.open(RUNTIME_CACHE)
+    cache.put(request, response.clone())
+  }
+  return response
+}
+
+// The one pending end notification: { timeoutId, resolve }
+let pendingEnd = null
+
+function cancelPendingEnd() {
+  if (!pendingEnd) return
+  clearTimeout(pendingEnd.timeoutId)
+  pendingEnd.resolve()
+  pendingEnd = null
+}
+
+async function showEndNotification({ title, body }) {
+  const windows = await self.clients.matchAll({
+    type: 'window',
+    includeUncontrolled: true,
+  })
+  if (windows.some(client => client.visibilityState === 'visible')) return
+
+  await self.registration.showNotification(title, {
+    body,
+    tag: END_NOTIFICATION_TAG,
+    silent: true,
+    icon: '/icons/icon-192.png',
+  })
+}
+
+self.addEventListener('install', event => {
+  event.waitUntil(precache().then(() => self.skipWaiting()))
+})
+
+// Drop caches from previous versions
+self.addEventListener('activate', event => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then(keys =>
+        Promise.all(
+          keys
+            .filter(
+              key =>
+                key !== SHELL_CACHE &&
+                key !== RUNTIME_CACHE &&
+                key !== PAGE_CACHE
+            )
+            .map(key => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  )
+})
+
+self.addEventListener('fetch', event => {
+  const { request } = event
+  const url = new URL(request.url)
+
+  // Only same-origin reads are cached (Supabase calls go straight through)
+  if (request.method !== 'GET' || url.origin !== self.location.origin) return
+
+  if (CACHE_FIRST_PREFIXES.some(prefix => url.pathname.startsWith(prefix))) {
+    event.respondWith(cacheFirst(request))
+  } else {
+    event.respondWith(networkFirst(request))
+  }
+})
+
+self.addEventListener('message', event => {
+  const message = event.data || {}
+
+  if (message.type === 'schedule-end') {
+    cancelPendingEnd()
+
+    // Ask to keep the worker alive until the notification is shown or
+    // cancelled - browsers honour this for a few minutes at most
+    event.waitUntil(
+      new Promise(resolve => {
+        const timeoutId = setTimeout(
+          () => {
+            pendingEnd = null
+            showEndNotification(message).then(resolve, resolve)
+          },
+          Math.max(0, message.endAt - Date.now())
+        )
+        pendingEnd = { timeoutId, resolve }
+      })
+    )
+  } else if (message.type === 'cancel-end') {
+    cancelPendingEnd()
+  }
+})
+
+// End notification pushed by the server (payload: { title, body })
+self.addEventListener('push', event => {
+  let message = {}
+  try {
+    message = event.data ? event.data.json() : {}
+  } catch {
+    // Not JSON - fall back to the defaults below
+  }
+
+  event.waitUntil(
+    showEndNotification({
+      title: message.title || 'Meditation complete',
+      body: message.body || 'Your session has ended',
+    })
+  )
+})
+
+// Bring the timer back to the front when the notification is tapped
+self.addEventListener('notificationclick', event => {
+  event.notification.close()
+
+  event.waitUntil(
+    self.clients
+      .matchAll({ type: 'window', includeUncontrolled: true })
+      .then(windows => {
+        if (windows.length > 0) return windows[0].focus()
+        return self.clients.openWindow('/')
+      })
+  )
+})
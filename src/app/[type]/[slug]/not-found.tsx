@@ -0,0 +1,22 @@
+/**
+ * Entry Not Found Component
+ *
+ * Shown (with a 404) when an entry page's type or slug doesn't match a
+ * published entry.
+ */
+
+import Link from 'next/link'
+import { NotFoundErrorMessage } from '@/components/ui/ErrorMessage'
+
+export default function EntryNotFound() {
+  return (
+    <main className="min-h-screen bg-background">
+      <div className="container mx-auto max-w-3xl space-y-6 px-4 py-12">
+        <NotFoundErrorMessage resourceName="entry" />
+        <Link href="/" className="text-sm text-muted-foreground underline">
+          Back home
+        </Link>
+      </div>
+    </main>
+  )
+}
@@ -0,0 +1,142 @@
+/**
+ * Entry Page Component
+ *
+ * One published timeline entry on its own page, at /[type]/[slug]:
+ * - The whole entry (full blog post, artwork series, project media)
+ * - Open Graph tags so shared links get a title, summary and image
+ * - A teaser with a subscribe prompt for premium entries
+ *
+ * Loaded on the server by slug. The server has no viewer session, so the
+ * database returns premium entries as locked teasers; PremiumEntryGate
+ * reloads them for signed-in subscribers. Missing or unpublished entries
+ * (and an unknown type in the URL) get the not-found page.
+ */
+
+import { cache } from 'react'
+import type { Metadata } from 'next'
+import { notFound } from 'next/navigation'
+import { format } from 'date-fns'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { fetchContentBySlug, isContentType, isLockedEntry } from '@/lib/content'
+import { TimelineItem } from '@/types/timeline'
+import { EntryDetailContent } from '@/components/timeline/entries/entryRenderers'
+import { PremiumEntryGate } from '@/components/timeline/PremiumEntryGate'
+
+interface EntryPageProps {
+  params: Promise<{ type: string; slug: string }>
+}
+
+/**
+ * Load the entry for a route (shared by the metadata and the page)
+ */
+const loadEntry = cache(
+  async (type: string, slug: string): Promise<TimelineItem | null> => {
+    if (!isSupabaseConfigured || !isContentType(type)) return null
+    return fetchContentBySlug(type, slug)
+  }
+)
+
+/**
+ * Short summary for previews
+ */
+function getSummary(entry: TimelineItem): string | undefined {
+  if (isLockedEntry(entry)) return entry.description || entry.teaser
+  return entry.type === 'blog'
+    ? entry.description || entry.excerpt
+    : entry.description
+}
+
+/**
+ * The image that best represents an entry in link previews
+ */
+function getPreviewImage(entry: TimelineItem): string | undefined {
+  if (isLockedEntry(entry)) return entry.previewImage
+
+  switch (entry.type) {
+    case 'blog':
+      return entry.coverImage
+    case 'artwork':
+      return entry.imageUrl
+    case 'update':
+      return entry.imageUrl
+    default:
+      return undefined
+  }
+}
+
+export async function generateMetadata({
+  params,
+}: EntryPageProps): Promise<Metadata> {
+  const { type, slug } = await params
+  const entry = await loadEntry(type, slug)
+  if (!entry) return { title: 'Not Found | Meditation Timer App' }
+
+  const description = getSummary(entry)
+  const image = getPreviewImage(entry)
+
+  return {
+    title: `${entry.title} | Meditation Timer App`,
+    description,
+    openGraph: {
+      type: 'article',
+      url: `/${entry.type}/${entry.slug}`,
+      title: entry.title,
+      description,
+      publishedTime: entry.publishedAt,
+      modifiedTime: entry.updatedAt,
+      tags: entry.tags,
+      ...(image && { images: [{ url: image, alt: entry.title }] }),
+    },
+  }
+}
+
+export default async function EntryPage({ params }: EntryPageProps) {
+  const { type, slug } = await params
+  const entry = await loadEntry(type, slug)
+  if (!entry) notFound()
+
+  return (
+    <main className="min-h-screen bg-background">
+      <article className="container mx-auto max-w-3xl px-4 py-12">
+        <header className="mb-8">
+          <p className="mb-2 flex items-center gap-2 text-sm text-gray-500">
+            <span className="capitalize">{entry.type}</span>
+            <span aria-hidden="true">·</span>
+            <time dateTime={entry.publishedAt}>
+              {format(new Date(entry.publishedAt), 'MMMM d, yyyy')}
+            </time>
+            {entry.isPremium && (
+              <span className="rounded-full bg-yellow-100 px-2 py-0.5 text-xs font-medium text-yellow-800">
+                ⭐ Premium
+              </span>
+            )}
+          </p>
+          <h1 className="text-4xl font-bold tracking-tight text-gray-900">
+            {entry.title}
+          </h1>
+          {entry.description && (
+            <p className="mt-3 text-lg text-gray-600">{entry.description}</p>
+          )}
+          {entry.tags.length > 0 && (
+            <ul className="mt-4 flex flex-wrap gap-1">
+              {entry.tags.map(tag => (
+                <li
+                  key={tag}
+                  className="rounded-full bg-gray-100 px-2 py-1 text-xs text-gray-600"
+                >
+                  #{tag}
+                </li>
+              ))}
+            </ul>
+          )}
+        </header>
+
+        {isLockedEntry(entry) ? (
+          <PremiumEntryGate entry={entry} />
+        ) : (
+          <EntryDetailContent entry={entry} />
+        )}
+      </article>
+    </main>
+  )
+}
@@ -1,5 +1,10 @@
-import type { Metadata } from 'next'
+import type { Metadata, Viewport } from 'next'
 import { Inter } from 'next/font/google'
+import Link from 'next/link'
+import { AuthProvider } from '@/contexts/AuthContext'
+import { AccountMenu } from '@/components/auth/AccountMenu'
+import { ServiceWorkerRegistrar } from '@/components/ServiceWorkerRegistrar'
+import { GuestImportNotice } from '@/components/GuestImportNotice'
 import '@/styles/globals.css'
 
 const inter = Inter({ subsets: ['latin'] })
@@ -7,6 +12,24 @@ const inter = Inter({ subsets: ['latin'] })
 export const metadata: Metadata = {
   title: 'Meditation Timer App',
   description: 'Gentle, non-intrusive meditation timer with extended session tracking',
+  // Makes relative Open Graph URLs (entry pages) absolute
+  metadataBase: process.env.NEXT_PUBLIC_SITE_URL
+    ? new URL(process.env.NEXT_PUBLIC_SITE_URL)
+    : undefined,
+  applicationName: 'Meditation Timer',
+  appleWebApp: {
+    capable: true,
+    title: 'Meditate',
+    statusBarStyle: 'default',
+  },
+  icons: {
+    icon: '/icons/icon-192.png',
+    apple: '/icons/apple-touch-icon.png',
+  },
+}
+
+export const viewport: Viewport = {
+  themeColor: '#0f172a',
 }
 
 export default function RootLayout({
@@ -16,7 +39,31 @@ export default function RootLayout({
 }) {
   return (
     <html lang="en">
-      <body className={inter.className}>{children}</body>
+      <body className={inter.className}>
+        <AuthProvider>
+          {/* App Header */}
+          <header className="border-b bg-background">
+            <nav className="container mx-auto flex items-center justify-between gap-4 px-4 py-3">
+              <div className="flex items-center gap-4 text-sm">
+                <Link href="/" className="font-semibold">
+                  🧘 Meditation Timer
+                </Link>
+                <Link href="/stats" className="text-muted-foreground hover:text-foreground">
+                  Stats
+                </Link>
+                <Link href="/settings" className="text-muted-foreground hover:text-foreground">
+                  Settings
+                </Link>
+              </div>
+              <AccountMenu />
+            </nav>
+          </header>
+
+          {children}
+          <ServiceWorkerRegistrar />
+          <GuestImportNotice />
+        </AuthProvider>
+      </body>
     </html>
   )
 }
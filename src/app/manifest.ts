@@ -0,0 +1,44 @@
+/**
+ * Web App Manifest
+ *
+ * Served by Next.js at /manifest.webmanifest and linked from every page,
+ * so the timer can be installed to the home screen and launched like an
+ * app. Icons live in public/icons.
+ */
+
+import type { MetadataRoute } from 'next'
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: 'Meditation Timer',
+    short_name: 'Meditate',
+    description:
+      'Gentle, non-intrusive meditation timer with extended session tracking',
+    start_url: '/',
+    scope: '/',
+    display: 'standalone',
+    orientation: 'portrait',
+    background_color: '#ffffff',
+    theme_color: '#0f172a',
+    icons: [
+      {
+        src: '/icons/icon-192.png',
+        sizes: '192x192',
+        type: 'image/png',
+        purpose: 'any',
+      },
+      {
+        src: '/icons/icon-512.png',
+        sizes: '512x512',
+        type: 'image/png',
+        purpose: 'any',
+      },
+      {
+        src: '/icons/icon-512.png',
+        sizes: '512x512',
+        type: 'image/png',
+        purpose: 'maskable',
+      },
+    ],
+  }
+}
@@ -0,0 +1,38 @@
+/**
+ * Settings Page Component
+ *
+ * App-wide preferences that shouldn't be changed mid-session:
+ * - End-of-session system notifications (and the permission prompt)
+ */
+
+import type { Metadata } from 'next'
+import { NotificationSettings } from '@/components/settings/NotificationSettings'
+
+export const metadata: Metadata = {
+  title: 'Settings | Meditation Timer App',
+  description: 'Notification and app preferences for your meditation timer',
+}
+
+export default function SettingsPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <section className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="container mx-auto px-4 py-12 text-center">
+          <h1 className="mb-4 text-4xl font-bold tracking-tight">
+            ⚙️ Settings
+          </h1>
+          <p className="mx-auto max-w-2xl text-muted-foreground">
+            Set things up before you sit, so nothing asks for your attention
+            during one.
+          </p>
+        </div>
+      </section>
+
+      <section className="py-12">
+        <div className="container mx-auto max-w-md px-4">
+          <NotificationSettings />
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,35 @@
+/**
+ * Sign In Page Component
+ *
+ * Sign in with an emailed magic link or with email and password.
+ * Signing in keeps presets, programs and practice history in the account.
+ */
+
+import type { Metadata } from 'next'
+import { SignInForm } from '@/components/auth/SignInForm'
+
+export const metadata: Metadata = {
+  title: 'Sign In | Meditation Timer App',
+  description: 'Sign in to keep your practice history across devices',
+}
+
+export default function SignInPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <section className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="container mx-auto px-4 py-12 text-center">
+          <h1 className="mb-4 text-4xl font-bold tracking-tight">Sign in</h1>
+          <p className="mx-auto max-w-2xl text-muted-foreground">
+            Keep your presets and practice history on every device.
+          </p>
+        </div>
+      </section>
+
+      <section className="py-12">
+        <div className="container mx-auto max-w-sm px-4">
+          <SignInForm />
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,37 @@
+/**
+ * Sign Up Page Component
+ *
+ * Create an account with email and password. Anything practiced as a
+ * guest on this device is moved into the new account on first sign-in.
+ */
+
+import type { Metadata } from 'next'
+import { SignUpForm } from '@/components/auth/SignUpForm'
+
+export const metadata: Metadata = {
+  title: 'Create Account | Meditation Timer App',
+  description: 'Create an account to keep your practice history across devices',
+}
+
+export default function SignUpPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <section className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="container mx-auto px-4 py-12 text-center">
+          <h1 className="mb-4 text-4xl font-bold tracking-tight">
+            Create an account
+          </h1>
+          <p className="mx-auto max-w-2xl text-muted-foreground">
+            Your sessions so far come with you.
+          </p>
+        </div>
+      </section>
+
+      <section className="py-12">
+        <div className="container mx-auto max-w-sm px-4">
+          <SignUpForm />
+        </div>
+      </section>
+    </main>
+  )
+}
@@ -0,0 +1,39 @@
+/**
+ * Stats Page Component
+ *
+ * Practice statistics (from the account when signed in, otherwise this device):
+ * - Current and longest daily streak
+ * - Total time for week, month, year and all time
+ * - Average sit length, completion rate and extended time
+ */
+
+import type { Metadata } from 'next'
+import { StatsDashboard } from '@/components/stats/StatsDashboard'
+
+export const metadata: Metadata = {
+  title: 'Practice Stats | Meditation Timer App',
+  description: 'Streaks, totals and averages from your meditation practice',
+}
+
+export default function StatsPage() {
+  return (
+    <main className="min-h-screen bg-background">
+      <section className="border-b bg-gradient-to-b from-background to-muted/20">
+        <div className="container mx-auto px-4 py-12 text-center">
+          <h1 className="mb-4 text-4xl font-bold tracking-tight">
+            📈 Your Practice
+          </h1>
+          <p className="mx-auto max-w-2xl text-muted-foreground">
+            A gentle look back at your sits - not a scoreboard.
+          </p>
+        </div>
+      </section>
+
+      <section className="py-12">
+        <div className="container mx-auto max-w-3xl px-4">
+          <StatsDashboard />
+        </div>
+      </section>
+    </main>
+  )
+}
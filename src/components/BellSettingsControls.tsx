@@ -0,0 +1,119 @@
+/**
+ * Bell Settings Controls
+ *
+ * Lets the user choose the completion bell, its volume and fade-in,
+ * and preview it before starting a session.
+ */
+
+'use client'
+
+import React from 'react'
+import {
+  BellSettings,
+  BellSound,
+  BELL_SOUNDS,
+  playBell,
+  unlockAudio,
+} from '@/lib/bell'
+
+interface BellSettingsControlsProps {
+  settings: BellSettings
+  onChange: (settings: BellSettings) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function BellSettingsControls({
+  settings,
+  onChange,
+  disabled = false,
+  className = '',
+}: BellSettingsControlsProps) {
+  /**
+   * Preview the bell (this click also unlocks audio on mobile)
+   */
+  const handlePreview = async () => {
+    await unlockAudio()
+    await playBell(settings)
+  }
+
+  return (
+    <fieldset
+      disabled={disabled}
+      className={`space-y-3 text-sm disabled:opacity-50 ${className}`}
+    >
+      <legend className="mb-2 font-medium">Completion bell</legend>
+
+      {/* Bell Sound */}
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="bell-sound" className="text-muted-foreground">
+          Sound
+        </label>
+        <select
+          id="bell-sound"
+          value={settings.sound}
+          onChange={e =>
+            onChange({ ...settings, sound: e.target.value as BellSound })
+          }
+          className="rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+        >
+          {(Object.keys(BELL_SOUNDS) as BellSound[]).map(sound => (
+            <option key={sound} value={sound}>
+              {BELL_SOUNDS[sound].label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {/* Volume */}
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="bell-volume" className="text-muted-foreground">
+          Volume
+        </label>
+        <input
+          id="bell-volume"
+          type="range"
+          min="0"
+          max="1"
+          step="0.05"
+          value={settings.volume}
+          onChange={e =>
+            onChange({ ...settings, volume: parseFloat(e.target.value) })
+          }
+          className="w-40"
+        />
+      </div>
+
+      {/* Fade-in */}
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="bell-fade-in" className="text-muted-foreground">
+          Fade in ({(settings.fadeInMs / 1000).toFixed(1)}s)
+        </label>
+        <input
+          id="bell-fade-in"
+          type="range"
+          min="0"
+          max="5000"
+          step="250"
+          value={settings.fadeInMs}
+          onChange={e =>
+            onChange({ ...settings, fadeInMs: parseInt(e.target.value) })
+          }
+          className="w-40"
+        />
+      </div>
+
+      <div className="text-right">
+        <button
+          type="button"
+          onClick={handlePreview}
+          className="text-muted-foreground underline hover:text-foreground"
+        >
+          Preview bell
+        </button>
+      </div>
+    </fieldset>
+  )
+}
+
+export default BellSettingsControls
@@ -0,0 +1,105 @@
+/**
+ * Guest Import Notice Component
+ *
+ * Runs the one-time guest import (src/lib/guestImport.ts) when someone
+ * signs in on a device they've been practicing on as a guest, then
+ * reports what was moved into their account. Renders nothing otherwise.
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import { usePracticeStore } from '@/hooks/usePracticeStore'
+import { GuestImportResult, importGuestDataForUser } from '@/lib/guestImport'
+import { ErrorMessage } from '@/components/ui/ErrorMessage'
+
+/**
+ * "3 sessions", "1 preset"
+ */
+function pluralize(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
+
+export function GuestImportNotice() {
+  const { userId } = usePracticeStore()
+  const [result, setResult] = useState<GuestImportResult | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!userId) return
+    let cancelled = false
+
+    importGuestDataForUser(userId)
+      .then(imported => {
+        if (!cancelled) setResult(imported)
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to import guest data'
+          )
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [userId])
+
+  if (error) {
+    return (
+      <div className="fixed inset-x-0 bottom-4 z-50 mx-auto max-w-md px-4">
+        <ErrorMessage
+          severity="warning"
+          title="Couldn't move your practice into your account"
+          message="It's still saved on this device, and we'll try again next time you sign in."
+          details={error}
+          onRetry={() => setError(null)}
+          retryLabel="Dismiss"
+        />
+      </div>
+    )
+  }
+
+  if (!result) return null
+
+  const imported = [
+    result.sessions > 0 && pluralize(result.sessions, 'session'),
+    result.presets > 0 && pluralize(result.presets, 'preset'),
+    result.programs > 0 && pluralize(result.programs, 'program'),
+  ].filter(Boolean)
+
+  return (
+    <div
+      role="status"
+      className="fixed inset-x-0 bottom-4 z-50 mx-auto max-w-md px-4"
+    >
+      <div className="rounded-lg border border-border bg-background p-4 text-sm shadow-lg">
+        <p className="font-medium">
+          {imported.length > 0
+            ? `Moved ${imported.join(', ')} from this device into your account.`
+            : 'Your account already had everything from this device.'}
+        </p>
+        {result.renamedPresets.length > 0 && (
+          <ul className="mt-2 space-y-1 text-muted-foreground">
+            {result.renamedPresets.map(({ from, to }) => (
+              <li key={to}>
+                &ldquo;{from}&rdquo; was renamed to &ldquo;{to}&rdquo; because
+                your account already has a preset with that name.
+              </li>
+            ))}
+          </ul>
+        )}
+        <button
+          type="button"
+          onClick={() => setResult(null)}
+          className="mt-3 text-primary hover:underline"
+        >
+          Dismiss
+        </button>
+      </div>
+    </div>
+  )
+}
+
+export default GuestImportNotice
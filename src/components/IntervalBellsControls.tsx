@@ -0,0 +1,209 @@
+/**
+ * Interval Bells Controls
+ *
+ * Configure soft marks during a session, either repeating
+ * ("every 15 min") or at listed offsets ("at 5, 20, 40 min").
+ * Each bell has its own sound and strike count.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { BellSound, BELL_SOUNDS } from '@/lib/bell'
+import { IntervalBell, parseOffsetMinutes } from '@/lib/intervalBells'
+import { createId } from '@/lib/id'
+
+interface IntervalBellsControlsProps {
+  bells: IntervalBell[]
+  onChange: (bells: IntervalBell[]) => void
+  disabled?: boolean
+  className?: string
+}
+
+/**
+ * Create a new interval bell with sensible defaults
+ */
+function createIntervalBell(): IntervalBell {
+  return {
+    id: createId(),
+    schedule: { kind: 'repeating', everyMinutes: 15 },
+    sound: 'chime',
+    strikes: 1,
+  }
+}
+
+/**
+ * Single Interval Bell Row
+ */
+function IntervalBellRow({
+  bell,
+  onChange,
+  onRemove,
+}: {
+  bell: IntervalBell
+  onChange: (bell: IntervalBell) => void
+  onRemove: () => void
+}) {
+  // Keep the raw offsets text so users can type "5, 2" without it being reformatted
+  const [offsetsText, setOffsetsText] = useState(
+    bell.schedule.kind === 'offsets' ? bell.schedule.atMinutes.join(', ') : ''
+  )
+
+  const inputClasses =
+    'rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20'
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-2">
+      {/* Schedule Kind */}
+      <select
+        aria-label="Schedule"
+        value={bell.schedule.kind}
+        onChange={e =>
+          onChange({
+            ...bell,
+            schedule:
+              e.target.value === 'repeating'
+                ? { kind: 'repeating', everyMinutes: 15 }
+                : {
+                    kind: 'offsets',
+                    atMinutes: parseOffsetMinutes(offsetsText),
+                  },
+          })
+        }
+        className={inputClasses}
+      >
+        <option value="repeating">Every</option>
+        <option value="offsets">At</option>
+      </select>
+
+      {/* Schedule Value */}
+      {bell.schedule.kind === 'repeating' ? (
+        <input
+          aria-label="Minutes between bells"
+          type="number"
+          min="1"
+          max="999"
+          value={bell.schedule.everyMinutes}
+          onChange={e =>
+            onChange({
+              ...bell,
+              schedule: {
+                kind: 'repeating',
+                everyMinutes: Math.max(1, parseInt(e.target.value) || 1),
+              },
+            })
+          }
+          className={`w-20 text-center ${inputClasses}`}
+        />
+      ) : (
+        <input
+          aria-label="Minutes at which to ring"
+          type="text"
+          inputMode="decimal"
+          placeholder="5, 20, 40"
+          value={offsetsText}
+          onChange={e => setOffsetsText(e.target.value)}
+          onBlur={() =>
+            onChange({
+              ...bell,
+              schedule: {
+                kind: 'offsets',
+                atMinutes: parseOffsetMinutes(offsetsText),
+              },
+            })
+          }
+          className={`w-32 ${inputClasses}`}
+        />
+      )}
+      <span className="text-muted-foreground">min</span>
+
+      {/* Sound */}
+      <select
+        aria-label="Sound"
+        value={bell.sound}
+        onChange={e =>
+          onChange({ ...bell, sound: e.target.value as BellSound })
+        }
+        className={inputClasses}
+      >
+        {(Object.keys(BELL_SOUNDS) as BellSound[]).map(sound => (
+          <option key={sound} value={sound}>
+            {BELL_SOUNDS[sound].label}
+          </option>
+        ))}
+      </select>
+
+      {/* Strikes */}
+      <input
+        aria-label="Strikes"
+        type="number"
+        min="1"
+        max="9"
+        value={bell.strikes}
+        onChange={e =>
+          onChange({
+            ...bell,
+            strikes: Math.min(9, Math.max(1, parseInt(e.target.value) || 1)),
+          })
+        }
+        className={`w-14 text-center ${inputClasses}`}
+      />
+      <span className="text-muted-foreground">×</span>
+
+      <button
+        type="button"
+        onClick={onRemove}
+        aria-label="Remove interval bell"
+        className="ml-auto text-muted-foreground hover:text-red-600"
+      >
+        ✕
+      </button>
+    </div>
+  )
+}
+
+/**
+ * Main Interval Bells Controls Component
+ */
+export function IntervalBellsControls({
+  bells,
+  onChange,
+  disabled = false,
+  className = '',
+}: IntervalBellsControlsProps) {
+  const updateBell = (updated: IntervalBell) => {
+    onChange(bells.map(bell => (bell.id === updated.id ? updated : bell)))
+  }
+
+  const removeBell = (id: string) => {
+    onChange(bells.filter(bell => bell.id !== id))
+  }
+
+  return (
+    <fieldset
+      disabled={disabled}
+      className={`space-y-2 text-sm disabled:opacity-50 ${className}`}
+    >
+      <legend className="mb-2 font-medium">Interval bells</legend>
+
+      {bells.map(bell => (
+        <IntervalBellRow
+          key={bell.id}
+          bell={bell}
+          onChange={updateBell}
+          onRemove={() => removeBell(bell.id)}
+        />
+      ))}
+
+      <button
+        type="button"
+        onClick={() => onChange([...bells, createIntervalBell()])}
+        className="text-muted-foreground underline hover:text-foreground"
+      >
+        + Add interval bell
+      </button>
+    </fieldset>
+  )
+}
+
+export default IntervalBellsControls
@@ -1,18 +1,118 @@
 'use client'
 
-import { useState, useEffect, useRef, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import Link from 'next/link'
+import { TimerState, SessionSummary, MeditationSession } from '@/types/timer'
+import { useTimerEngine } from '@/hooks/useTimerEngine'
+import { BellSettings, DEFAULT_BELL_SETTINGS, playBell, unlockAudio } from '@/lib/bell'
+import { BellSettingsControls } from '@/components/BellSettingsControls'
+import { IntervalBell, getDueMarks, getIntervalMarks } from '@/lib/intervalBells'
+import { IntervalBellsControls } from '@/components/IntervalBellsControls'
+import { getProgramDurationSeconds, getProgramMarks, getProgramPosition } from '@/lib/sessionPrograms'
+import { usePrograms } from '@/hooks/usePrograms'
+import { SessionProgramControls } from '@/components/SessionProgramControls'
+import { AmbientSound, AMBIENT_SOUNDS, pauseAmbient, playAmbient, stopAmbient } from '@/lib/ambient'
+import { TimerPreset } from '@/lib/presets'
+import { usePresets } from '@/hooks/usePresets'
+import { PresetChips } from '@/components/PresetChips'
+import { createId } from '@/lib/id'
+import { usePracticeStore } from '@/hooks/usePracticeStore'
+import { useSessionSync } from '@/hooks/useSessionSync'
+import { useWakeLock } from '@/hooks/useWakeLock'
+import { cancelEndNotification, scheduleEndNotification } from '@/lib/endNotification'
 
-type TimerState = 'ready' | 'running' | 'paused' | 'completed'
+// Preparation countdown choices in seconds (0 = no preparation)
+const PREPARATION_OPTIONS = [0, 10, 15, 20, 30, 45, 60]
+
+// A bell noticed more than this many seconds late (the tab was asleep) is not rung
+const LATE_BELL_GRACE_SECONDS = 30
 
 interface TimerProps {
   className?: string
+  onSessionFinish?: (summary: SessionSummary) => void // Called when the user presses Finish
 }
 
-export function MeditationTimer({ className = '' }: TimerProps) {
+export function MeditationTimer({ className = '', onSessionFinish }: TimerProps) {
   const [duration, setDuration] = useState(10) // Duration in minutes
-  const [timeLeft, setTimeLeft] = useState(10 * 60) // Time left in seconds
   const [state, setState] = useState<TimerState>('ready')
-  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+  const [summary, setSummary] = useState<SessionSummary | null>(null)
+  const [bellSettings, setBellSettings] = useState<BellSettings>(DEFAULT_BELL_SETTINGS)
+  const [intervalBells, setIntervalBells] = useState<IntervalBell[]>([])
+  const [preparationSeconds, setPreparationSeconds] = useState(0)
+  const [selectedProgramId, setSelectedProgramId] = useState<string | null>(null)
+  const [ambientSound, setAmbientSound] = useState<AmbientSound>('none')
+  const [activePresetId, setActivePresetId] = useState<string | null>(null)
+  const [keepScreenOn, setKeepScreenOn] = useState(true)
+  const [missedBellAt, setMissedBellAt] = useState<number | null>(null) // When the planned time ended unheard
+  const firedMarksRef = useRef<Set<string>>(new Set()) // Interval marks that already rang this session
+
+  // Saved session programs (local for guests, Supabase for signed-in users)
+  const { programs, saveProgram, deleteProgram } = usePrograms()
+
+  // A selected program replaces the single duration with the sum of its segments
+  const program = programs.find((p) => p.id === selectedProgramId) ?? null
+  const plannedSeconds = program ? getProgramDurationSeconds(program) : duration * 60
+
+  // Wall-clock based timer engine - remaining and overtime are derived from timestamps
+  const { snapshot, start, pause, resume, reset } = useTimerEngine(plannedSeconds)
+  const timeLeft = snapshot.remainingSeconds // Time left in seconds
+  const overtime = snapshot.overtimeSeconds // Seconds meditated past the planned duration
+
+  // Separate engine for the warm-up, so preparation never counts as meditation time
+  const preparation = useTimerEngine(preparationSeconds)
+
+  // Every interval mark (including program transition bells) in this session, in order
+  const intervalMarks = useMemo(
+    () =>
+      [
+        ...getIntervalMarks(intervalBells, plannedSeconds),
+        ...(program ? getProgramMarks(program) : []),
+      ].sort((a, b) => a.atSeconds - b.atSeconds),
+    [intervalBells, plannedSeconds, program]
+  )
+
+  // Active segment when running a program
+  const programPosition = program
+    ? getProgramPosition(program, snapshot.elapsedSeconds)
+    : null
+
+  // Where sessions are recorded (this device for guests, the account when signed in)
+  const { store } = usePracticeStore()
+
+  // Saved presets (local for guests, Supabase for signed-in users)
+  const { presets, createPreset, updatePreset, movePreset, deletePreset } = usePresets()
+
+  // Sessions recorded on this device that haven't reached Supabase yet
+  const { pendingCount, syncing, syncError, syncNow } = useSessionSync()
+
+  // Keep the screen from auto-locking during the countdown (where supported)
+  const { supported: wakeLockSupported } = useWakeLock(keepScreenOn && state === 'running')
+
+  // Capture the current timer settings as a preset
+  const buildPreset = useCallback(
+    (id: string, name: string): TimerPreset => ({
+      id,
+      name,
+      durationMinutes: duration,
+      preparationSeconds,
+      ambientSound,
+      programId: selectedProgramId,
+      bellSettings,
+      intervalBells,
+    }),
+    [duration, preparationSeconds, ambientSound, selectedProgramId, bellSettings, intervalBells]
+  )
+
+  // Apply a preset's settings to the timer
+  const handleApplyPreset = useCallback((preset: TimerPreset) => {
+    setDuration(preset.durationMinutes)
+    setPreparationSeconds(preset.preparationSeconds)
+    setAmbientSound(preset.ambientSound)
+    setSelectedProgramId(preset.programId)
+    setBellSettings(preset.bellSettings)
+    setIntervalBells(preset.intervalBells)
+    setActivePresetId(preset.id)
+  }, [])
 
   // Format time as MM:SS or HH:MM:SS
   const formatTime = useCallback((seconds: number): string => {
@@ -28,87 +128,212 @@ export function MeditationTimer({ className = '' }: TimerProps) {
     return `${minutes}:${secs.toString().padStart(2, '0')}`
   }, [])
 
-  // Update duration and reset timer
+  // Update duration (the idle engine picks it up automatically)
   const handleDurationChange = useCallback((newDuration: number) => {
     if (newDuration < 1 || newDuration > 999) return
     
     setDuration(newDuration)
-    if (state === 'ready') {
-      setTimeLeft(newDuration * 60)
-    }
-  }, [state])
+    setActivePresetId(null)
+  }, [])
 
-  // Start timer
-  const handleStart = useCallback(() => {
+  // Schedule the system notification for the planned end (in case the tab is throttled)
+  const scheduleEnd = useCallback(
+    (secondsLeft: number) => {
+      void scheduleEndNotification(Date.now() + secondsLeft * 1000, {
+        title: 'Meditation complete',
+        body: program
+          ? `${program.name} has ended`
+          : `Your ${duration} minute session has ended`,
+      })
+    },
+    [program, duration]
+  )
+
+  // Begin the meditation countdown itself
+  const beginSession = useCallback(() => {
+    firedMarksRef.current = new Set()
+    setMissedBellAt(null)
+    start()
     setState('running')
-  }, [])
+    scheduleEnd(plannedSeconds)
+  }, [start, scheduleEnd, plannedSeconds])
+
+  // Start timer (with the preparation countdown first, if one is set)
+  const handleStart = useCallback(() => {
+    // Unlock audio inside the click so mobile browsers allow the bell later
+    void unlockAudio()
+
+    if (preparationSeconds > 0) {
+      preparation.reset(preparationSeconds)
+      preparation.start()
+      setState('preparing')
+    } else {
+      beginSession()
+    }
+  }, [preparationSeconds, preparation, beginSession])
+
+  // Skip the rest of the preparation and start meditating now
+  const handleSkipPreparation = useCallback(() => {
+    preparation.reset(preparationSeconds)
+    beginSession()
+  }, [preparation, preparationSeconds, beginSession])
 
   // Pause timer
   const handlePause = useCallback(() => {
+    pause()
     setState('paused')
-  }, [])
+    void cancelEndNotification()
+  }, [pause])
 
-  // Resume timer
+  // Resume timer (back into the countdown, or into overtime if it had already ended)
   const handleResume = useCallback(() => {
-    setState('running')
-  }, [])
+    resume()
+    setState(snapshot.isComplete ? 'extended' : 'running')
+    if (!snapshot.isComplete) scheduleEnd(timeLeft)
+  }, [resume, snapshot.isComplete, scheduleEnd, timeLeft])
+
+  // Save the session that just ended to the practice history
+  const saveSession = useCallback(
+    (endedEarly: boolean) => {
+      if (snapshot.startedAt === null) return
+
+      const session: MeditationSession = {
+        id: createId(),
+        startedAt: new Date(snapshot.startedAt).toISOString(),
+        endedAt: new Date().toISOString(),
+        plannedSeconds,
+        actualSeconds: snapshot.elapsedSeconds,
+        extendedSeconds: snapshot.overtimeSeconds,
+        pauseCount: snapshot.pauseCount,
+        endedEarly,
+        programId: selectedProgramId,
+      }
 
-  // Stop and reset timer
+      store.recordSession(session).catch((error) => {
+        console.warn('Unable to record session:', error)
+      })
+    },
+    [snapshot, plannedSeconds, selectedProgramId, store]
+  )
+
+  // Stop and reset timer (a stopped sit is recorded; a stopped preparation is not)
   const handleStop = useCallback(() => {
+    if (state !== 'preparing') {
+      saveSession(!snapshot.isComplete)
+    }
+
+    preparation.reset(preparationSeconds)
+    reset(plannedSeconds)
+    setMissedBellAt(null)
     setState('ready')
-    setTimeLeft(duration * 60)
-  }, [duration])
+    void cancelEndNotification()
+  }, [state, saveSession, snapshot.isComplete, preparation, preparationSeconds, reset, plannedSeconds])
+
+  // Finish an extended session and record planned, extended and total time
+  const handleFinish = useCallback(() => {
+    pause()
+    saveSession(false)
+    const result: SessionSummary = {
+      plannedSeconds,
+      extendedSeconds: overtime,
+      totalSeconds: plannedSeconds + overtime,
+    }
+
+    setSummary(result)
+    setState('completed')
+    onSessionFinish?.(result)
+  }, [pause, saveSession, plannedSeconds, overtime, onSessionFinish])
 
   // Reset to initial state
   const handleReset = useCallback(() => {
+    reset(plannedSeconds)
     setState('ready')
-    setTimeLeft(duration * 60)
-  }, [duration])
+    setSummary(null)
+    setMissedBellAt(null)
+  }, [reset, plannedSeconds])
 
-  // Timer countdown effect
+  // Ambient sound loops while meditating and pauses with the timer
   useEffect(() => {
-    if (state === 'running') {
-      intervalRef.current = setInterval(() => {
-        setTimeLeft((prev) => {
-          if (prev <= 1) {
-            setState('completed')
-            return 0
-          }
-          return prev - 1
-        })
-      }, 1000)
+    if (state === 'running' || state === 'extended') {
+      playAmbient(ambientSound)
+    } else if (state === 'paused') {
+      pauseAmbient()
     } else {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-        intervalRef.current = null
-      }
+      stopAmbient()
     }
+  }, [state, ambientSound])
 
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
-      }
+  // Release the ambient audio and any pending end notification when the timer unmounts
+  useEffect(
+    () => () => {
+      stopAmbient()
+      void cancelEndNotification()
+    },
+    []
+  )
+
+  // Preparation is over - mark the start of the sit with a bell
+  useEffect(() => {
+    if (state === 'preparing' && preparation.snapshot.isComplete) {
+      preparation.reset(preparationSeconds)
+      void playBell(bellSettings)
+      beginSession()
     }
-  }, [state])
+  }, [state, preparation, preparationSeconds, bellSettings, beginSession])
 
-  // Cleanup on unmount
+  // Ring interval bells as their marks are reached. Each mark fires once:
+  // if several became due together (e.g. the tab was asleep) only the latest rings,
+  // and a mark noticed long after it passed is skipped silently.
   useEffect(() => {
-    return () => {
-      if (intervalRef.current) {
-        clearInterval(intervalRef.current)
+    if (state !== 'running') return
+
+    const due = getDueMarks(intervalMarks, snapshot.elapsedSeconds, firedMarksRef.current)
+    if (due.length === 0) return
+
+    due.forEach((mark) => firedMarksRef.current.add(mark.key))
+    const latest = due[due.length - 1]
+    if (snapshot.elapsedSeconds - latest.atSeconds > LATE_BELL_GRACE_SECONDS) return
+    void playBell({ ...bellSettings, sound: latest.sound }, latest.strikes)
+  }, [state, snapshot.elapsedSeconds, intervalMarks, bellSettings])
+
+  // Planned time is over - ring the bell once and keep counting up. If the end
+  // passed while the page was in the background, mark the bell as missed instead
+  // of ringing it late.
+  useEffect(() => {
+    if (state === 'running' && snapshot.isComplete) {
+      setState('extended')
+      void cancelEndNotification() // The page is awake - the in-page bell (or notice) wins
+      if (snapshot.overtimeSeconds > LATE_BELL_GRACE_SECONDS) {
+        setMissedBellAt(Date.now() - snapshot.overtimeSeconds * 1000)
+      } else {
+        void playBell(bellSettings)
       }
     }
-  }, [])
+  }, [state, snapshot.isComplete, snapshot.overtimeSeconds, bellSettings])
+
+  // Whether the planned time is over (counting up, or paused while counting up)
+  const isOvertime = state === 'extended' || (state === 'paused' && timeLeft === 0)
+
+  // Interval marks still to come (hidden once the countdown is over)
+  const upcomingMarks = isOvertime || state === 'completed'
+    ? []
+    : intervalMarks.filter((mark) =>
+        mark.atSeconds > snapshot.elapsedSeconds && !firedMarksRef.current.has(mark.key)
+      )
 
   // Get status text
   const getStatusText = useCallback(() => {
     switch (state) {
       case 'ready':
         return 'Ready to begin'
+      case 'preparing':
+        return 'Settle in - your session begins with the bell'
       case 'running':
         return 'Meditation in progress...'
       case 'paused':
         return 'Paused - resume when ready'
+      case 'extended':
+        return 'Planned time complete - continue as long as you like'
       case 'completed':
         return 'Session complete 🧘'
       default:
@@ -118,6 +343,21 @@ export function MeditationTimer({ className = '' }: TimerProps) {
 
   return (
     <div className={`mx-auto max-w-md ${className}`}>
+      {/* Preset Quick-Start Chips */}
+      {state === 'ready' && (
+        <PresetChips
+          presets={presets}
+          activePresetId={activePresetId}
+          onApply={handleApplyPreset}
+          onSaveCurrent={(name) => createPreset(buildPreset(createId(), name))}
+          onRename={(preset, name) => updatePreset({ ...preset, name })}
+          onUpdateFromCurrent={(preset) => updatePreset(buildPreset(preset.id, preset.name))}
+          onMove={movePreset}
+          onDelete={deletePreset}
+          className="mb-6"
+        />
+      )}
+
       {/* Timer Input */}
       <div className="mb-8 text-center">
         <label className="mb-4 block text-lg font-medium">
@@ -127,26 +367,163 @@ export function MeditationTimer({ className = '' }: TimerProps) {
           type="number"
           min="1"
           max="999"
-          value={duration}
+          value={program ? Math.round(plannedSeconds / 60) : duration}
           onChange={(e) => handleDurationChange(parseInt(e.target.value) || 1)}
-          disabled={state !== 'ready'}
+          disabled={state !== 'ready' || program !== null}
           className="w-32 rounded-lg border border-border bg-background px-4 py-2 text-center text-2xl font-bold focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20 disabled:cursor-not-allowed disabled:opacity-50"
         />
       </div>
 
+      {/* Session Settings */}
+      {state === 'ready' && (
+        <>
+          <div className="mb-8 flex items-center justify-between gap-4 text-sm">
+            <label htmlFor="preparation-seconds" className="font-medium">
+              Preparation
+            </label>
+            <select
+              id="preparation-seconds"
+              value={preparationSeconds}
+              onChange={(e) => setPreparationSeconds(parseInt(e.target.value))}
+              className="rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+            >
+              {PREPARATION_OPTIONS.map((seconds) => (
+                <option key={seconds} value={seconds}>
+                  {seconds === 0 ? 'None' : `${seconds} seconds`}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div className="mb-8 flex items-center justify-between gap-4 text-sm">
+            <label htmlFor="ambient-sound" className="font-medium">
+              Ambient sound
+            </label>
+            <select
+              id="ambient-sound"
+              value={ambientSound}
+              onChange={(e) => setAmbientSound(e.target.value as AmbientSound)}
+              className="rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+            >
+              {(Object.keys(AMBIENT_SOUNDS) as AmbientSound[]).map((sound) => (
+                <option key={sound} value={sound}>
+                  {AMBIENT_SOUNDS[sound].label}
+                </option>
+              ))}
+            </select>
+          </div>
+          {wakeLockSupported && (
+            <div className="mb-8 flex items-center justify-between gap-4 text-sm">
+              <label htmlFor="keep-screen-on" className="font-medium">
+                Keep screen on while meditating
+              </label>
+              <input
+                id="keep-screen-on"
+                type="checkbox"
+                checked={keepScreenOn}
+                onChange={(e) => setKeepScreenOn(e.target.checked)}
+                className="h-4 w-4 accent-primary"
+              />
+            </div>
+          )}
+          <BellSettingsControls
+            settings={bellSettings}
+            onChange={setBellSettings}
+            className="mb-8"
+          />
+          <SessionProgramControls
+            programs={programs}
+            selectedProgramId={selectedProgramId}
+            onSelect={setSelectedProgramId}
+            onSave={saveProgram}
+            onDelete={deleteProgram}
+            className="mb-8"
+          />
+          <IntervalBellsControls
+            bells={intervalBells}
+            onChange={setIntervalBells}
+            className="mb-8"
+          />
+          <p className="mb-8 text-center text-sm text-muted-foreground">
+            Want a notification if the bell can&apos;t play in the background?{' '}
+            <Link href="/settings" className="text-primary hover:underline">
+              Notification settings
+            </Link>
+          </p>
+        </>
+      )}
+
       {/* Timer Display */}
       <div className="mb-8 text-center">
         <div className={`text-6xl font-mono font-bold transition-colors duration-300 ${
           state === 'completed' ? 'text-green-600' :
           state === 'running' ? 'text-primary' :
+          state === 'extended' ? 'text-green-600' :
           state === 'paused' ? 'text-yellow-600' :
+          state === 'preparing' ? 'text-muted-foreground' :
           'text-primary'
         }`}>
-          {formatTime(timeLeft)}
+          {state === 'preparing'
+            ? formatTime(preparation.snapshot.remainingSeconds)
+            : isOvertime
+            ? `+${formatTime(overtime)} over`
+            : state === 'completed' && summary
+              ? formatTime(summary.totalSeconds)
+              : formatTime(timeLeft)}
         </div>
+        {/* Total session time while in overtime */}
+        {isOvertime && (
+          <div className="mt-2 font-mono text-lg text-muted-foreground">
+            {formatTime(plannedSeconds + overtime)} total
+          </div>
+        )}
         <div className="mt-2 text-sm text-muted-foreground">
           {getStatusText()}
         </div>
+        {/* End bell that couldn't ring while the page was in the background */}
+        {isOvertime && missedBellAt !== null && (
+          <div className="mt-2 text-sm text-yellow-600">
+            Bell missed - your planned time ended at{' '}
+            {new Date(missedBellAt).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' })}
+          </div>
+        )}
+
+        {/* Current program segment and overall progress */}
+        {programPosition && !isOvertime && state !== 'ready' && state !== 'preparing' && state !== 'completed' && (
+          <div className="mt-4">
+            <div className="text-lg font-medium">
+              {programPosition.segment.name}
+              <span className="ml-2 font-mono text-muted-foreground">
+                {formatTime(programPosition.segmentRemainingSeconds)}
+              </span>
+            </div>
+            {programPosition.segment.cue && (
+              <p className="mt-1 text-sm italic text-muted-foreground">
+                {programPosition.segment.cue}
+              </p>
+            )}
+            <div className="mx-auto mt-3 h-1 w-full max-w-xs overflow-hidden rounded-full bg-muted">
+              <div
+                className="h-full bg-primary transition-all duration-300"
+                style={{ width: `${programPosition.progress * 100}%` }}
+              />
+            </div>
+            <div className="mt-1 text-xs text-muted-foreground">
+              Segment {programPosition.index + 1} of {program?.segments.length}
+            </div>
+          </div>
+        )}
+
+        {/* Upcoming interval bells */}
+        {upcomingMarks.length > 0 && (
+          <ul className="mt-4 flex flex-wrap justify-center gap-2 text-xs text-muted-foreground">
+            {upcomingMarks.map((mark) => (
+              <li key={mark.key} className="rounded-full bg-muted px-2 py-1">
+                🔔 {formatTime(mark.atSeconds)}
+                {mark.strikes > 1 && ` ×${mark.strikes}`}
+              </li>
+            ))}
+          </ul>
+        )}
       </div>
 
       {/* Timer Controls */}
@@ -159,6 +536,24 @@ export function MeditationTimer({ className = '' }: TimerProps) {
             Start
           </button>
         )}
+
+
+        {state === 'preparing' && (
+          <>
+            <button 
+              onClick={handleSkipPreparation}
+              className="rounded-lg border border-border px-8 py-3 text-lg font-medium transition-colors hover:bg-muted focus:outline-none focus:ring-2 focus:ring-primary/20"
+            >
+              Skip
+            </button>
+            <button 
+              onClick={handleStop}
+              className="rounded-lg border border-red-200 px-8 py-3 text-lg font-medium text-red-600 transition-colors hover:bg-red-50 focus:outline-none focus:ring-2 focus:ring-red-200"
+            >
+              Stop
+            </button>
+          </>
+        )}
         
         {state === 'running' && (
           <>
@@ -194,6 +589,32 @@ export function MeditationTimer({ className = '' }: TimerProps) {
           </>
         )}
         
+        {state === 'extended' && (
+          <>
+            <button 
+              onClick={handlePause}
+              className="rounded-lg border border-border px-8 py-3 text-lg font-medium transition-colors hover:bg-muted focus:outline-none focus:ring-2 focus:ring-primary/20"
+            >
+              Pause
+            </button>
+            <button 
+              onClick={handleFinish}
+              className="rounded-lg bg-primary px-8 py-3 text-lg font-medium text-primary-foreground transition-colors hover:bg-primary/90 focus:outline-none focus:ring-2 focus:ring-primary/20"
+            >
+              Finish
+            </button>
+          </>
+        )}
+
+        {state === 'paused' && isOvertime && (
+          <button 
+            onClick={handleFinish}
+            className="rounded-lg border border-border px-8 py-3 text-lg font-medium transition-colors hover:bg-muted focus:outline-none focus:ring-2 focus:ring-primary/20"
+          >
+            Finish
+          </button>
+        )}
+        
         {state === 'completed' && (
           <button 
             onClick={handleReset}
@@ -205,9 +626,43 @@ export function MeditationTimer({ className = '' }: TimerProps) {
       </div>
 
       {/* Duration info when timer is running */}
-      {(state === 'running' || state === 'paused') && (
+      {(state === 'running' || state === 'paused' || state === 'extended') && (
         <div className="mt-4 text-center text-sm text-muted-foreground">
-          {duration} minute session
+          {program ? program.name : `${duration} minute session`}
+        </div>
+      )}
+
+      {/* Session summary after Finish */}
+      {state === 'completed' && summary && (
+        <div className="mt-6 grid grid-cols-3 gap-4 text-center text-sm text-muted-foreground">
+          <div>
+            <div className="font-mono text-lg text-foreground">{formatTime(summary.plannedSeconds)}</div>
+            planned
+          </div>
+          <div>
+            <div className="font-mono text-lg text-foreground">+{formatTime(summary.extendedSeconds)}</div>
+            extended
+          </div>
+          <div>
+            <div className="font-mono text-lg text-foreground">{formatTime(summary.totalSeconds)}</div>
+            total
+          </div>
+        </div>
+      )}
+
+      {/* Offline sync status */}
+      {pendingCount > 0 && (
+        <div className="mt-6 text-center text-xs text-muted-foreground">
+          {pendingCount} {pendingCount === 1 ? 'session' : 'sessions'} waiting to sync
+          <button
+            type="button"
+            onClick={syncNow}
+            disabled={syncing}
+            className="ml-2 underline hover:text-foreground disabled:opacity-50"
+          >
+            {syncing ? 'Syncing...' : 'Sync now'}
+          </button>
+          {syncError && <p className="mt-1 text-yellow-600">Sync failed: {syncError}</p>}
         </div>
       )}
     </div>
@@ -0,0 +1,160 @@
+/**
+ * Preset Chips
+ *
+ * One-tap quick-start chips for saved timer presets, shown above the
+ * duration input. "Manage" reveals controls to rename, update, reorder
+ * and delete presets, and to save the current settings as a new preset.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { TimerPreset } from '@/lib/presets'
+
+interface PresetChipsProps {
+  presets: TimerPreset[]
+  activePresetId?: string | null // Highlight the preset currently applied
+  onApply: (preset: TimerPreset) => void
+  onSaveCurrent: (name: string) => void // Save current settings as a new preset
+  onRename: (preset: TimerPreset, name: string) => void
+  onUpdateFromCurrent: (preset: TimerPreset) => void // Overwrite with current settings
+  onMove: (presetId: string, direction: -1 | 1) => void
+  onDelete: (presetId: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+export function PresetChips({
+  presets,
+  activePresetId = null,
+  onApply,
+  onSaveCurrent,
+  onRename,
+  onUpdateFromCurrent,
+  onMove,
+  onDelete,
+  disabled = false,
+  className = '',
+}: PresetChipsProps) {
+  const [managing, setManaging] = useState(false)
+  const [newName, setNewName] = useState('')
+
+  /**
+   * Save the current timer settings under the typed name
+   */
+  const handleSaveCurrent = (event: React.FormEvent) => {
+    event.preventDefault()
+    if (newName.trim() === '') return
+
+    onSaveCurrent(newName.trim())
+    setNewName('')
+  }
+
+  return (
+    <div className={`text-sm ${className}`}>
+      {/* Quick-start chips */}
+      <div className="flex flex-wrap justify-center gap-2">
+        {presets.map(preset => (
+          <button
+            key={preset.id}
+            type="button"
+            onClick={() => onApply(preset)}
+            disabled={disabled}
+            className={`
+              rounded-full px-3 py-1 font-medium transition-colors disabled:opacity-50
+              ${
+                preset.id === activePresetId
+                  ? 'bg-primary text-primary-foreground'
+                  : 'bg-muted text-muted-foreground hover:bg-muted/80'
+              }
+            `}
+          >
+            {preset.name}
+          </button>
+        ))}
+
+        <button
+          type="button"
+          onClick={() => setManaging(!managing)}
+          disabled={disabled}
+          className="px-2 py-1 text-muted-foreground underline hover:text-foreground disabled:opacity-50"
+        >
+          {managing ? 'Done' : presets.length > 0 ? 'Manage' : '+ Save preset'}
+        </button>
+      </div>
+
+      {/* Preset management */}
+      {managing && !disabled && (
+        <div className="mt-4 space-y-2 rounded-lg border border-border p-3">
+          {presets.map((preset, index) => (
+            <div key={preset.id} className="flex items-center gap-2">
+              <input
+                aria-label="Preset name"
+                defaultValue={preset.name}
+                onBlur={e => {
+                  const name = e.target.value.trim()
+                  if (name && name !== preset.name) onRename(preset, name)
+                }}
+                className="flex-1 rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+              />
+              <button
+                type="button"
+                onClick={() => onMove(preset.id, -1)}
+                disabled={index === 0}
+                aria-label="Move left"
+                className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+              >
+                ←
+              </button>
+              <button
+                type="button"
+                onClick={() => onMove(preset.id, 1)}
+                disabled={index === presets.length - 1}
+                aria-label="Move right"
+                className="text-muted-foreground hover:text-foreground disabled:opacity-30"
+              >
+                →
+              </button>
+              <button
+                type="button"
+                onClick={() => onUpdateFromCurrent(preset)}
+                title="Replace with the current timer settings"
+                className="text-muted-foreground underline hover:text-foreground"
+              >
+                Update
+              </button>
+              <button
+                type="button"
+                onClick={() => onDelete(preset.id)}
+                aria-label="Delete preset"
+                className="text-muted-foreground hover:text-red-600"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+
+          {/* Save current settings as a new preset */}
+          <form onSubmit={handleSaveCurrent} className="flex gap-2 pt-2">
+            <input
+              aria-label="New preset name"
+              placeholder="Name (e.g. Morning 20)"
+              value={newName}
+              onChange={e => setNewName(e.target.value)}
+              className="flex-1 rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+            />
+            <button
+              type="submit"
+              disabled={newName.trim() === ''}
+              className="rounded bg-primary px-3 py-1 text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+            >
+              Save current
+            </button>
+          </form>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PresetChips
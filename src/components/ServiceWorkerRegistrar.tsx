@@ -0,0 +1,21 @@
+/**
+ * Service Worker Registrar Component
+ *
+ * Registers the offline service worker once the app has loaded. Renders
+ * nothing. Skipped in development (see src/lib/serviceWorker.ts).
+ */
+
+'use client'
+
+import { useEffect } from 'react'
+import { registerServiceWorker } from '@/lib/serviceWorker'
+
+export function ServiceWorkerRegistrar() {
+  useEffect(() => {
+    void registerServiceWorker()
+  }, [])
+
+  return null
+}
+
+export default ServiceWorkerRegistrar
@@ -0,0 +1,294 @@
+/**
+ * Session Program Controls
+ *
+ * Pick a saved multi-segment program for the next sit, or create and edit
+ * programs (ordered segments with a name, length, optional transition bell
+ * and optional on-screen cue).
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { BellSound, BELL_SOUNDS } from '@/lib/bell'
+import { createId } from '@/lib/id'
+import {
+  ProgramSegment,
+  SessionProgram,
+  getProgramDurationSeconds,
+} from '@/lib/sessionPrograms'
+
+interface SessionProgramControlsProps {
+  programs: SessionProgram[]
+  selectedProgramId: string | null
+  onSelect: (programId: string | null) => void
+  onSave: (program: SessionProgram) => void
+  onDelete: (programId: string) => void
+  disabled?: boolean
+  className?: string
+}
+
+const inputClasses =
+  'rounded border border-border bg-background px-2 py-1 text-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20'
+
+/**
+ * Create an empty segment
+ */
+function createSegment(): ProgramSegment {
+  return { id: createId(), name: '', durationMinutes: 5 }
+}
+
+/**
+ * Program Editor
+ *
+ * Edits a draft copy of a program; nothing is saved until the user clicks Save.
+ */
+function ProgramEditor({
+  program,
+  onSave,
+  onCancel,
+}: {
+  program: SessionProgram
+  onSave: (program: SessionProgram) => void
+  onCancel: () => void
+}) {
+  const [draft, setDraft] = useState<SessionProgram>(program)
+
+  const updateSegment = (index: number, changes: Partial<ProgramSegment>) => {
+    setDraft(prev => ({
+      ...prev,
+      segments: prev.segments.map((segment, i) =>
+        i === index ? { ...segment, ...changes } : segment
+      ),
+    }))
+  }
+
+  const removeSegment = (index: number) => {
+    setDraft(prev => ({
+      ...prev,
+      segments: prev.segments.filter((_, i) => i !== index),
+    }))
+  }
+
+  const canSave =
+    draft.name.trim() !== '' &&
+    draft.segments.length > 0 &&
+    draft.segments.every(
+      segment => segment.name.trim() !== '' && segment.durationMinutes > 0
+    )
+
+  return (
+    <div className="space-y-2 rounded-lg border border-border p-3">
+      <input
+        aria-label="Program name"
+        placeholder="Program name"
+        value={draft.name}
+        onChange={e => setDraft({ ...draft, name: e.target.value })}
+        className={`w-full ${inputClasses}`}
+      />
+
+      {draft.segments.map((segment, index) => (
+        <div
+          key={segment.id}
+          className="flex flex-wrap items-center gap-2 border-t border-border pt-2"
+        >
+          <input
+            aria-label="Segment name"
+            placeholder="Segment name"
+            value={segment.name}
+            onChange={e => updateSegment(index, { name: e.target.value })}
+            className={`flex-1 ${inputClasses}`}
+          />
+          <input
+            aria-label="Segment minutes"
+            type="number"
+            min="1"
+            max="999"
+            value={segment.durationMinutes}
+            onChange={e =>
+              updateSegment(index, {
+                durationMinutes: Math.max(1, parseInt(e.target.value) || 1),
+              })
+            }
+            className={`w-16 text-center ${inputClasses}`}
+          />
+          <span className="text-muted-foreground">min</span>
+          <select
+            aria-label="Transition bell"
+            value={segment.transitionBell ?? ''}
+            onChange={e =>
+              updateSegment(index, {
+                transitionBell: (e.target.value || undefined) as
+                  | BellSound
+                  | undefined,
+              })
+            }
+            className={inputClasses}
+          >
+            <option value="">No bell</option>
+            {(Object.keys(BELL_SOUNDS) as BellSound[]).map(sound => (
+              <option key={sound} value={sound}>
+                {BELL_SOUNDS[sound].label}
+              </option>
+            ))}
+          </select>
+          <button
+            type="button"
+            onClick={() => removeSegment(index)}
+            aria-label="Remove segment"
+            className="text-muted-foreground hover:text-red-600"
+          >
+            ✕
+          </button>
+          <input
+            aria-label="On-screen cue"
+            placeholder="On-screen cue (optional)"
+            value={segment.cue ?? ''}
+            onChange={e =>
+              updateSegment(index, { cue: e.target.value || undefined })
+            }
+            className={`w-full ${inputClasses}`}
+          />
+        </div>
+      ))}
+
+      <div className="flex items-center justify-between pt-2">
+        <button
+          type="button"
+          onClick={() =>
+            setDraft(prev => ({
+              ...prev,
+              segments: [...prev.segments, createSegment()],
+            }))
+          }
+          className="text-muted-foreground underline hover:text-foreground"
+        >
+          + Add segment
+        </button>
+        <div className="space-x-3">
+          <button
+            type="button"
+            onClick={onCancel}
+            className="text-muted-foreground hover:text-foreground"
+          >
+            Cancel
+          </button>
+          <button
+            type="button"
+            onClick={() => onSave(draft)}
+            disabled={!canSave}
+            className="rounded bg-primary px-3 py-1 text-primary-foreground hover:bg-primary/90 disabled:opacity-50"
+          >
+            Save
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+/**
+ * Main Session Program Controls Component
+ */
+export function SessionProgramControls({
+  programs,
+  selectedProgramId,
+  onSelect,
+  onSave,
+  onDelete,
+  disabled = false,
+  className = '',
+}: SessionProgramControlsProps) {
+  const [editing, setEditing] = useState<SessionProgram | null>(null)
+  const selectedProgram = programs.find(p => p.id === selectedProgramId)
+
+  const handleSave = (program: SessionProgram) => {
+    onSave(program)
+    onSelect(program.id)
+    setEditing(null)
+  }
+
+  return (
+    <fieldset
+      disabled={disabled}
+      className={`space-y-2 text-sm disabled:opacity-50 ${className}`}
+    >
+      <legend className="mb-2 font-medium">Program</legend>
+
+      <div className="flex items-center gap-2">
+        <select
+          aria-label="Program"
+          value={selectedProgramId ?? ''}
+          onChange={e => onSelect(e.target.value || null)}
+          className={`flex-1 ${inputClasses}`}
+        >
+          <option value="">Single countdown</option>
+          {programs.map(program => (
+            <option key={program.id} value={program.id}>
+              {program.name} (
+              {Math.round(getProgramDurationSeconds(program) / 60)} min)
+            </option>
+          ))}
+        </select>
+
+        {selectedProgram && !editing && (
+          <>
+            <button
+              type="button"
+              onClick={() => setEditing(selectedProgram)}
+              className="text-muted-foreground underline hover:text-foreground"
+            >
+              Edit
+            </button>
+            <button
+              type="button"
+              onClick={() => {
+                onDelete(selectedProgram.id)
+                onSelect(null)
+              }}
+              className="text-muted-foreground underline hover:text-red-600"
+            >
+              Delete
+            </button>
+          </>
+        )}
+      </div>
+
+      {/* Segment overview */}
+      {selectedProgram && !editing && (
+        <ol className="list-inside list-decimal text-muted-foreground">
+          {selectedProgram.segments.map(segment => (
+            <li key={segment.id}>
+              {segment.name} - {segment.durationMinutes} min
+              {segment.transitionBell && ' 🔔'}
+            </li>
+          ))}
+        </ol>
+      )}
+
+      {editing ? (
+        <ProgramEditor
+          key={editing.id}
+          program={editing}
+          onSave={handleSave}
+          onCancel={() => setEditing(null)}
+        />
+      ) : (
+        <button
+          type="button"
+          onClick={() =>
+            setEditing({
+              id: createId(),
+              name: '',
+              segments: [createSegment()],
+            })
+          }
+          className="text-muted-foreground underline hover:text-foreground"
+        >
+          + New program
+        </button>
+      )}
+    </fieldset>
+  )
+}
+
+export default SessionProgramControls
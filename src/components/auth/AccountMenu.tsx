@@ -0,0 +1,95 @@
+/**
+ * Account Menu Component
+ *
+ * Shown in the app header: a "Sign in" link for guests, or the signed-in
+ * user's email with a small menu containing "Sign out". Hidden entirely in
+ * local-only mode, where there are no accounts.
+ */
+
+'use client'
+
+import React, { useEffect, useRef, useState } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+
+export function AccountMenu({ className = '' }: { className?: string }) {
+  const { user, loading, isAvailable, signOut } = useAuth()
+  const [open, setOpen] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const menuRef = useRef<HTMLDivElement>(null)
+
+  // Close the menu on an outside click
+  useEffect(() => {
+    if (!open) return
+
+    const handleClick = (e: MouseEvent) => {
+      if (!menuRef.current?.contains(e.target as Node)) setOpen(false)
+    }
+    document.addEventListener('mousedown', handleClick)
+    return () => document.removeEventListener('mousedown', handleClick)
+  }, [open])
+
+  const handleSignOut = async () => {
+    setError(null)
+    try {
+      await signOut()
+      setOpen(false)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to sign out')
+    }
+  }
+
+  if (!isAvailable || loading) return null
+
+  if (!user) {
+    return (
+      <Link
+        href="/sign-in"
+        className={`rounded-lg border border-border px-3 py-1.5 text-sm font-medium transition-colors hover:bg-muted ${className}`}
+      >
+        Sign in
+      </Link>
+    )
+  }
+
+  return (
+    <div ref={menuRef} className={`relative ${className}`}>
+      <button
+        type="button"
+        onClick={() => setOpen(prev => !prev)}
+        aria-haspopup="menu"
+        aria-expanded={open}
+        className="flex items-center gap-2 rounded-lg px-3 py-1.5 text-sm transition-colors hover:bg-muted"
+      >
+        <span className="flex h-6 w-6 items-center justify-center rounded-full bg-primary text-xs font-medium uppercase text-primary-foreground">
+          {user.email?.[0] ?? '?'}
+        </span>
+        <span className="hidden max-w-[12rem] truncate sm:inline">
+          {user.email}
+        </span>
+      </button>
+
+      {open && (
+        <div
+          role="menu"
+          className="absolute right-0 z-50 mt-2 w-56 rounded-lg border border-border bg-background p-1 text-sm shadow-lg"
+        >
+          <div className="truncate px-3 py-2 text-muted-foreground">
+            {user.email}
+          </div>
+          <button
+            type="button"
+            role="menuitem"
+            onClick={handleSignOut}
+            className="w-full rounded-md px-3 py-2 text-left hover:bg-muted"
+          >
+            Sign out
+          </button>
+          {error && <p className="px-3 py-2 text-red-600">{error}</p>}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default AccountMenu
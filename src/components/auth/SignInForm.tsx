@@ -0,0 +1,171 @@
+/**
+ * Sign In Form Component
+ *
+ * Email sign-in with two methods:
+ * - Magic link: we email a one-time link, no password needed
+ * - Password: for accounts created with email and password
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+
+type SignInMethod = 'magic-link' | 'password'
+
+interface SignInFormProps {
+  className?: string
+}
+
+export function SignInForm({ className = '' }: SignInFormProps) {
+  const { sendMagicLink, signInWithPassword, isAvailable } = useAuth()
+  const router = useRouter()
+
+  const [method, setMethod] = useState<SignInMethod>('magic-link')
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [linkSentTo, setLinkSentTo] = useState<string | null>(null)
+
+  /**
+   * Send the link or sign in, depending on the chosen method
+   */
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      if (method === 'magic-link') {
+        await sendMagicLink(email)
+        setLinkSentTo(email)
+      } else {
+        await signInWithPassword(email, password)
+        router.push('/')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to sign in')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (linkSentTo) {
+    return (
+      <div className={`text-center ${className}`}>
+        <div className="mb-4 text-4xl">📬</div>
+        <h2 className="mb-2 text-xl font-semibold">Check your email</h2>
+        <p className="text-muted-foreground">
+          We sent a sign-in link to <strong>{linkSentTo}</strong>. Open it on
+          this device to continue.
+        </p>
+        <button
+          type="button"
+          onClick={() => setLinkSentTo(null)}
+          className="mt-4 text-sm text-primary hover:underline"
+        >
+          Use a different email
+        </button>
+      </div>
+    )
+  }
+
+  if (!isAvailable) {
+    return (
+      <p className={`text-center text-muted-foreground ${className}`}>
+        Accounts aren&apos;t available right now. The timer, presets and history
+        all work on this device without one.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`space-y-4 ${className}`}>
+      {/* Method Toggle */}
+      <div className="grid grid-cols-2 gap-1 rounded-lg bg-muted p-1 text-sm">
+        {(['magic-link', 'password'] as SignInMethod[]).map(option => (
+          <button
+            key={option}
+            type="button"
+            onClick={() => setMethod(option)}
+            className={`rounded-md px-3 py-2 font-medium transition-colors ${
+              method === option
+                ? 'bg-background shadow-sm'
+                : 'text-muted-foreground hover:text-foreground'
+            }`}
+          >
+            {option === 'magic-link' ? 'Email link' : 'Password'}
+          </button>
+        ))}
+      </div>
+
+      <div>
+        <label
+          htmlFor="sign-in-email"
+          className="mb-1 block text-sm font-medium"
+        >
+          Email
+        </label>
+        <input
+          id="sign-in-email"
+          type="email"
+          required
+          autoComplete="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+      </div>
+
+      {method === 'password' && (
+        <div>
+          <label
+            htmlFor="sign-in-password"
+            className="mb-1 block text-sm font-medium"
+          >
+            Password
+          </label>
+          <input
+            id="sign-in-password"
+            type="password"
+            required
+            autoComplete="current-password"
+            value={password}
+            onChange={e => setPassword(e.target.value)}
+            className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+          />
+        </div>
+      )}
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-lg bg-primary px-4 py-2 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+      >
+        {submitting
+          ? 'Please wait...'
+          : method === 'magic-link'
+            ? 'Email me a sign-in link'
+            : 'Sign in'}
+      </button>
+
+      <p className="text-center text-sm text-muted-foreground">
+        New here?{' '}
+        <Link href="/sign-up" className="text-primary hover:underline">
+          Create an account
+        </Link>
+      </p>
+    </form>
+  )
+}
+
+export default SignInForm
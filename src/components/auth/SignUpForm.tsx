@@ -0,0 +1,142 @@
+/**
+ * Sign Up Form Component
+ *
+ * Creates an account with email and password. If the project requires
+ * email confirmation, the user is asked to check their inbox; otherwise
+ * they're signed in and taken back to the timer.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import Link from 'next/link'
+import { useRouter } from 'next/navigation'
+import { useAuth } from '@/contexts/AuthContext'
+
+// Supabase's default minimum password length
+const MIN_PASSWORD_LENGTH = 6
+
+interface SignUpFormProps {
+  className?: string
+}
+
+export function SignUpForm({ className = '' }: SignUpFormProps) {
+  const { signUp, isAvailable } = useAuth()
+  const router = useRouter()
+
+  const [email, setEmail] = useState('')
+  const [password, setPassword] = useState('')
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [confirmationSentTo, setConfirmationSentTo] = useState<string | null>(
+    null
+  )
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSubmitting(true)
+    setError(null)
+
+    try {
+      const { needsConfirmation } = await signUp(email, password)
+      if (needsConfirmation) {
+        setConfirmationSentTo(email)
+      } else {
+        router.push('/')
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unable to create account')
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  if (confirmationSentTo) {
+    return (
+      <div className={`text-center ${className}`}>
+        <div className="mb-4 text-4xl">📬</div>
+        <h2 className="mb-2 text-xl font-semibold">Confirm your email</h2>
+        <p className="text-muted-foreground">
+          We sent a confirmation link to <strong>{confirmationSentTo}</strong>.
+          Open it to finish creating your account.
+        </p>
+      </div>
+    )
+  }
+
+  if (!isAvailable) {
+    return (
+      <p className={`text-center text-muted-foreground ${className}`}>
+        Accounts aren&apos;t available right now. The timer, presets and history
+        all work on this device without one.
+      </p>
+    )
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className={`space-y-4 ${className}`}>
+      <div>
+        <label
+          htmlFor="sign-up-email"
+          className="mb-1 block text-sm font-medium"
+        >
+          Email
+        </label>
+        <input
+          id="sign-up-email"
+          type="email"
+          required
+          autoComplete="email"
+          value={email}
+          onChange={e => setEmail(e.target.value)}
+          className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+      </div>
+
+      <div>
+        <label
+          htmlFor="sign-up-password"
+          className="mb-1 block text-sm font-medium"
+        >
+          Password
+        </label>
+        <input
+          id="sign-up-password"
+          type="password"
+          required
+          minLength={MIN_PASSWORD_LENGTH}
+          autoComplete="new-password"
+          value={password}
+          onChange={e => setPassword(e.target.value)}
+          className="w-full rounded-lg border border-border bg-background px-3 py-2 focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
+        />
+        <p className="mt-1 text-xs text-muted-foreground">
+          At least {MIN_PASSWORD_LENGTH} characters
+        </p>
+      </div>
+
+      {error && (
+        <p role="alert" className="text-sm text-red-600">
+          {error}
+        </p>
+      )}
+
+      <button
+        type="submit"
+        disabled={submitting}
+        className="w-full rounded-lg bg-primary px-4 py-2 font-medium text-primary-foreground transition-colors hover:bg-primary/90 disabled:opacity-50"
+      >
+        {submitting ? 'Please wait...' : 'Create account'}
+      </button>
+
+      <p className="text-center text-sm text-muted-foreground">
+        Already have an account?{' '}
+        <Link href="/sign-in" className="text-primary hover:underline">
+          Sign in
+        </Link>
+      </p>
+    </form>
+  )
+}
+
+export default SignUpForm
@@ -0,0 +1,109 @@
+/**
+ * Notification Settings Component
+ *
+ * Turns the end-of-session system notification on or off. This is the
+ * only place the app asks for notification permission, so the prompt
+ * never appears in the middle of a sit. Where notifications can't be
+ * pushed from the server, says plainly that delivery is best effort (see
+ * src/lib/endNotification.ts).
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import {
+  getNotificationPermission,
+  isPushDeliveryAvailable,
+  loadNotificationsEnabled,
+  requestNotificationPermission,
+  saveNotificationsEnabled,
+} from '@/lib/endNotification'
+import { registerServiceWorker } from '@/lib/serviceWorker'
+
+interface NotificationSettingsProps {
+  className?: string
+}
+
+export function NotificationSettings({
+  className = '',
+}: NotificationSettingsProps) {
+  const [enabled, setEnabled] = useState(false)
+  const [permission, setPermission] = useState<
+    NotificationPermission | 'unsupported'
+  >('default')
+  const [pushAvailable, setPushAvailable] = useState(true)
+
+  // Settings and permission are only readable in the browser
+  useEffect(() => {
+    setEnabled(loadNotificationsEnabled())
+    setPermission(getNotificationPermission())
+    setPushAvailable(isPushDeliveryAvailable())
+  }, [])
+
+  /**
+   * Toggle notifications, asking for permission the first time
+   */
+  const handleToggle = async (checked: boolean) => {
+    if (!checked) {
+      setEnabled(false)
+      saveNotificationsEnabled(false)
+      return
+    }
+
+    const result =
+      permission === 'granted'
+        ? permission
+        : await requestNotificationPermission()
+    setPermission(result)
+
+    if (result === 'granted') {
+      await registerServiceWorker()
+      setEnabled(true)
+      saveNotificationsEnabled(true)
+    }
+  }
+
+  return (
+    <fieldset className={`space-y-3 text-sm ${className}`}>
+      <legend className="mb-2 font-medium">End-of-session notification</legend>
+
+      <div className="flex items-center justify-between gap-4">
+        <label htmlFor="end-notification" className="text-muted-foreground">
+          Notify me quietly when a session ends while the app is in the
+          background
+        </label>
+        <input
+          id="end-notification"
+          type="checkbox"
+          checked={enabled && permission === 'granted'}
+          disabled={permission === 'unsupported' || permission === 'denied'}
+          onChange={e => void handleToggle(e.target.checked)}
+          className="h-4 w-4 accent-primary"
+        />
+      </div>
+
+      {!pushAvailable && permission !== 'unsupported' && (
+        <p className="text-muted-foreground">
+          Best effort: this browser can&apos;t receive push notifications, and
+          it pauses the app&apos;s background worker after a few minutes, so
+          the notification may not arrive for longer sits. Keep the timer on
+          screen if you rely on the bell.
+        </p>
+      )}
+
+      {permission === 'unsupported' && (
+        <p className="text-muted-foreground">
+          This browser doesn&apos;t support notifications.
+        </p>
+      )}
+      {permission === 'denied' && (
+        <p className="text-yellow-600">
+          Notifications are blocked for this site. Allow them in your browser
+          settings to turn this on.
+        </p>
+      )}
+    </fieldset>
+  )
+}
+
+export default NotificationSettings
@@ -0,0 +1,53 @@
+/**
+ * Daily Minutes Chart
+ *
+ * A simple bar chart of minutes meditated per day. Plain CSS bars keep it
+ * light and calm - no charting library needed.
+ */
+
+'use client'
+
+import React from 'react'
+import { DailyTotal, getDayOfWeek } from '@/lib/stats'
+
+interface DailyMinutesChartProps {
+  days: DailyTotal[] // Oldest first
+  className?: string
+}
+
+const WEEKDAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+
+export function DailyMinutesChart({
+  days,
+  className = '',
+}: DailyMinutesChartProps) {
+  const maxSeconds = Math.max(...days.map(day => day.seconds), 1)
+
+  return (
+    <div className={className}>
+      <div
+        className="flex h-32 items-end gap-1"
+        role="img"
+        aria-label="Minutes meditated per day"
+      >
+        {days.map(({ day, seconds }) => (
+          <div
+            key={day}
+            className="flex-1 rounded-t bg-primary/70"
+            style={{ height: `${(seconds / maxSeconds) * 100}%` }}
+            title={`${day}: ${Math.round(seconds / 60)} min`}
+          />
+        ))}
+      </div>
+      <div className="mt-1 flex gap-1 text-center text-[10px] text-muted-foreground">
+        {days.map(({ day }) => (
+          <span key={day} className="flex-1">
+            {WEEKDAY_LABELS[getDayOfWeek(day)]}
+          </span>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default DailyMinutesChart
@@ -0,0 +1,189 @@
+/**
+ * Practice Heatmap Component
+ *
+ * A year view of practice days, GitHub-contribution style: one square per
+ * day, shaded by minutes meditated. Days follow the user's local time zone.
+ * Clicking a day lists that day's sessions; arrows move between years.
+ */
+
+'use client'
+
+import React, { useMemo, useState } from 'react'
+import { MeditationSession } from '@/types/timer'
+import {
+  DayKey,
+  getDailyTotals,
+  getDayKey,
+  getDayOfWeek,
+  getSessionsForDay,
+  getYearDays,
+} from '@/lib/stats'
+import { EmptyState } from '@/components/ui/EmptyState'
+
+interface PracticeHeatmapProps {
+  sessions: MeditationSession[]
+  timeZone: string
+  className?: string
+}
+
+/**
+ * Shade for a day's total (in minutes)
+ */
+function getShadeClass(minutes: number): string {
+  if (minutes <= 0) return 'bg-muted'
+  if (minutes < 10) return 'bg-primary/25'
+  if (minutes < 20) return 'bg-primary/50'
+  if (minutes < 40) return 'bg-primary/75'
+  return 'bg-primary'
+}
+
+export function PracticeHeatmap({
+  sessions,
+  timeZone,
+  className = '',
+}: PracticeHeatmapProps) {
+  const today = useMemo(() => getDayKey(new Date(), timeZone), [timeZone])
+  const [year, setYear] = useState(() => Number(today.slice(0, 4)))
+  const [selectedDay, setSelectedDay] = useState<DayKey | null>(null)
+
+  const dailyTotals = useMemo(
+    () => getDailyTotals(sessions, timeZone),
+    [sessions, timeZone]
+  )
+
+  /**
+   * Days of the year grouped into week columns (Sunday first). The first
+   * column is padded so each weekday stays on its own row.
+   */
+  const weeks = useMemo(() => {
+    const days = getYearDays(year)
+    const padded: (DayKey | null)[] = [
+      ...Array<null>(getDayOfWeek(days[0])).fill(null),
+      ...days,
+    ]
+
+    const columns: (DayKey | null)[][] = []
+    for (let i = 0; i < padded.length; i += 7) {
+      columns.push(padded.slice(i, i + 7))
+    }
+    return columns
+  }, [year])
+
+  const yearHasPractice = useMemo(
+    () =>
+      Array.from(dailyTotals.keys()).some(day => day.startsWith(`${year}-`)),
+    [dailyTotals, year]
+  )
+
+  const selectedSessions = selectedDay
+    ? getSessionsForDay(sessions, selectedDay, timeZone)
+    : []
+
+  const changeYear = (delta: number) => {
+    setYear(prev => prev + delta)
+    setSelectedDay(null)
+  }
+
+  return (
+    <div className={className}>
+      {/* Year navigation */}
+      <div className="mb-4 flex items-center justify-between">
+        <button
+          type="button"
+          onClick={() => changeYear(-1)}
+          aria-label="Previous year"
+          className="rounded px-2 py-1 text-muted-foreground hover:bg-muted"
+        >
+          ←
+        </button>
+        <span className="font-semibold">{year}</span>
+        <button
+          type="button"
+          onClick={() => changeYear(1)}
+          disabled={year >= Number(today.slice(0, 4))}
+          aria-label="Next year"
+          className="rounded px-2 py-1 text-muted-foreground hover:bg-muted disabled:opacity-30"
+        >
+          →
+        </button>
+      </div>
+
+      {yearHasPractice ? (
+        <div className="overflow-x-auto">
+          <div className="flex gap-[3px]" role="grid" aria-label={`${year}`}>
+            {weeks.map((week, weekIndex) => (
+              <div key={weekIndex} className="flex flex-col gap-[3px]">
+                {week.map((day, dayIndex) => {
+                  if (!day) {
+                    return <div key={dayIndex} className="h-3 w-3" />
+                  }
+
+                  const minutes = Math.round((dailyTotals.get(day) ?? 0) / 60)
+                  return (
+                    <button
+                      key={day}
+                      type="button"
+                      onClick={() => setSelectedDay(day)}
+                      disabled={day > today}
+                      title={`${day}: ${minutes} min`}
+                      aria-label={`${day}: ${minutes} minutes`}
+                      className={`h-3 w-3 rounded-sm ${getShadeClass(minutes)} ${
+                        day === selectedDay ? 'ring-2 ring-foreground' : ''
+                      } disabled:opacity-40`}
+                    />
+                  )
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : (
+        <EmptyState
+          icon="🗓️"
+          title={`No practice in ${year}`}
+          message="Days you meditate will light up here."
+          size="sm"
+        />
+      )}
+
+      {/* Sessions on the selected day */}
+      {selectedDay && (
+        <div className="mt-4 rounded-lg border border-border p-4 text-sm">
+          <h3 className="mb-2 font-semibold">
+            {new Date(`${selectedDay}T12:00:00`).toLocaleDateString(undefined, {
+              weekday: 'long',
+              month: 'long',
+              day: 'numeric',
+              year: 'numeric',
+            })}
+          </h3>
+          {selectedSessions.length === 0 ? (
+            <p className="text-muted-foreground">No sessions on this day.</p>
+          ) : (
+            <ul className="space-y-1">
+              {selectedSessions.map(session => (
+                <li key={session.id} className="flex justify-between">
+                  <span>
+                    {new Date(session.startedAt).toLocaleTimeString(undefined, {
+                      timeZone,
+                      hour: 'numeric',
+                      minute: '2-digit',
+                    })}
+                  </span>
+                  <span className="text-muted-foreground">
+                    {Math.round(session.actualSeconds / 60)} min
+                    {session.endedEarly && ' (stopped early)'}
+                    {session.extendedSeconds > 0 &&
+                      ` (+${Math.round(session.extendedSeconds / 60)} min)`}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PracticeHeatmap
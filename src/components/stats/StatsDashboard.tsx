@@ -0,0 +1,185 @@
+/**
+ * Stats Dashboard Component
+ *
+ * Shows practice statistics: streaks, totals for week/month/year/all-time,
+ * average sit length, completion rate and time spent past the planned
+ * duration. All calculations live in src/lib/stats.ts.
+ */
+
+'use client'
+
+import React, { useMemo } from 'react'
+import { useSessionHistory } from '@/hooks/useSessionHistory'
+import {
+  computePracticeStats,
+  getLocalTimeZone,
+  getRecentDailyTotals,
+} from '@/lib/stats'
+import { DailyMinutesChart } from '@/components/stats/DailyMinutesChart'
+import { PracticeHeatmap } from '@/components/stats/PracticeHeatmap'
+import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
+import { ErrorMessage } from '@/components/ui/ErrorMessage'
+import { EmptyState } from '@/components/ui/EmptyState'
+
+/**
+ * Format seconds as a short duration ("45 min", "3 h 20 min")
+ */
+function formatMinutes(seconds: number): string {
+  const totalMinutes = Math.round(seconds / 60)
+  const hours = Math.floor(totalMinutes / 60)
+  const minutes = totalMinutes % 60
+
+  if (hours === 0) return `${minutes} min`
+  return minutes === 0 ? `${hours} h` : `${hours} h ${minutes} min`
+}
+
+/**
+ * Single stat tile
+ */
+function StatCard({
+  label,
+  value,
+  detail,
+}: {
+  label: string
+  value: string
+  detail?: string
+}) {
+  return (
+    <div className="rounded-lg border border-border p-4 text-center">
+      <div className="text-2xl font-bold text-foreground">{value}</div>
+      <div className="mt-1 text-sm text-muted-foreground">{label}</div>
+      {detail && (
+        <div className="mt-1 text-xs text-muted-foreground">{detail}</div>
+      )}
+    </div>
+  )
+}
+
+export function StatsDashboard({ className = '' }: { className?: string }) {
+  const { sessions, loading, error, isSignedIn, refresh } = useSessionHistory()
+
+  const timeZone = useMemo(() => getLocalTimeZone(), [])
+  const stats = useMemo(
+    () => computePracticeStats(sessions, { now: new Date(), timeZone }),
+    [sessions, timeZone]
+  )
+  const recentDays = useMemo(
+    () =>
+      getRecentDailyTotals(sessions, { now: new Date(), timeZone, days: 14 }),
+    [sessions, timeZone]
+  )
+
+  if (loading) {
+    return (
+      <div className={`flex flex-col items-center py-12 ${className}`}>
+        <LoadingSpinner size="lg" />
+        <p className="mt-4 text-muted-foreground">Loading your practice...</p>
+      </div>
+    )
+  }
+
+  if (error) {
+    return (
+      <ErrorMessage
+        title="Unable to load statistics"
+        message={error}
+        onRetry={refresh}
+        className={className}
+      />
+    )
+  }
+
+  if (sessions.length === 0) {
+    return (
+      <EmptyState
+        icon="🧘"
+        title="No sessions yet"
+        message="Finish your first meditation and your practice statistics will appear here."
+        className={className}
+      />
+    )
+  }
+
+  return (
+    <div className={`space-y-8 ${className}`}>
+      {!isSignedIn && (
+        <p className="text-center text-sm text-muted-foreground">
+          Your practice history is stored on this device only.
+        </p>
+      )}
+
+      {/* Streaks */}
+      <section className="grid grid-cols-2 gap-4">
+        <StatCard
+          label="Current streak"
+          value={`${stats.currentStreak} ${stats.currentStreak === 1 ? 'day' : 'days'}`}
+        />
+        <StatCard
+          label="Longest streak"
+          value={`${stats.longestStreak} ${stats.longestStreak === 1 ? 'day' : 'days'}`}
+        />
+      </section>
+
+      {/* Totals */}
+      <section>
+        <h2 className="mb-4 text-xl font-semibold">Time meditated</h2>
+        <div className="grid grid-cols-2 gap-4 md:grid-cols-4">
+          <StatCard
+            label="This week"
+            value={formatMinutes(stats.totals.week)}
+          />
+          <StatCard
+            label="This month"
+            value={formatMinutes(stats.totals.month)}
+          />
+          <StatCard
+            label="This year"
+            value={formatMinutes(stats.totals.year)}
+          />
+          <StatCard
+            label="All time"
+            value={formatMinutes(stats.totals.allTime)}
+          />
+        </div>
+      </section>
+
+      {/* Last two weeks */}
+      <section>
+        <h2 className="mb-4 text-xl font-semibold">Last 14 days</h2>
+        <DailyMinutesChart days={recentDays} />
+      </section>
+
+      {/* Year calendar */}
+      <section>
+        <h2 className="mb-4 text-xl font-semibold">Practice calendar</h2>
+        <PracticeHeatmap sessions={sessions} timeZone={timeZone} />
+      </section>
+
+      {/* Sit quality */}
+      <section className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+        <StatCard
+          label="Average sit"
+          value={formatMinutes(stats.averageSeconds)}
+          detail={`${stats.sessionCount} sessions`}
+        />
+        <StatCard
+          label="Completion rate"
+          value={
+            stats.completionRate === null
+              ? '–'
+              : `${Math.round(stats.completionRate * 100)}%`
+          }
+          detail={`${stats.completedCount} finished, ${stats.endedEarlyCount} stopped early`}
+        />
+        <StatCard
+          label="Past planned time"
+          value={formatMinutes(stats.totalExtendedSeconds)}
+          detail={`${formatMinutes(stats.averageExtendedSeconds)} per finished sit`}
+        />
+      </section>
+    </div>
+  )
+}
+
+export default StatsDashboard
@@ -0,0 +1,127 @@
+/**
+ * Premium Entry Gate Component
+ *
+ * Stands in for the body of a locked premium entry on its own page. The
+ * page is rendered on the server without a viewer, so the database only
+ * gives it the teaser. Once someone is signed in, the entry is loaded
+ * again with their session: for subscribers (and the creator) the
+ * database returns it in full, for everyone else it stays locked.
+ *
+ * The decision is made by the database (the `published_content` view and
+ * the content policies), not here.
+ */
+
+'use client'
+
+import React, { useEffect, useState } from 'react'
+import Link from 'next/link'
+import { LockedEntry, TimelineEntryUnion } from '@/types/timeline'
+import { useAuth } from '@/contexts/AuthContext'
+import { fetchContentBySlug, isLockedEntry } from '@/lib/content'
+import { EntryDetailContent } from '@/components/timeline/entries/entryRenderers'
+import { LoadingSpinnerWithText } from '@/components/ui/LoadingSpinner'
+import { ErrorMessage } from '@/components/ui/ErrorMessage'
+
+interface PremiumEntryGateProps {
+  entry: LockedEntry // Teaser loaded by the page
+}
+
+type GateState =
+  | { status: 'checking' }
+  | { status: 'locked' }
+  | { status: 'unlocked'; entry: TimelineEntryUnion }
+  | { status: 'error'; message: string }
+
+export function PremiumEntryGate({ entry }: PremiumEntryGateProps) {
+  const { type, slug, teaser } = entry
+  const { user, loading: authLoading } = useAuth()
+  const [state, setState] = useState<GateState>({ status: 'checking' })
+  const [attempt, setAttempt] = useState(0)
+
+  /**
+   * Load the entry again with the viewer's session (the database only
+   * returns it in full to subscribers and the creator)
+   */
+  useEffect(() => {
+    if (authLoading) return
+    if (!user) {
+      setState({ status: 'locked' })
+      return
+    }
+
+    let cancelled = false
+    setState({ status: 'checking' })
+
+    const unlock = async () => {
+      try {
+        const loaded = await fetchContentBySlug(type, slug)
+        if (cancelled) return
+        setState(
+          loaded && !isLockedEntry(loaded)
+            ? { status: 'unlocked', entry: loaded }
+            : { status: 'locked' }
+        )
+      } catch (err) {
+        if (cancelled) return
+        setState({
+          status: 'error',
+          message:
+            err instanceof Error ? err.message : 'Unable to load this entry',
+        })
+      }
+    }
+
+    unlock()
+    return () => {
+      cancelled = true
+    }
+  }, [authLoading, user, type, slug, attempt])
+
+  if (state.status === 'unlocked') {
+    return <EntryDetailContent entry={state.entry} />
+  }
+
+  if (state.status === 'error') {
+    return (
+      <ErrorMessage
+        message={state.message}
+        onRetry={() => setAttempt(prev => prev + 1)}
+      />
+    )
+  }
+
+  return (
+    <div className="space-y-6">
+      {teaser && (
+        <p className="whitespace-pre-line text-lg leading-relaxed text-gray-700">
+          {teaser}
+        </p>
+      )}
+
+      {state.status === 'checking' ? (
+        <LoadingSpinnerWithText text="Checking your subscription..." />
+      ) : (
+        <div className="rounded-lg border border-yellow-200 bg-yellow-50 p-6 text-center">
+          <p className="mb-2 font-semibold text-yellow-900">
+            ⭐ This is premium content
+          </p>
+          <p className="mb-4 text-sm text-yellow-800">
+            {user
+              ? 'Subscribe to this creator to see the whole entry.'
+              : 'Sign in with a subscribed account to see the whole entry.'}
+          </p>
+          {!user && (
+            <Link
+              href="/sign-in"
+              className="inline-block rounded-lg bg-yellow-600 px-4 py-2 text-sm font-medium text-white hover:bg-yellow-700"
+            >
+              Sign in
+            </Link>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default PremiumEntryGate
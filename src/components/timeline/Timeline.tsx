@@ -10,19 +10,23 @@
  * - Infinite scrolling for performance with large content libraries
  * - Real-time filtering and search
  * - Multiple display layouts (list, grid, compact)
+ * - Year/month scrubber to jump to a period
  * - Loading states and error handling
  */
 
 'use client'
 
-import React from 'react'
+import React, { useRef } from 'react'
 import { useTimeline } from '@/hooks/useTimeline'
+import { useInfiniteScroll } from '@/hooks/useInfiniteScroll'
 import { TimelineEntry } from '@/components/timeline/TimelineEntry'
 import { TimelineFilters } from '@/components/timeline/TimelineFilters'
 import { TimelineViewControls } from '@/components/timeline/TimelineViewControls'
+import { TimelineScrubber } from '@/components/timeline/TimelineScrubber'
 import { LoadingSpinner } from '@/components/ui/LoadingSpinner'
 import { ErrorMessage } from '@/components/ui/ErrorMessage'
 import { EmptyState } from '@/components/ui/EmptyState'
+import { ContentType } from '@/types/timeline'
 
 /**
  * Props for Timeline Component
@@ -33,8 +37,9 @@ interface TimelineProps {
   className?: string // Additional CSS classes
   showFilters?: boolean // Whether to show filter controls
   showViewControls?: boolean // Whether to show layout/sort controls
+  showScrubber?: boolean // Whether to show the year/month scrubber
   maxItems?: number // Limit number of items displayed
-  contentTypes?: string[] // Restrict to specific content types
+  contentTypes?: ContentType[] // Restrict to specific content types
 }
 
 /**
@@ -44,6 +49,7 @@ export function Timeline({
   className = '',
   showFilters = true,
   showViewControls = true,
+  showScrubber = true,
   maxItems,
   contentTypes,
 }: TimelineProps) {
@@ -55,10 +61,27 @@ export function Timeline({
     hasMore,
     filters,
     viewOptions,
+    period,
+    oldestPublishedAt,
+    canJump,
     updateFilters,
     updateViewOptions,
+    loadMore,
+    jumpTo,
+    resetFilters,
     refresh,
-  } = useTimeline()
+  } = useTimeline({ contentTypes })
+
+  // Top of the list, scrolled to after jumping to a period
+  const listTopRef = useRef<HTMLDivElement>(null)
+
+  // Past maxItems nothing more is shown, so there's no point loading it
+  const reachedMaxItems = Boolean(maxItems && entries.length >= maxItems)
+
+  // Load the next page as the end of the list scrolls into view
+  const loadMoreRef = useInfiniteScroll(loadMore, {
+    enabled: hasMore && !loading && !error && !reachedMaxItems,
+  })
 
   /**
    * Handle Filter Changes
@@ -79,6 +102,16 @@ export function Timeline({
     updateViewOptions(newViewOptions)
   }
 
+  /**
+   * Handle Jumps From the Scrubber
+   *
+   * Restarts the list at the chosen month and brings its top into view.
+   */
+  const handleJump = (newPeriod: typeof period) => {
+    jumpTo(newPeriod)
+    listTopRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' })
+  }
+
   /**
    * Get Layout Classes
    *
@@ -105,26 +138,15 @@ export function Timeline({
   }
 
   /**
-   * Filter Entries by Props
+   * Limit Entries by Props
    *
-   * Apply additional filtering based on component props.
-   * This allows parent components to restrict content types.
+   * Content type restrictions are applied by the query (see useTimeline),
+   * so only the maxItems limit is left to apply here.
    */
-  const filteredEntries = React.useMemo(() => {
-    let filtered = entries
-
-    // Apply content type restrictions from props
-    if (contentTypes && contentTypes.length > 0) {
-      filtered = filtered.filter(entry => contentTypes.includes(entry.type))
-    }
-
-    // Apply max items limit
-    if (maxItems && maxItems > 0) {
-      filtered = filtered.slice(0, maxItems)
-    }
-
-    return filtered
-  }, [entries, contentTypes, maxItems])
+  const filteredEntries = React.useMemo(
+    () => (maxItems && maxItems > 0 ? entries.slice(0, maxItems) : entries),
+    [entries, maxItems]
+  )
 
   /**
    * Render Loading State
@@ -167,7 +189,17 @@ export function Timeline({
   if (filteredEntries.length === 0) {
     const emptyMessage = filters.searchQuery
       ? `No results found for "${filters.searchQuery}"`
-      : 'No timeline entries yet. Check back soon for new content!'
+      : filters.dateRange || period
+        ? 'Nothing was published in this period.'
+        : 'No timeline entries yet. Check back soon for new content!'
+    const isNarrowed = Boolean(
+      filters.searchQuery ||
+        filters.dateRange ||
+        filters.contentTypes?.length ||
+        filters.tags?.length ||
+        filters.isPremiumOnly ||
+        period
+    )
 
     return (
       <div className={`timeline-empty ${className}`}>
@@ -175,6 +207,8 @@ export function Timeline({
           title="Timeline is empty"
           message={emptyMessage}
           icon="📅"
+          actionLabel={isNarrowed ? 'Show all content' : undefined}
+          onAction={isNarrowed ? resetFilters : undefined}
         />
       </div>
     )
@@ -226,49 +260,71 @@ export function Timeline({
         )}
       </div>
 
-      {/* Timeline Entries */}
-      <div className={getLayoutClasses()}>
-        {filteredEntries.map((entry, index) => (
-          <TimelineEntry
-            key={entry.id}
-            {...entry}
-            layout={viewOptions.layout}
-            isFirst={index === 0}
-            isLast={index === filteredEntries.length - 1}
-          />
-        ))}
-      </div>
+      {/* Timeline Entries, with the scrubber alongside on large screens */}
+      <div ref={listTopRef} className="flex scroll-mt-8 gap-8">
+        <div className="min-w-0 flex-1">
+          <div className={getLayoutClasses()}>
+            {filteredEntries.map((entry, index) => (
+              <TimelineEntry
+                key={entry.id}
+                entry={entry}
+                layout={viewOptions.layout}
+                isFirst={index === 0}
+                isLast={index === filteredEntries.length - 1}
+              />
+            ))}
+          </div>
 
-      {/* Loading More Indicator */}
-      {loading && entries.length > 0 && (
-        <div className="mt-8 flex justify-center">
-          <LoadingSpinner size="md" />
-          <span className="ml-2 text-muted-foreground">
-            Loading more entries...
-          </span>
-        </div>
-      )}
-
-      {/* Load More Button */}
-      {hasMore && !loading && (
-        <div className="mt-8 flex justify-center">
-          <button
-            onClick={refresh}
-            className="rounded-lg bg-primary px-6 py-2 text-primary-foreground transition-colors hover:bg-primary/90"
-          >
-            Load More Entries
-          </button>
-        </div>
-      )}
-
-      {/* End of Timeline Message */}
-      {!hasMore && filteredEntries.length > 0 && (
-        <div className="mt-8 text-center">
-          <p className="text-muted-foreground">
-            You&apos;ve reached the beginning of the timeline 🎉
-          </p>
+          {/* Infinite Scroll Sentinel */}
+          <div ref={loadMoreRef} aria-hidden="true" />
+
+          {/* Loading More Indicator */}
+          {loading && entries.length > 0 && (
+            <div className="mt-8 flex justify-center">
+              <LoadingSpinner size="md" />
+              <span className="ml-2 text-muted-foreground">
+                Loading more entries...
+              </span>
+            </div>
+          )}
+
+          {/* Load More Button */}
+          {hasMore && !loading && !reachedMaxItems && (
+            <div className="mt-8 flex justify-center">
+              <button
+                onClick={loadMore}
+                className="rounded-lg bg-primary px-6 py-2 text-primary-foreground transition-colors hover:bg-primary/90"
+              >
+                Load More Entries
+              </button>
+            </div>
+          )}
+
+          {/* End of Timeline Message */}
+          {!hasMore && filteredEntries.length > 0 && (
+            <div className="mt-8 text-center">
+              <p className="text-muted-foreground">
+                {viewOptions.sortOrder === 'asc'
+                  ? "You've caught up with the latest entries 🎉"
+                  : "You've reached the beginning of the timeline 🎉"}
+              </p>
+            </div>
+          )}
         </div>
-      )}
+
+        {/* Jump to a year/month (publication-date order only) */}
+        {showScrubber && canJump && (
+          <aside className="hidden w-36 shrink-0 lg:block">
+            <TimelineScrubber
+              className="sticky top-8"
+              oldestPublishedAt={oldestPublishedAt}
+              period={period}
+              sortOrder={viewOptions.sortOrder}
+              onJump={handleJump}
+            />
+          </aside>
+        )}
+      </div>
     </div>
   )
 }
@@ -310,6 +366,7 @@ export function RecentTimeline(props: Omit<TimelineProps, 'maxItems'>) {
       maxItems={10}
       showFilters={false}
       showViewControls={false}
+      showScrubber={false}
     />
   )
 }
@@ -0,0 +1,125 @@
+/**
+ * Timeline Date Range Picker Component
+ *
+ * Limits the timeline to content published in a date range: one of the
+ * presets (last 7 days, this month, this year) or a custom range picked
+ * with two date inputs. Preset ranges are worked out when chosen.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import {
+  DATE_RANGE_PRESETS,
+  DateRange,
+  DateRangePreset,
+  getCustomRange,
+  getPresetRange,
+  toDayInputValue,
+} from '@/lib/dateRange'
+
+interface TimelineDateRangePickerProps {
+  value?: DateRange // Current range (undefined for all time)
+  onChange: (dateRange: DateRange | undefined) => void
+  className?: string
+}
+
+type Choice = DateRangePreset | 'custom'
+
+export function TimelineDateRangePicker({
+  value,
+  onChange,
+  className = '',
+}: TimelineDateRangePickerProps) {
+  // A range set elsewhere (e.g. from the URL) is shown as a custom range
+  const [choice, setChoice] = useState<Choice>(value ? 'custom' : 'all')
+  const [fromDay, setFromDay] = useState(
+    value ? toDayInputValue(value.start) : ''
+  )
+  const [toDay, setToDay] = useState(value ? toDayInputValue(value.end) : '')
+
+  // "Clear all filters" removes the range without going through this picker
+  const activeChoice: Choice = value || choice === 'custom' ? choice : 'all'
+
+  const handleChoice = (next: Choice) => {
+    setChoice(next)
+
+    if (next === 'custom') {
+      const range = getCustomRange(fromDay, toDay)
+      if (range) onChange(range)
+      return
+    }
+
+    onChange(getPresetRange(next))
+  }
+
+  const handleCustomDays = (nextFrom: string, nextTo: string) => {
+    setFromDay(nextFrom)
+    setToDay(nextTo)
+
+    const range = getCustomRange(nextFrom, nextTo)
+    if (range) onChange(range)
+  }
+
+  const choices: { key: Choice; label: string }[] = [
+    ...(Object.keys(DATE_RANGE_PRESETS) as DateRangePreset[]).map(key => ({
+      key,
+      label: DATE_RANGE_PRESETS[key],
+    })),
+    { key: 'custom', label: 'Custom' },
+  ]
+
+  return (
+    <div className={`timeline-date-range space-y-2 ${className}`}>
+      <div
+        className="flex flex-wrap items-center gap-2"
+        role="group"
+        aria-label="Published"
+      >
+        <span className="text-sm text-muted-foreground">Published:</span>
+        {choices.map(({ key, label }) => (
+          <button
+            key={key}
+            type="button"
+            onClick={() => handleChoice(key)}
+            aria-pressed={activeChoice === key}
+            className={`rounded-full px-3 py-1 text-sm transition-colors ${
+              activeChoice === key
+                ? 'bg-primary text-primary-foreground'
+                : 'bg-muted text-muted-foreground hover:bg-muted/80'
+            }`}
+          >
+            {label}
+          </button>
+        ))}
+      </div>
+
+      {activeChoice === 'custom' && (
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">From</span>
+            <input
+              type="date"
+              value={fromDay}
+              max={toDay || undefined}
+              onChange={e => handleCustomDays(e.target.value, toDay)}
+              className="rounded-lg border border-border bg-background px-2 py-1 text-foreground"
+            />
+          </label>
+          <label className="flex items-center gap-2">
+            <span className="text-muted-foreground">To</span>
+            <input
+              type="date"
+              value={toDay}
+              min={fromDay || undefined}
+              onChange={e => handleCustomDays(fromDay, e.target.value)}
+              className="rounded-lg border border-border bg-background px-2 py-1 text-foreground"
+            />
+          </label>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default TimelineDateRangePicker
@@ -6,49 +6,66 @@
  * - Music tracks with audio player
  * - Blog posts with text preview
  * - Artwork with image display
- * - Project updates with rich media
+ * - Projects with status, collaborators and links
+ * - Short updates with an optional image and link
+ *
+ * The shared frame (title, tags, date) lives here; the type-specific part
+ * comes from the renderer registry in ./entries/entryRenderers.tsx.
  *
  * The timeline is the core UX pattern of our site, so this component
  * needs to be performant and visually appealing on all screen sizes.
  */
 
 import React from 'react'
-import Image from 'next/image'
+import Link from 'next/link'
+import type { Route } from 'next'
 import { formatDistanceToNow } from 'date-fns'
+import { TimelineItem } from '@/types/timeline'
+import { EntryContent } from '@/components/timeline/entries/entryRenderers'
 
 // Define what data structure each timeline entry expects
 interface TimelineEntryProps {
-  id: string
-  type: 'music' | 'blog' | 'artwork' | 'project' | 'update'
-  title: string
-  description?: string
-  createdAt: string // ISO date string from database
-  mediaUrl?: string // URL to audio file, image, or video
-  content?: string // Full text content for blog posts
-  tags?: string[] // Categories or labels for filtering
-  isPremium?: boolean // Whether this content requires subscription
+  entry: TimelineItem // The entry (typed by its content type) or a locked teaser
   layout?: 'list' | 'grid' | 'compact' // Display layout option
   isFirst?: boolean // Whether this is the first entry
   isLast?: boolean // Whether this is the last entry
 }
 
+/**
+ * Split a search headline into plain and highlighted parts
+ *
+ * The database wraps each hit in <mark> tags; everything else is the
+ * entry's own text, so it is rendered as text rather than as HTML.
+ */
+function splitHeadline(headline: string) {
+  return headline
+    .split(/(<mark>.*?<\/mark>)/)
+    .filter(part => part !== '')
+    .map(part => {
+      const match = /^<mark>(.*)<\/mark>$/.exec(part)
+      return { text: match ? match[1] : part, highlighted: Boolean(match) }
+    })
+}
+
 /**
  * Main Timeline Entry Component
  *
  * This component uses TypeScript interfaces to ensure we always
  * receive the correct data structure and catch errors early.
  */
-export function TimelineEntry({
-  id,
-  type,
-  title,
-  description,
-  createdAt,
-  mediaUrl,
-  content,
-  tags = [], // Default to empty array if no tags provided
-  isPremium = false, // Default to free content
-}: TimelineEntryProps) {
+export function TimelineEntry({ entry }: TimelineEntryProps) {
+  const {
+    id,
+    type,
+    title,
+    description,
+    createdAt,
+    slug,
+    tags,
+    isPremium,
+    searchHeadline,
+  } = entry
+
   // Convert the database date string into a human-readable format
   // Example: "2024-01-15T10:30:00Z" becomes "2 days ago"
   const timeAgo = formatDistanceToNow(new Date(createdAt), {
@@ -110,62 +127,6 @@ export function TimelineEntry({
     )
   }
 
-  /**
-   * Render content preview based on type
-   * Different content types need different preview layouts
-   */
-  const renderContentPreview = () => {
-    switch (type) {
-      case 'music':
-        return (
-          <div className="mt-2">
-            {mediaUrl && (
-              <audio
-                controls
-                className="w-full"
-                preload="none" // Only load when user clicks play (saves bandwidth)
-              >
-                <source src={mediaUrl} type="audio/mpeg" />
-                Your browser does not support the audio element.
-              </audio>
-            )}
-          </div>
-        )
-
-      case 'artwork':
-        return (
-          <div className="mt-2">
-            {mediaUrl && (
-              <Image
-                src={mediaUrl}
-                alt={title}
-                width={400}
-                height={256}
-                className="max-h-64 w-full rounded-lg object-cover"
-                loading="lazy" // Only load images when they're about to be visible
-              />
-            )}
-          </div>
-        )
-
-      case 'blog':
-        return (
-          <div className="mt-2">
-            {content && (
-              <p className="line-clamp-3 text-gray-600">
-                {/* Show first 200 characters as preview */}
-                {content.substring(0, 200)}
-                {content.length > 200 && '...'}
-              </p>
-            )}
-          </div>
-        )
-
-      default:
-        return null
-    }
-  }
-
   /**
    * Render tags as clickable filters
    * Users can click tags to filter the timeline
@@ -203,7 +164,15 @@ export function TimelineEntry({
           <span className="text-lg" role="img" aria-label={type}>
             {getTypeIcon()}
           </span>
-          <h3 className="text-lg font-semibold text-gray-900">{title}</h3>
+          <h3 className="text-lg font-semibold text-gray-900">
+            {/* The entry's own page shows it in full */}
+            <Link
+              href={`/${type}/${slug}` as Route}
+              className="hover:underline"
+            >
+              {title}
+            </Link>
+          </h3>
         </div>
         {renderPremiumBadge()}
       </header>
@@ -213,8 +182,23 @@ export function TimelineEntry({
         <p className="mt-1 text-sm text-gray-600">{description}</p>
       )}
 
-      {/* Content preview (audio player, image, text preview, etc.) */}
-      {renderContentPreview()}
+      {/* Where the search query matched, with the hits highlighted */}
+      {searchHeadline && (
+        <p className="mt-2 text-sm text-gray-700">
+          {splitHeadline(searchHeadline).map((part, index) =>
+            part.highlighted ? (
+              <mark key={index} className="rounded bg-yellow-100 px-0.5">
+                {part.text}
+              </mark>
+            ) : (
+              <React.Fragment key={index}>{part.text}</React.Fragment>
+            )
+          )}
+        </p>
+      )}
+
+      {/* Type-specific content (audio player, image, excerpt, etc.) */}
+      <EntryContent entry={entry} />
 
       {/* Tags for filtering */}
       {renderTags()}
@@ -240,14 +224,6 @@ export function TimelineEntry({
  * Usage example:
  * import { TimelineEntry } from '@/components/timeline/TimelineEntry'
  *
- * <TimelineEntry
- *   id="music-track-123"
- *   type="music"
- *   title="New Song Release"
- *   description="Latest track from the upcoming album"
- *   createdAt="2024-01-15T10:30:00Z"
- *   mediaUrl="/audio/new-song.mp3"
- *   tags={["music", "album", "2024"]}
- * />
+ * <TimelineEntry entry={entry} layout="list" />
  */
 export default TimelineEntry
@@ -5,6 +5,7 @@
  * - Filter by content type (music, blog, artwork, etc.)
  * - Search within content
  * - Filter by tags
+ * - Limit to a publication date range
  * - Toggle premium-only content
  *
  * This component will be expanded with more advanced filtering options
@@ -13,8 +14,15 @@
 
 'use client'
 
-import React from 'react'
+import React, { useEffect, useRef, useState } from 'react'
 import { TimelineFilters as TimelineFiltersType } from '@/types/timeline'
+import { TimelineDateRangePicker } from '@/components/timeline/TimelineDateRangePicker'
+
+/**
+ * How long typing has to pause before the search runs (milliseconds).
+ * Every search is a database query, so it shouldn't run on each keystroke.
+ */
+const SEARCH_DEBOUNCE_MS = 300
 
 /**
  * Props for TimelineFilters Component
@@ -41,11 +49,38 @@ export function TimelineFilters({
   entryCounts,
   className = '',
 }: TimelineFiltersProps) {
+  // The input updates immediately; the filter only once typing pauses
+  const [searchInput, setSearchInput] = useState(filters.searchQuery || '')
+  const searchTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+
+  // Follow changes made elsewhere (e.g. "Clear all"), unless a search the
+  // user just typed is still waiting to run
+  useEffect(() => {
+    if (searchTimeoutRef.current === null) {
+      setSearchInput(filters.searchQuery || '')
+    }
+  }, [filters.searchQuery])
+
+  // Drop a pending search on unmount
+  useEffect(
+    () => () => {
+      if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current)
+    },
+    []
+  )
+
   /**
    * Handle search input changes
    */
   const handleSearchChange = (event: React.ChangeEvent<HTMLInputElement>) => {
-    onFilterChange({ searchQuery: event.target.value })
+    const searchQuery = event.target.value
+    setSearchInput(searchQuery)
+
+    if (searchTimeoutRef.current) clearTimeout(searchTimeoutRef.current)
+    searchTimeoutRef.current = setTimeout(() => {
+      searchTimeoutRef.current = null
+      onFilterChange({ searchQuery })
+    }, SEARCH_DEBOUNCE_MS)
   }
 
   /**
@@ -73,9 +108,15 @@ export function TimelineFilters({
    * Clear all filters
    */
   const clearAllFilters = () => {
+    if (searchTimeoutRef.current) {
+      clearTimeout(searchTimeoutRef.current)
+      searchTimeoutRef.current = null
+    }
+    setSearchInput('')
     onFilterChange({
       contentTypes: undefined,
       tags: undefined,
+      dateRange: undefined,
       searchQuery: '',
       isPremiumOnly: false,
     })
@@ -89,7 +130,8 @@ export function TimelineFilters({
       (filters.contentTypes && filters.contentTypes.length > 0) ||
       (filters.searchQuery && filters.searchQuery.trim() !== '') ||
       filters.isPremiumOnly ||
-      (filters.tags && filters.tags.length > 0)
+      (filters.tags && filters.tags.length > 0) ||
+      filters.dateRange
     )
   }
 
@@ -100,7 +142,7 @@ export function TimelineFilters({
         <input
           type="text"
           placeholder="Search timeline..."
-          value={filters.searchQuery || ''}
+          value={searchInput}
           onChange={handleSearchChange}
           className="w-full rounded-lg border border-border bg-background px-4 py-2 pl-10 text-foreground placeholder:text-muted-foreground focus:border-primary focus:outline-none focus:ring-2 focus:ring-primary/20"
         />
@@ -161,6 +203,12 @@ export function TimelineFilters({
         })}
       </div>
 
+      {/* Publication Date Range */}
+      <TimelineDateRangePicker
+        value={filters.dateRange}
+        onChange={dateRange => onFilterChange({ dateRange })}
+      />
+
       {/* Additional Filter Options */}
       <div className="flex items-center justify-between">
         {/* Premium Filter Toggle */}
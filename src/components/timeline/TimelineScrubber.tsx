@@ -0,0 +1,133 @@
+/**
+ * Timeline Scrubber Component
+ *
+ * A year/month index shown beside the timeline. Picking a month restarts
+ * the list at that month (see useTimeline's jumpTo); the top button goes
+ * back to the start. Years and months follow the timeline's sort order:
+ * newest first, the list starts at "Latest" and runs from now back to the
+ * oldest published content; oldest first, it starts at "Earliest" and runs
+ * the other way.
+ */
+
+'use client'
+
+import React, { useState } from 'react'
+import { format } from 'date-fns'
+import { TimelinePeriod, TimelineViewOptions } from '@/types/timeline'
+
+interface TimelineScrubberProps {
+  oldestPublishedAt: string | null // How far back to offer
+  period: TimelinePeriod | null // Month currently jumped to
+  sortOrder: TimelineViewOptions['sortOrder'] // Order of the timeline beside it
+  onJump: (period: TimelinePeriod | null) => void
+  className?: string
+}
+
+/**
+ * Years to offer, newest first
+ */
+function getYears(oldest: Date, now: Date): number[] {
+  const years: number[] = []
+  for (let year = now.getFullYear(); year >= oldest.getFullYear(); year--) {
+    years.push(year)
+  }
+  return years
+}
+
+/**
+ * Months of a year that can have content, newest first
+ */
+function getMonths(year: number, oldest: Date, now: Date): number[] {
+  const first = year === oldest.getFullYear() ? oldest.getMonth() : 0
+  const last = year === now.getFullYear() ? now.getMonth() : 11
+
+  const months: number[] = []
+  for (let month = last; month >= first; month--) months.push(month)
+  return months
+}
+
+export function TimelineScrubber({
+  oldestPublishedAt,
+  period,
+  sortOrder,
+  onJump,
+  className = '',
+}: TimelineScrubberProps) {
+  const now = new Date()
+  const ascending = sortOrder === 'asc'
+  const [openYear, setOpenYear] = useState(period?.year ?? now.getFullYear())
+
+  if (!oldestPublishedAt) return null
+  const oldest = new Date(oldestPublishedAt)
+
+  // Listed in the timeline's order
+  const inSortOrder = (values: number[]) =>
+    ascending ? values.slice().reverse() : values
+
+  return (
+    <nav
+      aria-label="Jump to date"
+      className={`timeline-scrubber text-sm ${className}`}
+    >
+      <button
+        type="button"
+        onClick={() => onJump(null)}
+        aria-current={period === null ? 'true' : undefined}
+        className={`mb-2 block w-full rounded px-2 py-1 text-left transition-colors ${
+          period === null
+            ? 'bg-primary text-primary-foreground'
+            : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+        }`}
+      >
+        {ascending ? 'Earliest' : 'Latest'}
+      </button>
+
+      <ol className="space-y-1">
+        {inSortOrder(getYears(oldest, now)).map(year => (
+          <li key={year}>
+            <button
+              type="button"
+              onClick={() => setOpenYear(year)}
+              aria-expanded={openYear === year}
+              className={`w-full rounded px-2 py-1 text-left font-medium transition-colors hover:bg-muted ${
+                period?.year === year
+                  ? 'text-foreground'
+                  : 'text-muted-foreground'
+              }`}
+            >
+              {year}
+            </button>
+
+            {openYear === year && (
+              <ol className="ml-2 mt-1 space-y-0.5 border-l border-border pl-2">
+                {inSortOrder(getMonths(year, oldest, now)).map(month => {
+                  const isActive =
+                    period?.year === year && period.month === month
+
+                  return (
+                    <li key={month}>
+                      <button
+                        type="button"
+                        onClick={() => onJump({ year, month })}
+                        aria-current={isActive ? 'date' : undefined}
+                        className={`w-full rounded px-2 py-0.5 text-left transition-colors ${
+                          isActive
+                            ? 'bg-primary text-primary-foreground'
+                            : 'text-muted-foreground hover:bg-muted hover:text-foreground'
+                        }`}
+                      >
+                        {format(new Date(year, month, 1), 'MMMM')}
+                      </button>
+                    </li>
+                  )
+                })}
+              </ol>
+            )}
+          </li>
+        ))}
+      </ol>
+    </nav>
+  )
+}
+
+export default TimelineScrubber
@@ -0,0 +1,88 @@
+/**
+ * Artwork Entry Content Component
+ *
+ * The artwork-specific part of a timeline entry: the main image, the rest
+ * of the series as thumbnails, medium/dimensions/technique details and a
+ * purchase link.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { ArtworkEntry } from '@/types/timeline'
+
+interface ArtworkEntryContentProps {
+  entry: ArtworkEntry
+}
+
+export function ArtworkEntryContent({ entry }: ArtworkEntryContentProps) {
+  const {
+    title,
+    imageUrl,
+    imageAlt,
+    medium,
+    dimensions,
+    technique,
+    gallery,
+    purchaseUrl,
+  } = entry
+
+  const details = [
+    { label: 'Medium', value: medium },
+    { label: 'Dimensions', value: dimensions },
+    { label: 'Technique', value: technique },
+  ].filter(detail => detail.value)
+
+  return (
+    <div className="mt-2 space-y-2">
+      <Image
+        src={imageUrl}
+        alt={imageAlt}
+        width={400}
+        height={256}
+        className="max-h-64 w-full rounded-lg object-cover"
+        loading="lazy" // Only load images when they're about to be visible
+      />
+
+      {/* Other pieces in the series */}
+      {gallery && gallery.length > 0 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {gallery.map((url, index) => (
+            <Image
+              key={url}
+              src={url}
+              alt={`${title}, image ${index + 2}`}
+              width={64}
+              height={64}
+              className="h-16 w-16 shrink-0 rounded object-cover"
+              loading="lazy"
+            />
+          ))}
+        </div>
+      )}
+
+      {details.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-3 text-sm">
+          {details.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-700">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {purchaseUrl && (
+        <a
+          href={purchaseUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block text-sm text-green-700 hover:underline"
+        >
+          Buy a print
+        </a>
+      )}
+    </div>
+  )
+}
+
+export default ArtworkEntryContent
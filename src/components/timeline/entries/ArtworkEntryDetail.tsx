@@ -0,0 +1,95 @@
+/**
+ * Artwork Entry Detail Component
+ *
+ * The artwork for its own page: the main image at full width, every image
+ * in the series, medium/dimensions/technique details and a purchase link.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { ArtworkEntry } from '@/types/timeline'
+
+interface ArtworkEntryDetailProps {
+  entry: ArtworkEntry
+}
+
+export function ArtworkEntryDetail({ entry }: ArtworkEntryDetailProps) {
+  const {
+    title,
+    imageUrl,
+    imageAlt,
+    medium,
+    dimensions,
+    technique,
+    gallery,
+    purchaseUrl,
+  } = entry
+
+  const details = [
+    { label: 'Medium', value: medium },
+    { label: 'Dimensions', value: dimensions },
+    { label: 'Technique', value: technique },
+  ].filter(detail => detail.value)
+
+  return (
+    <div className="space-y-6">
+      <Image
+        src={imageUrl}
+        alt={imageAlt}
+        width={1200}
+        height={900}
+        className="h-auto w-full rounded-lg"
+        priority // The artwork is the first thing on the page
+      />
+
+      {details.length > 0 && (
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-sm">
+          {details.map(({ label, value }) => (
+            <React.Fragment key={label}>
+              <dt className="text-gray-500">{label}</dt>
+              <dd className="text-gray-700">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+      )}
+
+      {/* The rest of the series */}
+      {gallery && gallery.length > 0 && (
+        <section>
+          <h2 className="mb-3 text-lg font-semibold text-gray-900">
+            From the series
+          </h2>
+          <ul className="grid grid-cols-1 gap-4 sm:grid-cols-2">
+            {gallery.map((url, index) => (
+              <li key={url}>
+                <a href={url} target="_blank" rel="noopener noreferrer">
+                  <Image
+                    src={url}
+                    alt={`${title}, image ${index + 2}`}
+                    width={600}
+                    height={450}
+                    className="h-auto w-full rounded-lg"
+                    loading="lazy"
+                  />
+                </a>
+              </li>
+            ))}
+          </ul>
+        </section>
+      )}
+
+      {purchaseUrl && (
+        <a
+          href={purchaseUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block rounded-lg bg-green-700 px-4 py-2 text-sm font-medium text-white hover:bg-green-800"
+        >
+          Buy a print
+        </a>
+      )}
+    </div>
+  )
+}
+
+export default ArtworkEntryDetail
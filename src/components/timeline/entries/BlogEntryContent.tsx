@@ -0,0 +1,44 @@
+/**
+ * Blog Entry Content Component
+ *
+ * The blog-specific part of a timeline entry: cover image, category,
+ * reading time and the excerpt. The full post isn't shown in the timeline.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { BlogEntry } from '@/types/timeline'
+
+interface BlogEntryContentProps {
+  entry: BlogEntry
+}
+
+export function BlogEntryContent({ entry }: BlogEntryContentProps) {
+  const { title, coverImage, category, readTimeMinutes, excerpt } = entry
+
+  return (
+    <div className="mt-2 space-y-2">
+      {coverImage && (
+        <Image
+          src={coverImage}
+          alt={title}
+          width={400}
+          height={200}
+          className="max-h-48 w-full rounded-lg object-cover"
+          loading="lazy" // Only load images when they're about to be visible
+        />
+      )}
+
+      <p className="flex items-center gap-2 text-xs text-gray-500">
+        <span className="rounded-full bg-blue-100 px-2 py-0.5 text-blue-800">
+          {category}
+        </span>
+        <span>{readTimeMinutes} min read</span>
+      </p>
+
+      <p className="line-clamp-3 text-gray-600">{excerpt}</p>
+    </div>
+  )
+}
+
+export default BlogEntryContent
@@ -0,0 +1,45 @@
+/**
+ * Blog Entry Detail Component
+ *
+ * The whole blog post for its own page: cover image, category, reading
+ * time and the full Markdown body.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { BlogEntry } from '@/types/timeline'
+import { Markdown } from '@/components/ui/Markdown'
+
+interface BlogEntryDetailProps {
+  entry: BlogEntry
+}
+
+export function BlogEntryDetail({ entry }: BlogEntryDetailProps) {
+  const { title, coverImage, category, readTimeMinutes, content } = entry
+
+  return (
+    <div className="space-y-6">
+      {coverImage && (
+        <Image
+          src={coverImage}
+          alt={title}
+          width={1200}
+          height={630}
+          className="w-full rounded-lg object-cover"
+          priority // The cover is the first thing on the page
+        />
+      )}
+
+      <p className="flex items-center gap-2 text-sm text-gray-500">
+        <span className="rounded-full bg-blue-100 px-2 py-0.5 text-blue-800">
+          {category}
+        </span>
+        <span>{readTimeMinutes} min read</span>
+      </p>
+
+      <Markdown source={content} />
+    </div>
+  )
+}
+
+export default BlogEntryDetail
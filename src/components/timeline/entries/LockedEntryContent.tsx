@@ -0,0 +1,42 @@
+/**
+ * Locked Entry Content Component
+ *
+ * Stands in for the type-specific part of a premium entry the viewer isn't
+ * subscribed to: the teaser the database allows (a blog post's excerpt and
+ * cover) and a note that the rest is for subscribers.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { LockedEntry } from '@/types/timeline'
+
+interface LockedEntryContentProps {
+  entry: LockedEntry
+}
+
+export function LockedEntryContent({ entry }: LockedEntryContentProps) {
+  const { title, teaser, previewImage } = entry
+
+  return (
+    <div className="mt-2 space-y-2">
+      {previewImage && (
+        <Image
+          src={previewImage}
+          alt={title}
+          width={400}
+          height={200}
+          className="max-h-48 w-full rounded-lg object-cover"
+          loading="lazy" // Only load images when they're about to be visible
+        />
+      )}
+
+      {teaser && <p className="line-clamp-3 text-gray-600">{teaser}</p>}
+
+      <p className="rounded-lg border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-800">
+        ⭐ Subscribe to see the whole entry.
+      </p>
+    </div>
+  )
+}
+
+export default LockedEntryContent
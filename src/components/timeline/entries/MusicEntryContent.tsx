@@ -0,0 +1,110 @@
+/**
+ * Music Entry Content Component
+ *
+ * The music-specific part of a timeline entry: audio player, track and
+ * album details, streaming links, a waveform when one was generated, and
+ * the lyrics behind a disclosure.
+ */
+
+import React from 'react'
+import { MusicEntry } from '@/types/timeline'
+
+interface MusicEntryContentProps {
+  entry: MusicEntry
+}
+
+/**
+ * Track length as m:ss
+ */
+function formatTrackLength(seconds: number): string {
+  const minutes = Math.floor(seconds / 60)
+  const remainder = Math.round(seconds % 60)
+  return `${minutes}:${String(remainder).padStart(2, '0')}`
+}
+
+export function MusicEntryContent({ entry }: MusicEntryContentProps) {
+  const {
+    audioUrl,
+    duration,
+    albumName,
+    trackNumber,
+    lyrics,
+    spotifyUrl,
+    appleMusicUrl,
+    waveformData,
+  } = entry
+  const peak = waveformData?.length ? Math.max(...waveformData, 1) : 1
+
+  return (
+    <div className="mt-2 space-y-2">
+      {/* Waveform, scaled to the loudest point */}
+      {waveformData && waveformData.length > 0 && (
+        <div className="flex h-10 items-end gap-px" aria-hidden="true">
+          {waveformData.map((value, index) => (
+            <div
+              key={index}
+              className="flex-1 rounded-sm bg-purple-300"
+              style={{ height: `${Math.max((value / peak) * 100, 4)}%` }}
+            />
+          ))}
+        </div>
+      )}
+
+      <audio
+        controls
+        className="w-full"
+        preload="none" // Only load when user clicks play (saves bandwidth)
+      >
+        <source src={audioUrl} type="audio/mpeg" />
+        Your browser does not support the audio element.
+      </audio>
+
+      {/* Track details */}
+      <p className="text-sm text-gray-600">
+        {formatTrackLength(duration)}
+        {albumName && (
+          <>
+            {' · '}
+            {trackNumber ? `Track ${trackNumber} on ` : ''}
+            <span className="italic">{albumName}</span>
+          </>
+        )}
+      </p>
+
+      {/* Streaming links */}
+      {(spotifyUrl || appleMusicUrl) && (
+        <div className="flex gap-3 text-sm">
+          {spotifyUrl && (
+            <a
+              href={spotifyUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-700 hover:underline"
+            >
+              Spotify
+            </a>
+          )}
+          {appleMusicUrl && (
+            <a
+              href={appleMusicUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-purple-700 hover:underline"
+            >
+              Apple Music
+            </a>
+          )}
+        </div>
+      )}
+
+      {lyrics && (
+        <details className="text-sm text-gray-700">
+          <summary className="cursor-pointer text-gray-600">Lyrics</summary>
+          <p className="mt-1 whitespace-pre-line">{lyrics}</p>
+        </details>
+      )}
+    </div>
+  )
+}
+
+export default MusicEntryContent
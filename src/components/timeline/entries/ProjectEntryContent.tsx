@@ -0,0 +1,113 @@
+/**
+ * Project Entry Content Component
+ *
+ * The project-specific part of a timeline entry: status, when it ran,
+ * who was involved, its media and links to the live project and code.
+ */
+
+import React from 'react'
+import { format } from 'date-fns'
+import { ProjectEntry, ProjectStatus } from '@/types/timeline'
+
+interface ProjectEntryContentProps {
+  entry: ProjectEntry
+}
+
+// Label and badge colours for each status
+export const STATUS_STYLES: Record<
+  ProjectStatus,
+  { label: string; className: string }
+> = {
+  planning: { label: 'Planning', className: 'bg-gray-100 text-gray-700' },
+  'in-progress': {
+    label: 'In progress',
+    className: 'bg-orange-100 text-orange-800',
+  },
+  completed: { label: 'Completed', className: 'bg-green-100 text-green-800' },
+  'on-hold': { label: 'On hold', className: 'bg-yellow-100 text-yellow-800' },
+  cancelled: { label: 'Cancelled', className: 'bg-red-100 text-red-800' },
+}
+
+/**
+ * Month and year of a project date
+ */
+export function formatProjectDate(isoDate: string): string {
+  return format(new Date(isoDate), 'MMM yyyy')
+}
+
+export function ProjectEntryContent({ entry }: ProjectEntryContentProps) {
+  const {
+    status,
+    startDate,
+    endDate,
+    collaborators,
+    mediaUrls,
+    projectUrl,
+    githubUrl,
+  } = entry
+  const statusStyle = STATUS_STYLES[status]
+
+  return (
+    <div className="mt-2 space-y-2 text-sm">
+      <p className="flex flex-wrap items-center gap-2">
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${statusStyle.className}`}
+        >
+          {statusStyle.label}
+        </span>
+        <span className="text-gray-600">
+          {formatProjectDate(startDate)} –{' '}
+          {endDate ? formatProjectDate(endDate) : 'ongoing'}
+        </span>
+      </p>
+
+      {collaborators && collaborators.length > 0 && (
+        <p className="text-gray-600">With {collaborators.join(', ')}</p>
+      )}
+
+      {mediaUrls.length > 0 && (
+        <ul className="flex flex-wrap gap-2">
+          {mediaUrls.map((url, index) => (
+            <li key={url}>
+              <a
+                href={url}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="text-orange-700 hover:underline"
+              >
+                Media {index + 1}
+              </a>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {(projectUrl || githubUrl) && (
+        <div className="flex gap-3">
+          {projectUrl && (
+            <a
+              href={projectUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-orange-700 hover:underline"
+            >
+              View project
+            </a>
+          )}
+          {githubUrl && (
+            <a
+              href={githubUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-orange-700 hover:underline"
+            >
+              Source code
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProjectEntryContent
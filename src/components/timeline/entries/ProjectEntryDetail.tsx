@@ -0,0 +1,141 @@
+/**
+ * Project Entry Detail Component
+ *
+ * The project for its own page: status and dates, collaborators, every
+ * piece of media shown inline (images and video; anything else as a link)
+ * and links to the live project and code.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { ProjectEntry } from '@/types/timeline'
+import {
+  STATUS_STYLES,
+  formatProjectDate,
+} from '@/components/timeline/entries/ProjectEntryContent'
+
+interface ProjectEntryDetailProps {
+  entry: ProjectEntry
+}
+
+const IMAGE_EXTENSIONS = /\.(avif|gif|jpe?g|png|webp)$/i
+const VIDEO_EXTENSIONS = /\.(m4v|mov|mp4|webm)$/i
+
+/**
+ * Whether a media URL's path ends in one of the given extensions
+ */
+function hasExtension(url: string, extensions: RegExp): boolean {
+  return extensions.test(url.split(/[?#]/)[0])
+}
+
+/**
+ * One media item, rendered for what it is
+ */
+function renderMedia(url: string, index: number, title: string) {
+  const label = `${title}, media ${index + 1}`
+
+  if (hasExtension(url, IMAGE_EXTENSIONS)) {
+    return (
+      <Image
+        src={url}
+        alt={label}
+        width={1200}
+        height={675}
+        className="h-auto w-full rounded-lg"
+        loading="lazy"
+      />
+    )
+  }
+
+  if (hasExtension(url, VIDEO_EXTENSIONS)) {
+    return (
+      <video
+        src={url}
+        controls
+        preload="metadata" // Only fetch the video when it is played
+        aria-label={label}
+        className="w-full rounded-lg"
+      />
+    )
+  }
+
+  return (
+    <a
+      href={url}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="text-orange-700 hover:underline"
+    >
+      Media {index + 1}
+    </a>
+  )
+}
+
+export function ProjectEntryDetail({ entry }: ProjectEntryDetailProps) {
+  const {
+    title,
+    status,
+    startDate,
+    endDate,
+    collaborators,
+    mediaUrls,
+    projectUrl,
+    githubUrl,
+  } = entry
+  const statusStyle = STATUS_STYLES[status]
+
+  return (
+    <div className="space-y-6">
+      <p className="flex flex-wrap items-center gap-2 text-sm">
+        <span
+          className={`rounded-full px-2 py-0.5 text-xs font-medium ${statusStyle.className}`}
+        >
+          {statusStyle.label}
+        </span>
+        <span className="text-gray-600">
+          {formatProjectDate(startDate)} –{' '}
+          {endDate ? formatProjectDate(endDate) : 'ongoing'}
+        </span>
+      </p>
+
+      {collaborators && collaborators.length > 0 && (
+        <p className="text-gray-600">With {collaborators.join(', ')}</p>
+      )}
+
+      {mediaUrls.length > 0 && (
+        <ul className="space-y-4">
+          {mediaUrls.map((url, index) => (
+            <li key={url}>{renderMedia(url, index, title)}</li>
+          ))}
+        </ul>
+      )}
+
+      {(projectUrl || githubUrl) && (
+        <div className="flex gap-4">
+          {projectUrl && (
+            <a
+              href={projectUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-orange-700 hover:underline"
+            >
+              View project
+            </a>
+          )}
+          {githubUrl && (
+            <a
+              href={githubUrl}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="text-orange-700 hover:underline"
+            >
+              Source code
+            </a>
+          )}
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default ProjectEntryDetail
@@ -0,0 +1,48 @@
+/**
+ * Update Entry Content Component
+ *
+ * The update-specific part of a timeline entry: the short text, an
+ * optional image and an optional link.
+ */
+
+import React from 'react'
+import Image from 'next/image'
+import { UpdateEntry } from '@/types/timeline'
+
+interface UpdateEntryContentProps {
+  entry: UpdateEntry
+}
+
+export function UpdateEntryContent({ entry }: UpdateEntryContentProps) {
+  const { title, content, imageUrl, linkUrl, linkTitle } = entry
+
+  return (
+    <div className="mt-2 space-y-2">
+      <p className="whitespace-pre-line text-gray-700">{content}</p>
+
+      {imageUrl && (
+        <Image
+          src={imageUrl}
+          alt={title}
+          width={400}
+          height={256}
+          className="max-h-64 w-full rounded-lg object-cover"
+          loading="lazy" // Only load images when they're about to be visible
+        />
+      )}
+
+      {linkUrl && (
+        <a
+          href={linkUrl}
+          target="_blank"
+          rel="noopener noreferrer"
+          className="inline-block text-sm text-gray-700 underline hover:text-gray-900"
+        >
+          {linkTitle || linkUrl}
+        </a>
+      )}
+    </div>
+  )
+}
+
+export default UpdateEntryContent
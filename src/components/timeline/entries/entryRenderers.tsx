@@ -0,0 +1,82 @@
+/**
+ * Timeline Entry Renderers
+ *
+ * One component per content type, each receiving its fully-typed entry -
+ * a compact one for the timeline and a full one for the entry's own page.
+ * The registries are mapped types over ContentType, so adding a content
+ * type without renderers here fails the type check. Locked premium
+ * teasers have no type-specific content and share one component.
+ */
+
+import React, { ComponentType } from 'react'
+import { ContentType, TimelineEntryUnion, TimelineItem } from '@/types/timeline'
+import { isLockedEntry } from '@/lib/content'
+import { MusicEntryContent } from '@/components/timeline/entries/MusicEntryContent'
+import { BlogEntryContent } from '@/components/timeline/entries/BlogEntryContent'
+import { ArtworkEntryContent } from '@/components/timeline/entries/ArtworkEntryContent'
+import { ProjectEntryContent } from '@/components/timeline/entries/ProjectEntryContent'
+import { UpdateEntryContent } from '@/components/timeline/entries/UpdateEntryContent'
+import { LockedEntryContent } from '@/components/timeline/entries/LockedEntryContent'
+import { BlogEntryDetail } from '@/components/timeline/entries/BlogEntryDetail'
+import { ArtworkEntryDetail } from '@/components/timeline/entries/ArtworkEntryDetail'
+import { ProjectEntryDetail } from '@/components/timeline/entries/ProjectEntryDetail'
+
+/**
+ * The entry variant for each content type
+ */
+export type EntryOfType = {
+  [K in ContentType]: Extract<TimelineEntryUnion, { type: K }>
+}
+
+/**
+ * A renderer for every content type
+ */
+type EntryRenderers = {
+  [K in ContentType]: ComponentType<{ entry: EntryOfType[K] }>
+}
+
+const ENTRY_RENDERERS: EntryRenderers = {
+  music: MusicEntryContent,
+  blog: BlogEntryContent,
+  artwork: ArtworkEntryContent,
+  project: ProjectEntryContent,
+  update: UpdateEntryContent,
+}
+
+// Music and updates are shown in full in the timeline already
+const ENTRY_DETAIL_RENDERERS: EntryRenderers = {
+  music: MusicEntryContent,
+  blog: BlogEntryDetail,
+  artwork: ArtworkEntryDetail,
+  project: ProjectEntryDetail,
+  update: UpdateEntryContent,
+}
+
+/**
+ * Pair a type with its entry so the renderer lookup stays typed
+ */
+function renderEntry<K extends ContentType>(
+  renderers: EntryRenderers,
+  type: K,
+  entry: EntryOfType[K]
+) {
+  const Renderer: ComponentType<{ entry: EntryOfType[K] }> = renderers[type]
+  return <Renderer entry={entry} />
+}
+
+/**
+ * Type-specific content of a timeline entry (or the teaser of a locked one)
+ */
+export function EntryContent({ entry }: { entry: TimelineItem }) {
+  if (isLockedEntry(entry)) return <LockedEntryContent entry={entry} />
+  return renderEntry(ENTRY_RENDERERS, entry.type, entry)
+}
+
+/**
+ * Type-specific content of an entry's own page (the whole entry)
+ */
+export function EntryDetailContent({ entry }: { entry: TimelineEntryUnion }) {
+  return renderEntry(ENTRY_DETAIL_RENDERERS, entry.type, entry)
+}
+
+export default EntryContent
@@ -0,0 +1,171 @@
+/**
+ * Markdown Component
+ *
+ * Renders Markdown as React elements - block structure from
+ * parseMarkdown, plus inline emphasis, code, links and images. Everything
+ * is rendered as text or elements (never injected as HTML), and links and
+ * images only keep web, mail and same-site URLs.
+ */
+
+import React from 'react'
+import { MarkdownBlock, parseMarkdown } from '@/lib/markdown'
+
+interface MarkdownProps {
+  source: string // Markdown text
+  className?: string // Additional CSS classes
+}
+
+// Images, links, code and emphasis, in the order they are tried
+const INLINE_TOKEN =
+  /(!\[[^\]]*\]\([^)\s]+\)|\[[^\]]+\]\([^)\s]+\)|`[^`]+`|\*\*[^*]+\*\*|__[^_]+__|\*[^*]+\*|_[^_]+_)/
+
+const HEADING_STYLES: Record<number, string> = {
+  1: 'text-3xl font-bold',
+  2: 'text-2xl font-semibold',
+  3: 'text-xl font-semibold',
+  4: 'text-lg font-semibold',
+  5: 'font-semibold',
+  6: 'font-semibold text-gray-600',
+}
+
+/**
+ * Whether a URL is safe to link to (no javascript: and the like)
+ */
+function isSafeUrl(url: string): boolean {
+  return /^(https?:|mailto:|\/(?!\/)|#)/i.test(url)
+}
+
+/**
+ * Render one inline token (anything matched by INLINE_TOKEN)
+ */
+function renderToken(token: string, key: number): React.ReactNode {
+  const image = /^!\[([^\]]*)\]\(([^)\s]+)\)$/.exec(token)
+  if (image) {
+    const [, alt, src] = image
+    if (!isSafeUrl(src)) return alt
+    // A plain <img>: posts can embed images from any host, while
+    // next/image only serves the hosts configured in next.config.js
+    return (
+      // eslint-disable-next-line @next/next/no-img-element
+      <img
+        key={key}
+        src={src}
+        alt={alt}
+        className="my-4 h-auto w-full rounded-lg"
+        loading="lazy"
+      />
+    )
+  }
+
+  const link = /^\[([^\]]+)\]\(([^)\s]+)\)$/.exec(token)
+  if (link) {
+    const [, text, href] = link
+    if (!isSafeUrl(href)) return text
+    const external = /^https?:/i.test(href)
+    return (
+      <a
+        key={key}
+        href={href}
+        className="text-blue-700 underline hover:text-blue-900"
+        {...(external && { target: '_blank', rel: 'noopener noreferrer' })}
+      >
+        {renderInline(text)}
+      </a>
+    )
+  }
+
+  if (token.startsWith('`')) {
+    return (
+      <code key={key} className="rounded bg-gray-100 px-1 text-sm">
+        {token.slice(1, -1)}
+      </code>
+    )
+  }
+
+  if (token.startsWith('**') || token.startsWith('__')) {
+    return <strong key={key}>{renderInline(token.slice(2, -2))}</strong>
+  }
+
+  return <em key={key}>{renderInline(token.slice(1, -1))}</em>
+}
+
+/**
+ * Render inline Markdown (single line breaks are kept)
+ */
+function renderInline(text: string): React.ReactNode[] {
+  return text
+    .split(INLINE_TOKEN)
+    .filter(part => part !== '')
+    .map((part, index) =>
+      INLINE_TOKEN.test(part) ? (
+        renderToken(part, index)
+      ) : (
+        <React.Fragment key={index}>{part}</React.Fragment>
+      )
+    )
+}
+
+/**
+ * Render one block
+ */
+function renderBlock(block: MarkdownBlock, key: number): React.ReactNode {
+  switch (block.kind) {
+    case 'heading': {
+      const Heading = `h${block.level}` as 'h1'
+      return (
+        <Heading key={key} className={HEADING_STYLES[block.level]}>
+          {renderInline(block.text)}
+        </Heading>
+      )
+    }
+    case 'paragraph':
+      return (
+        <p key={key} className="whitespace-pre-line">
+          {renderInline(block.text)}
+        </p>
+      )
+    case 'list': {
+      const List = block.ordered ? 'ol' : 'ul'
+      return (
+        <List
+          key={key}
+          className={`space-y-1 pl-6 ${block.ordered ? 'list-decimal' : 'list-disc'}`}
+        >
+          {block.items.map((item, index) => (
+            <li key={index}>{renderInline(item)}</li>
+          ))}
+        </List>
+      )
+    }
+    case 'quote':
+      return (
+        <blockquote
+          key={key}
+          className="whitespace-pre-line border-l-4 border-gray-300 pl-4 italic text-gray-600"
+        >
+          {renderInline(block.text)}
+        </blockquote>
+      )
+    case 'code':
+      return (
+        <pre
+          key={key}
+          className="overflow-x-auto rounded-lg bg-gray-900 p-4 text-sm text-gray-100"
+        >
+          <code data-language={block.language}>{block.code}</code>
+        </pre>
+      )
+    case 'rule':
+      return <hr key={key} className="border-gray-200" />
+  }
+}
+
+export function Markdown({ source, className = '' }: MarkdownProps) {
+  return (
+    <div className={`space-y-4 leading-relaxed text-gray-800 ${className}`}>
+      {parseMarkdown(source).map(renderBlock)}
+    </div>
+  )
+}
+
+export default Markdown
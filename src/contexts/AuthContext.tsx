@@ -0,0 +1,178 @@
+/**
+ * Auth Context
+ *
+ * Provides the current Supabase user to the whole app, so the timer,
+ * history and stats react when someone signs in or out, plus the sign-in,
+ * sign-up and sign-out actions used by the auth screens.
+ *
+ * The auth client is injectable: tests (and stories) can pass a stand-in
+ * with the same methods instead of the real Supabase client. In local-only
+ * mode there is no client and everyone is a guest.
+ */
+
+'use client'
+
+import React, {
+  createContext,
+  useCallback,
+  useContext,
+  useEffect,
+  useMemo,
+  useState,
+} from 'react'
+import type { User } from '@supabase/supabase-js'
+import { auth } from '@/lib/supabase'
+import { clearPageCache } from '@/lib/serviceWorker'
+
+/**
+ * The part of the Supabase auth client the app uses
+ */
+export type AuthClient = Pick<
+  NonNullable<typeof auth>,
+  | 'getSession'
+  | 'onAuthStateChange'
+  | 'signInWithOtp'
+  | 'signInWithPassword'
+  | 'signUp'
+  | 'signOut'
+>
+
+interface AuthContextValue {
+  user: User | null // Signed-in user, or null for guests
+  loading: boolean // True until the stored session has been checked
+  isAvailable: boolean // False in local-only mode (no accounts)
+  sendMagicLink: (email: string) => Promise<void>
+  signInWithPassword: (email: string, password: string) => Promise<void>
+  signUp: (
+    email: string,
+    password: string
+  ) => Promise<{ needsConfirmation: boolean }>
+  signOut: () => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+/**
+ * Throw a Supabase auth error as a plain Error
+ */
+function throwIfError(error: { message: string } | null): void {
+  if (error) throw new Error(error.message)
+}
+
+interface AuthProviderProps {
+  children: React.ReactNode
+  client?: AuthClient | null // Defaults to the app's Supabase auth client
+}
+
+export function AuthProvider({ children, client = auth }: AuthProviderProps) {
+  const [user, setUser] = useState<User | null>(null)
+  const [loading, setLoading] = useState(true)
+
+  /**
+   * Read the stored session, then follow sign-ins and sign-outs
+   */
+  useEffect(() => {
+    if (!client) {
+      setLoading(false) // Local-only mode: nobody can sign in
+      return
+    }
+
+    client
+      .getSession()
+      .then(({ data }) => setUser(data.session?.user ?? null))
+      .catch(error => {
+        // Unreadable session: carry on as a guest rather than wait forever
+        console.warn('Could not read the stored session:', error)
+        setUser(null)
+      })
+      .finally(() => setLoading(false))
+
+    const { data } = client.onAuthStateChange((event, session) => {
+      setUser(session?.user ?? null)
+      setLoading(false)
+      // Pages cached for the signed-in user must not outlive the session
+      if (event === 'SIGNED_OUT') void clearPageCache()
+    })
+
+    return () => data.subscription.unsubscribe()
+  }, [client])
+
+  const requireClient = useCallback((): AuthClient => {
+    if (!client)
+      throw new Error('Accounts are not available in local-only mode')
+    return client
+  }, [client])
+
+  /**
+   * Email a one-time sign-in link that returns the user to the app
+   */
+  const sendMagicLink = useCallback(
+    async (email: string) => {
+      const { error } = await requireClient().signInWithOtp({
+        email,
+        options: { emailRedirectTo: window.location.origin },
+      })
+      throwIfError(error)
+    },
+    [requireClient]
+  )
+
+  const signInWithPassword = useCallback(
+    async (email: string, password: string) => {
+      const { error } = await requireClient().signInWithPassword({
+        email,
+        password,
+      })
+      throwIfError(error)
+    },
+    [requireClient]
+  )
+
+  /**
+   * Create an account. Depending on the project settings the user is
+   * either signed in straight away or must confirm their email first.
+   */
+  const signUp = useCallback(
+    async (email: string, password: string) => {
+      const { data, error } = await requireClient().signUp({
+        email,
+        password,
+        options: { emailRedirectTo: window.location.origin },
+      })
+      throwIfError(error)
+      return { needsConfirmation: data.session === null }
+    },
+    [requireClient]
+  )
+
+  const signOut = useCallback(async () => {
+    const { error } = await requireClient().signOut()
+    throwIfError(error)
+  }, [requireClient])
+
+  const value = useMemo(
+    () => ({
+      user,
+      loading,
+      isAvailable: client !== null,
+      sendMagicLink,
+      signInWithPassword,
+      signUp,
+      signOut,
+    }),
+    [user, loading, client, sendMagicLink, signInWithPassword, signUp, signOut]
+  )
+
+  return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+/**
+ * Access the current user and auth actions
+ *
+ * @throws Error when used outside an AuthProvider
+ */
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext)
+  if (!context) throw new Error('useAuth must be used within an AuthProvider')
+  return context
+}
@@ -0,0 +1,149 @@
+/**
+ * Auth Context Tests
+ *
+ * AuthProvider driven by a stub auth client instead of Supabase.
+ *
+ * @jest-environment jsdom
+ */
+
+import React from 'react'
+import { act, renderHook, waitFor } from '@testing-library/react'
+import type { AuthChangeEvent, Session, User } from '@supabase/supabase-js'
+import { AuthClient, AuthProvider, useAuth } from '@/contexts/AuthContext'
+
+const USER = { id: 'user-1', email: 'sitter@example.com' } as User
+
+type AuthListener = (event: AuthChangeEvent, session: Session | null) => void
+
+/**
+ * Stub auth client with a controllable stored session
+ */
+function createStubClient({
+  session = null,
+  getSessionError,
+}: {
+  session?: Session | null
+  getSessionError?: Error
+} = {}) {
+  let listener: AuthListener | null = null
+  const unsubscribe = jest.fn()
+
+  const client = {
+    getSession: jest.fn(() =>
+      getSessionError
+        ? Promise.reject(getSessionError)
+        : Promise.resolve({ data: { session }, error: null })
+    ),
+    onAuthStateChange: jest.fn((callback: AuthListener) => {
+      listener = callback
+      return { data: { subscription: { unsubscribe } } }
+    }),
+    signInWithOtp: jest.fn(),
+    signInWithPassword: jest.fn(),
+    signUp: jest.fn(),
+    signOut: jest.fn(),
+  }
+
+  return {
+    client,
+    unsubscribe,
+    emit: (event: AuthChangeEvent, next: Session | null) =>
+      listener?.(event, next),
+  }
+}
+
+function renderAuth(client: AuthClient | null) {
+  return renderHook(() => useAuth(), {
+    wrapper: ({ children }) => (
+      <AuthProvider client={client}>{children}</AuthProvider>
+    ),
+  })
+}
+
+describe('AuthProvider', () => {
+  it('starts with the stored session', async () => {
+    const stub = createStubClient({ session: { user: USER } as Session })
+    const { result } = renderAuth(stub.client as unknown as AuthClient)
+
+    expect(result.current.loading).toBe(true)
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.user).toEqual(USER)
+    expect(result.current.isAvailable).toBe(true)
+  })
+
+  it('follows sign-in and sign-out events', async () => {
+    const stub = createStubClient()
+    const { result, unmount } = renderAuth(stub.client as unknown as AuthClient)
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.user).toBeNull()
+
+    act(() => stub.emit('SIGNED_IN', { user: USER } as Session))
+    expect(result.current.user).toEqual(USER)
+
+    act(() => stub.emit('SIGNED_OUT', null))
+    expect(result.current.user).toBeNull()
+
+    unmount()
+    expect(stub.unsubscribe).toHaveBeenCalled()
+  })
+
+  it('clears the cached pages on sign-out', async () => {
+    const deleteCache = jest.fn(() => Promise.resolve(true))
+    Object.defineProperty(window, 'caches', {
+      configurable: true,
+      value: {
+        keys: () => Promise.resolve(['shell-v2', 'runtime-v2', 'pages-v2']),
+        delete: deleteCache,
+      },
+    })
+    const stub = createStubClient({ session: { user: USER } as Session })
+    const { result } = renderAuth(stub.client as unknown as AuthClient)
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    act(() => stub.emit('TOKEN_REFRESHED', { user: USER } as Session))
+    act(() => stub.emit('SIGNED_OUT', null))
+
+    await waitFor(() => expect(deleteCache).toHaveBeenCalled())
+    expect(deleteCache.mock.calls).toEqual([['pages-v2']])
+  })
+
+  it('stops loading as a guest when the session cannot be read', async () => {
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const stub = createStubClient({
+      getSessionError: new Error('Storage unavailable'),
+    })
+    const { result } = renderAuth(stub.client as unknown as AuthClient)
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.user).toBeNull()
+    warn.mockRestore()
+  })
+
+  it('passes sign-in errors to the caller', async () => {
+    const stub = createStubClient()
+    stub.client.signInWithPassword.mockResolvedValue({
+      data: { user: null, session: null },
+      error: { message: 'Invalid login credentials' },
+    })
+    const { result } = renderAuth(stub.client as unknown as AuthClient)
+    await waitFor(() => expect(result.current.loading).toBe(false))
+
+    await expect(
+      result.current.signInWithPassword('sitter@example.com', 'wrong')
+    ).rejects.toThrow('Invalid login credentials')
+    expect(stub.client.signInWithPassword).toHaveBeenCalledWith({
+      email: 'sitter@example.com',
+      password: 'wrong',
+    })
+  })
+
+  it('has no accounts in local-only mode', async () => {
+    const { result } = renderAuth(null)
+
+    await waitFor(() => expect(result.current.loading).toBe(false))
+    expect(result.current.isAvailable).toBe(false)
+    await expect(result.current.signOut()).rejects.toThrow(
+      'Accounts are not available in local-only mode'
+    )
+  })
+})
@@ -0,0 +1,51 @@
+/**
+ * useInfiniteScroll Hook
+ *
+ * Calls `onLoadMore` when an element near the end of a list scrolls into
+ * view. Attach the returned ref to a sentinel element after the last item.
+ *
+ * Where IntersectionObserver is missing nothing happens automatically, so
+ * lists should keep a "Load more" button as a fallback.
+ */
+
+'use client'
+
+import { useEffect, useRef } from 'react'
+
+interface UseInfiniteScrollOptions {
+  enabled: boolean // Only observe while there is more to load
+  rootMargin?: string // How early to load, before the sentinel is visible
+}
+
+export function useInfiniteScroll<T extends Element = HTMLDivElement>(
+  onLoadMore: () => void,
+  { enabled, rootMargin = '400px' }: UseInfiniteScrollOptions
+) {
+  const sentinelRef = useRef<T | null>(null)
+
+  // Keep the latest callback without re-creating the observer
+  const onLoadMoreRef = useRef(onLoadMore)
+  useEffect(() => {
+    onLoadMoreRef.current = onLoadMore
+  }, [onLoadMore])
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current
+    if (!enabled || !sentinel) return
+    if (typeof IntersectionObserver === 'undefined') return
+
+    const observer = new IntersectionObserver(
+      observedEntries => {
+        if (observedEntries.some(entry => entry.isIntersecting)) {
+          onLoadMoreRef.current()
+        }
+      },
+      { rootMargin }
+    )
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [enabled, rootMargin])
+
+  return sentinelRef
+}
@@ -0,0 +1,27 @@
+/**
+ * usePracticeStore Hook
+ *
+ * Returns the PracticeStore for whoever is using the app: the Supabase
+ * store for a signed-in user, the local store for guests (and always in
+ * local-only mode). Follows the user from AuthContext.
+ */
+
+'use client'
+
+import { useMemo } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+import { getPracticeStore } from '@/lib/practiceStore'
+
+export function usePracticeStore() {
+  const { user, loading } = useAuth()
+  const userId = user?.id ?? null
+
+  const store = useMemo(() => getPracticeStore(userId), [userId])
+
+  return {
+    store,
+    userId,
+    authChecked: !loading, // False until we know whether someone is signed in
+    isSignedIn: userId !== null,
+  }
+}
@@ -0,0 +1,139 @@
+/**
+ * usePresets Hook
+ *
+ * Manages the user's timer presets: loading, creating, editing,
+ * reordering and deleting. Presets live in the active PracticeStore -
+ * on this device for guests, in Supabase for signed-in users; components
+ * don't need to know which.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { usePracticeStore } from '@/hooks/usePracticeStore'
+import { subscribeToPracticeChanges } from '@/lib/practiceStore'
+import { TimerPreset } from '@/lib/presets'
+
+export function usePresets() {
+  const { store, authChecked, isSignedIn } = usePracticeStore()
+  const [presets, setPresets] = useState<TimerPreset[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+
+  // Reload if presets were changed elsewhere (e.g. imported on sign-in)
+  useEffect(
+    () => subscribeToPracticeChanges(() => setReloadCount(count => count + 1)),
+    []
+  )
+
+  /**
+   * Load presets whenever the user signs in or out
+   */
+  useEffect(() => {
+    if (!authChecked) return
+    let cancelled = false
+
+    const load = async () => {
+      setLoading(true)
+      setError(null)
+
+      try {
+        const loaded = await store.loadPresets()
+        if (!cancelled) setPresets(loaded)
+      } catch (err) {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to load presets'
+          )
+        }
+      } finally {
+        if (!cancelled) setLoading(false)
+      }
+    }
+
+    load()
+    return () => {
+      cancelled = true
+    }
+  }, [authChecked, store, reloadCount])
+
+  /**
+   * Update local state and write the new list to the active store
+   */
+  const persist = useCallback(
+    async (next: TimerPreset[]) => {
+      setPresets(next)
+      setError(null)
+
+      try {
+        await store.savePresets(next)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save presets')
+      }
+    },
+    [store]
+  )
+
+  /**
+   * Add a new preset at the end of the list
+   */
+  const createPreset = useCallback(
+    (preset: TimerPreset) => persist([...presets, preset]),
+    [presets, persist]
+  )
+
+  /**
+   * Replace an existing preset (matched by id)
+   */
+  const updatePreset = useCallback(
+    (preset: TimerPreset) =>
+      persist(presets.map(p => (p.id === preset.id ? preset : p))),
+    [presets, persist]
+  )
+
+  /**
+   * Move a preset one place left (-1) or right (+1)
+   */
+  const movePreset = useCallback(
+    (presetId: string, direction: -1 | 1) => {
+      const index = presets.findIndex(p => p.id === presetId)
+      const target = index + direction
+      if (index < 0 || target < 0 || target >= presets.length) return
+
+      const next = [...presets]
+      ;[next[index], next[target]] = [next[target], next[index]]
+      persist(next)
+    },
+    [presets, persist]
+  )
+
+  /**
+   * Delete a preset
+   */
+  const deletePreset = useCallback(
+    async (presetId: string) => {
+      const next = presets.filter(p => p.id !== presetId)
+      setPresets(next)
+      setError(null)
+
+      try {
+        await store.deletePreset(presetId, next)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to delete preset')
+      }
+    },
+    [presets, store]
+  )
+
+  return {
+    presets,
+    loading,
+    error,
+    isSignedIn,
+    createPreset,
+    updatePreset,
+    movePreset,
+    deletePreset,
+  }
+}
@@ -0,0 +1,97 @@
+/**
+ * usePrograms Hook
+ *
+ * Loads and saves the user's session programs through the active
+ * PracticeStore - on this device for guests, in their account when
+ * signed in.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { usePracticeStore } from '@/hooks/usePracticeStore'
+import { subscribeToPracticeChanges } from '@/lib/practiceStore'
+import { SessionProgram } from '@/lib/sessionPrograms'
+
+export function usePrograms() {
+  const { store, authChecked } = usePracticeStore()
+  const [programs, setPrograms] = useState<SessionProgram[]>([])
+  const [error, setError] = useState<string | null>(null)
+  const [reloadCount, setReloadCount] = useState(0)
+
+  // Reload if programs were changed elsewhere (e.g. imported on sign-in)
+  useEffect(
+    () => subscribeToPracticeChanges(() => setReloadCount(count => count + 1)),
+    []
+  )
+
+  /**
+   * Load programs whenever the user signs in or out
+   */
+  useEffect(() => {
+    if (!authChecked) return
+    let cancelled = false
+
+    store
+      .loadPrograms()
+      .then(loaded => {
+        if (!cancelled) setPrograms(loaded)
+      })
+      .catch(err => {
+        if (!cancelled) {
+          setError(
+            err instanceof Error ? err.message : 'Failed to load programs'
+          )
+        }
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [authChecked, store, reloadCount])
+
+  /**
+   * Update local state and write the new list to the active store
+   */
+  const persist = useCallback(
+    async (next: SessionProgram[]) => {
+      setPrograms(next)
+      setError(null)
+
+      try {
+        await store.savePrograms(next)
+      } catch (err) {
+        setError(err instanceof Error ? err.message : 'Failed to save programs')
+      }
+    },
+    [store]
+  )
+
+  /**
+   * Add a new program or replace an edited one (matched by id)
+   */
+  const saveProgram = useCallback(
+    (saved: SessionProgram) =>
+      persist(
+        programs.some(p => p.id === saved.id)
+          ? programs.map(p => (p.id === saved.id ? saved : p))
+          : [...programs, saved]
+      ),
+    [programs, persist]
+  )
+
+  /**
+   * Delete a program
+   */
+  const deleteProgram = useCallback(
+    (programId: string) => persist(programs.filter(p => p.id !== programId)),
+    [programs, persist]
+  )
+
+  return {
+    programs,
+    error,
+    saveProgram,
+    deleteProgram,
+  }
+}
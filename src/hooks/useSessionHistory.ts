@@ -0,0 +1,60 @@
+/**
+ * useSessionHistory Hook
+ *
+ * Loads the user's meditation sessions for history and stats views, with
+ * the same loading/error shape as useTimeline. Guests get the history
+ * kept on this device.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { usePracticeStore } from '@/hooks/usePracticeStore'
+import { subscribeToPracticeChanges } from '@/lib/practiceStore'
+import { MeditationSession } from '@/types/timer'
+
+export function useSessionHistory() {
+  const { store, authChecked, isSignedIn } = usePracticeStore()
+  const [sessions, setSessions] = useState<MeditationSession[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+
+  /**
+   * Fetch the history from the active store
+   */
+  const load = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+
+    try {
+      setSessions(await store.fetchSessions())
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : 'Failed to load session history'
+      )
+    } finally {
+      setLoading(false)
+    }
+  }, [store])
+
+  useEffect(() => {
+    if (authChecked) load()
+  }, [authChecked, load])
+
+  // Reload if sessions were added elsewhere (e.g. imported on sign-in)
+  useEffect(
+    () =>
+      subscribeToPracticeChanges(() => {
+        if (authChecked) load()
+      }),
+    [authChecked, load]
+  )
+
+  return {
+    sessions,
+    loading: loading || !authChecked,
+    error,
+    isSignedIn,
+    refresh: load,
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * useSessionSync Hook
+ *
+ * Exposes the background session sync to components: how many sessions
+ * are still waiting to be uploaded, and a way to retry right now. Syncs
+ * again whenever a different user signs in, as only the signed-in user's
+ * sessions are uploaded.
+ */
+
+'use client'
+
+import { useState, useEffect, useCallback } from 'react'
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { useAuth } from '@/contexts/AuthContext'
+import { getSessionSync } from '@/lib/sessionSync'
+
+export function useSessionSync() {
+  const [pendingCount, setPendingCount] = useState(0)
+  const [syncing, setSyncing] = useState(false)
+  const [syncError, setSyncError] = useState<string | null>(null)
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+
+  /**
+   * Subscribe to queue changes and kick off a sync of anything left over
+   * from a previous visit
+   */
+  useEffect(() => {
+    if (!isSupabaseConfigured) return // Local-only mode: nothing to upload
+
+    const sessionSync = getSessionSync()
+    const unsubscribe = sessionSync.subscribe(setPendingCount)
+
+    // The queue may be unreadable (e.g. IndexedDB blocked); the retry
+    // button still works, so only log it
+    sessionSync
+      .getPendingCount()
+      .then(setPendingCount)
+      .catch(error => console.warn('Could not read the session queue:', error))
+    sessionSync
+      .sync()
+      .catch(error => console.warn('Background session sync failed:', error))
+
+    return unsubscribe
+  }, [userId])
+
+  /**
+   * Retry every queued session now, ignoring backoff (safe to call from a
+   * click handler - a failure ends up in `syncError`, never rejects)
+   */
+  const syncNow = useCallback(async () => {
+    if (!isSupabaseConfigured) return
+
+    setSyncing(true)
+    setSyncError(null)
+    try {
+      await getSessionSync().sync(true)
+    } catch (error) {
+      setSyncError(
+        error instanceof Error ? error.message : 'Unable to sync sessions'
+      )
+    } finally {
+      setSyncing(false)
+    }
+  }, [])
+
+  return {
+    pendingCount,
+    syncing,
+    syncError,
+    syncNow,
+  }
+}
@@ -6,6 +6,8 @@
  * - Fetching timeline entries from the database
  * - Managing loading states and errors
  * - Handling filtering and sorting
+ * - Keeping filters and view options in the URL, so views can be shared
+ *   and back/forward restores them
  * - Providing timeline data to components
  *
  * Why a custom hook?
@@ -17,188 +19,187 @@
 
 'use client' // This hook uses React state, so it runs on the client side
 
-import { useState, useEffect, useCallback } from 'react'
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react'
+import { usePathname, useRouter, useSearchParams } from 'next/navigation'
+import type { Route } from 'next'
 import {
-  TimelineEntry,
+  TimelineCursor,
+  canJumpToPeriod,
+  fetchOldestPublishedAt,
+  fetchTimelineContent,
+  getPeriodCursor,
+} from '@/lib/content'
+import {
+  DEFAULT_FILTERS,
+  TimelineUrlState,
+  fromTimelineParams,
+  toTimelineParams,
+} from '@/lib/timelineUrl'
+import {
+  ContentType,
+  TimelineItem,
   TimelineState,
   TimelineFilters,
+  TimelinePeriod,
   TimelineViewOptions,
-  TimelineEntryUnion,
 } from '@/types/timeline'
 
 /**
- * Default timeline view settings
+ * Add a page to the entries already shown
  *
- * These provide sensible defaults for how the timeline appears initially.
+ * Entries that are already in the list are skipped, so nothing appears
+ * twice if content shifts between pages.
  */
-const DEFAULT_VIEW_OPTIONS: TimelineViewOptions = {
-  layout: 'list', // Show as a vertical list (mobile-friendly)
-  sortBy: 'publishedAt', // Sort by when items were published
-  sortOrder: 'desc', // Newest items first
-  itemsPerPage: 20, // Load 20 items at a time
-  showFilters: false, // Hide filters initially for cleaner UI
+function appendNewEntries(
+  existing: TimelineItem[],
+  page: TimelineItem[]
+): TimelineItem[] {
+  const seenIds = new Set(existing.map(entry => entry.id))
+  return [...existing, ...page.filter(entry => !seenIds.has(entry.id))]
 }
 
 /**
- * Default filter settings
+ * Narrow the filters to the content types a timeline is restricted to
  *
- * Start with no filters applied (show everything).
+ * Returns null when none of the allowed types is selected, as nothing can
+ * match then.
  */
-const DEFAULT_FILTERS: TimelineFilters = {
-  contentTypes: undefined, // Show all content types
-  tags: undefined, // Show all tags
-  dateRange: undefined, // No date restrictions
-  isPremiumOnly: false, // Include both free and premium content
-  searchQuery: '', // No search query
+function restrictContentTypes(
+  filters: TimelineFilters,
+  allowedTypes: ContentType[]
+): TimelineFilters | null {
+  if (allowedTypes.length === 0) return filters
+
+  const contentTypes = filters.contentTypes?.length
+    ? filters.contentTypes.filter(type => allowedTypes.includes(type))
+    : allowedTypes
+  return contentTypes.length > 0 ? { ...filters, contentTypes } : null
+}
+
+interface UseTimelineOptions {
+  spaceId?: string // Only show content from this space
+  contentTypes?: ContentType[] // Only show these types, whatever the filters say
 }
 
 /**
  * Main Timeline Hook
  *
  * Returns timeline data and functions to manipulate it.
+ *
+ * Filters, view options and period are read from the URL search params
+ * (see src/lib/timelineUrl.ts), and updating them navigates. Pages that
+ * use this hook need a <Suspense> boundary around it for useSearchParams.
  */
-export function useTimeline() {
-  // Timeline state - this is what components will use
-  const [state, setState] = useState<TimelineState>({
+export function useTimeline({
+  spaceId,
+  contentTypes,
+}: UseTimelineOptions = {}) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+
+  // Filters, view options and period, as the URL describes them
+  const queryString = searchParams.toString()
+  const urlState = useMemo(
+    () => fromTimelineParams(new URLSearchParams(queryString)),
+    [queryString]
+  )
+  const { filters, viewOptions, period } = urlState
+
+  // Keyed by value, so callers can pass a new array on every render
+  const allowedTypesKey = contentTypes?.join(',') ?? ''
+  const allowedTypes = useMemo(
+    () =>
+      allowedTypesKey ? (allowedTypesKey.split(',') as ContentType[]) : [],
+    [allowedTypesKey]
+  )
+
+  // Loaded data - this is what components will use
+  const [state, setState] = useState<
+    Omit<TimelineState, keyof TimelineUrlState>
+  >({
     entries: [], // Start with empty timeline
     loading: true, // Show loading initially
     error: null, // No errors initially
     hasMore: true, // Assume more content exists
-    filters: DEFAULT_FILTERS, // Use default filter settings
-    viewOptions: DEFAULT_VIEW_OPTIONS, // Use default view settings
   })
 
+  // Publication date of the oldest content, so the scrubber knows how far
+  // back to offer (null until loaded, or when there is no content)
+  const [oldestPublishedAt, setOldestPublishedAt] = useState<string | null>(
+    null
+  )
+
+  // Only the latest request may update state, so a slow response for old
+  // filters can't overwrite the results for the current ones
+  const latestRequestRef = useRef(0)
+  const requestInFlightRef = useRef(false)
+
+  // Where the next page starts (null once the last page has loaded)
+  const nextCursorRef = useRef<TimelineCursor | null>(null)
+
   /**
    * Fetch Timeline Entries
    *
-   * This function gets timeline data from the database.
-   * For now, it uses mock data, but later we'll connect to Supabase.
+   * Queries the `content` table (see fetchTimelineContent) with every filter
+   * applied in SQL, including the `contentTypes` restriction. Loads the page
+   * after `after` (the start of the timeline if omitted) and either replaces
+   * the entries or, with `append`, adds it to them.
    *
    * The useCallback hook ensures this function doesn't change on every render,
    * which prevents infinite loops in useEffect.
    */
   const fetchEntries = useCallback(
-    async (filters: TimelineFilters, viewOptions: TimelineViewOptions) => {
+    async (
+      filters: TimelineFilters,
+      viewOptions: TimelineViewOptions,
+      {
+        after,
+        append = false,
+      }: { after?: TimelineCursor; append?: boolean } = {}
+    ) => {
+      const requestId = ++latestRequestRef.current
+      const queryFilters = restrictContentTypes(filters, allowedTypes)
+
+      if (!queryFilters) {
+        nextCursorRef.current = null
+        requestInFlightRef.current = false
+        setState(prev => ({
+          ...prev,
+          entries: [],
+          loading: false,
+          error: null,
+          hasMore: false,
+        }))
+        return
+      }
+
+      requestInFlightRef.current = true
       setState(prev => ({ ...prev, loading: true, error: null }))
 
       try {
-        // Simulate API delay (remove this when connecting to real database)
-        await new Promise(resolve => setTimeout(resolve, 1000))
-
-        // Mock data for development
-        // TODO: Replace with actual Supabase query
-        const mockEntries: TimelineEntryUnion[] = [
-          {
-            id: '1',
-            type: 'music',
-            title: 'Midnight Reflections',
-            description:
-              'A contemplative piece exploring themes of solitude and growth',
-            createdAt: '2024-01-15T20:30:00Z',
-            updatedAt: '2024-01-15T20:30:00Z',
-            publishedAt: '2024-01-16T09:00:00Z',
-            slug: 'midnight-reflections',
-            tags: ['music', 'ambient', '2024'],
-            isPremium: false,
-            isPublished: true,
-            audioUrl: '/audio/midnight-reflections.mp3',
-            duration: 247, // 4 minutes 7 seconds
-            albumName: 'Late Night Sessions',
-            trackNumber: 1,
-          },
-          {
-            id: '2',
-            type: 'blog',
-            title: 'The Creative Process Behind "Midnight Reflections"',
-            description:
-              'An inside look at how this track came together over several late-night studio sessions',
-            createdAt: '2024-01-14T15:22:00Z',
-            updatedAt: '2024-01-14T15:22:00Z',
-            publishedAt: '2024-01-14T18:00:00Z',
-            slug: 'creative-process-midnight-reflections',
-            tags: ['behind-the-scenes', 'music', 'process'],
-            isPremium: false,
-            isPublished: true,
-            content: `# The Story Behind Midnight Reflections
-
-This track started as a simple piano melody that came to me during a particularly quiet evening...`,
-            excerpt:
-              'This track started as a simple piano melody that came to me during a particularly quiet evening.',
-            readTimeMinutes: 3,
-            category: 'behind-the-scenes',
-          },
-          {
-            id: '3',
-            type: 'artwork',
-            title: 'Abstract Waves Series #3',
-            description:
-              'Digital artwork exploring the flow of sound waves and emotion',
-            createdAt: '2024-01-10T12:15:00Z',
-            updatedAt: '2024-01-10T12:15:00Z',
-            publishedAt: '2024-01-11T10:00:00Z',
-            slug: 'abstract-waves-series-3',
-            tags: ['artwork', 'digital', 'waves', 'music-inspired'],
-            isPremium: true,
-            isPublished: true,
-            imageUrl: '/artwork/abstract-waves-3.jpg',
-            imageAlt:
-              'Flowing blue and purple waves with musical notation elements',
-            medium: 'Digital Art',
-            dimensions: '3840x2160px',
-            technique: 'Procedural Generation + Hand Painting',
-          },
-        ]
-
-        // Apply filters to mock data
-        const filteredEntries = mockEntries.filter(entry => {
-          // Content type filter
-          if (filters.contentTypes && filters.contentTypes.length > 0) {
-            if (!filters.contentTypes.includes(entry.type)) return false
-          }
-
-          // Premium filter
-          if (filters.isPremiumOnly && !entry.isPremium) return false
-
-          // Tag filter
-          if (filters.tags && filters.tags.length > 0) {
-            const hasMatchingTag = filters.tags.some(tag =>
-              entry.tags.some(entryTag =>
-                entryTag.toLowerCase().includes(tag.toLowerCase())
-              )
-            )
-            if (!hasMatchingTag) return false
-          }
-
-          // Search query filter
-          if (filters.searchQuery && filters.searchQuery.trim() !== '') {
-            const query = filters.searchQuery.toLowerCase()
-            const searchableText = `${entry.title} ${entry.description || ''} ${entry.tags.join(' ')}`
-            if (!searchableText.toLowerCase().includes(query)) return false
-          }
-
-          return true
+        const page = await fetchTimelineContent({
+          filters: queryFilters,
+          viewOptions,
+          spaceId,
+          after,
         })
+        if (requestId !== latestRequestRef.current) return
 
-        // Apply sorting
-        filteredEntries.sort((a, b) => {
-          const aValue = a[viewOptions.sortBy] as string
-          const bValue = b[viewOptions.sortBy] as string
-
-          if (viewOptions.sortOrder === 'desc') {
-            return new Date(bValue).getTime() - new Date(aValue).getTime()
-          } else {
-            return new Date(aValue).getTime() - new Date(bValue).getTime()
-          }
-        })
+        nextCursorRef.current = page.nextCursor
 
         // Update state with new data
         setState(prev => ({
           ...prev,
-          entries: filteredEntries,
+          entries: append
+            ? appendNewEntries(prev.entries, page.entries)
+            : page.entries,
           loading: false,
-          hasMore: false, // Mock data doesn't support pagination yet
+          hasMore: page.nextCursor !== null,
         }))
       } catch (error) {
+        if (requestId !== latestRequestRef.current) return
+
         // Handle any errors during data fetching
         setState(prev => ({
           ...prev,
@@ -208,37 +209,127 @@ This track started as a simple piano melody that came to me during a particularl
               ? error.message
               : 'Failed to load timeline entries',
         }))
+      } finally {
+        if (requestId === latestRequestRef.current) {
+          requestInFlightRef.current = false
+        }
+      }
+    },
+    [spaceId, allowedTypes]
+  )
+
+  /**
+   * Load More
+   *
+   * Appends the next page after the entries already shown. Does nothing
+   * while a request is running or once the last page has loaded, so it is
+   * safe to call from a scroll observer that fires repeatedly.
+   */
+  const loadMore = useCallback(() => {
+    const after = nextCursorRef.current
+    if (!after || requestInFlightRef.current) return
+
+    fetchEntries(filters, viewOptions, { after, append: true })
+  }, [filters, viewOptions, fetchEntries])
+
+  /**
+   * Put a new timeline state in the URL
+   *
+   * Each change is a history entry, so back/forward steps through them -
+   * except while typing a search, which would add one per pause.
+   */
+  const navigate = useCallback(
+    (next: TimelineUrlState, { replace = false } = {}) => {
+      const query = toTimelineParams(
+        next,
+        new URLSearchParams(queryString)
+      ).toString()
+      const href = (query ? `${pathname}?${query}` : pathname) as Route
+
+      if (replace) {
+        router.replace(href, { scroll: false })
+      } else {
+        router.push(href, { scroll: false })
       }
     },
-    []
-  ) // Empty dependency array means this function never changes
+    [router, pathname, queryString]
+  )
+
+  /**
+   * Load the first page of the current view: from the month jumped to, if
+   * any, otherwise from the start of the timeline
+   */
+  const fetchFirstPage = useCallback(
+    (
+      filters: TimelineFilters,
+      viewOptions: TimelineViewOptions,
+      period: TimelinePeriod | null
+    ) => {
+      const after =
+        period && canJumpToPeriod(filters, viewOptions)
+          ? getPeriodCursor(period, viewOptions.sortOrder === 'asc')
+          : undefined
+      fetchEntries(filters, viewOptions, { after })
+    },
+    [fetchEntries]
+  )
+
+  /**
+   * Jump To Period
+   *
+   * Restarts the list at a calendar month (null goes back to the start).
+   * Scrolling on loads the following pages as usual.
+   */
+  const jumpTo = useCallback(
+    (newPeriod: TimelinePeriod | null) => {
+      navigate({ ...urlState, period: newPeriod })
+    },
+    [navigate, urlState]
+  )
 
   /**
    * Update Filters
    *
    * Call this function to change what content is shown in the timeline.
+   * The effect below refetches whenever the filters change.
    */
   const updateFilters = useCallback(
     (newFilters: Partial<TimelineFilters>) => {
-      const updatedFilters = { ...state.filters, ...newFilters }
-      setState(prev => ({ ...prev, filters: updatedFilters }))
-      fetchEntries(updatedFilters, state.viewOptions)
+      const searchOnly = Object.keys(newFilters).every(
+        key => key === 'searchQuery'
+      )
+      navigate(
+        { ...urlState, filters: { ...filters, ...newFilters } },
+        { replace: searchOnly }
+      )
     },
-    [state.filters, state.viewOptions, fetchEntries]
+    [navigate, urlState, filters]
   )
 
+  /**
+   * Reset Filters
+   *
+   * Shows everything again: removes all filters and returns to the start
+   * of the timeline, keeping the view options.
+   */
+  const resetFilters = useCallback(() => {
+    navigate({ ...urlState, filters: DEFAULT_FILTERS, period: null })
+  }, [navigate, urlState])
+
   /**
    * Update View Options
    *
    * Call this function to change how the timeline is displayed.
+   * The effect below refetches whenever the view options change.
    */
   const updateViewOptions = useCallback(
     (newViewOptions: Partial<TimelineViewOptions>) => {
-      const updatedViewOptions = { ...state.viewOptions, ...newViewOptions }
-      setState(prev => ({ ...prev, viewOptions: updatedViewOptions }))
-      fetchEntries(state.filters, updatedViewOptions)
+      navigate({
+        ...urlState,
+        viewOptions: { ...viewOptions, ...newViewOptions },
+      })
     },
-    [state.filters, state.viewOptions, fetchEntries]
+    [navigate, urlState, viewOptions]
   )
 
   /**
@@ -247,18 +338,36 @@ This track started as a simple piano melody that came to me during a particularl
    * Call this to reload the timeline data (useful after adding new content).
    */
   const refresh = useCallback(() => {
-    fetchEntries(state.filters, state.viewOptions)
-  }, [state.filters, state.viewOptions, fetchEntries])
+    fetchFirstPage(filters, viewOptions, period)
+  }, [filters, viewOptions, period, fetchFirstPage])
 
   /**
    * Load Initial Data
    *
-   * This useEffect runs once when the component first mounts,
-   * loading the initial timeline data.
+   * This useEffect loads the timeline when the component first mounts,
+   * and again whenever the filters, view options or period change -
+   * including through back/forward navigation.
    */
   useEffect(() => {
-    fetchEntries(state.filters, state.viewOptions)
-  }, [fetchEntries, state.filters, state.viewOptions]) // Run when dependencies change
+    fetchFirstPage(filters, viewOptions, period)
+  }, [fetchFirstPage, filters, viewOptions, period]) // Run when dependencies change
+
+  // Find how far back the timeline goes, for the scrubber
+  useEffect(() => {
+    let cancelled = false
+
+    fetchOldestPublishedAt(spaceId)
+      .then(publishedAt => {
+        if (!cancelled) setOldestPublishedAt(publishedAt)
+      })
+      .catch(error => {
+        console.warn('Unable to load the oldest timeline date:', error)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [spaceId])
 
   /**
    * Return everything components need
@@ -271,12 +380,18 @@ This track started as a simple piano melody that came to me during a particularl
     loading: state.loading,
     error: state.error,
     hasMore: state.hasMore,
-    filters: state.filters,
-    viewOptions: state.viewOptions,
+    filters,
+    viewOptions,
+    period,
+    oldestPublishedAt,
+    canJump: canJumpToPeriod(filters, viewOptions),
 
     // Functions to update the timeline
     updateFilters,
     updateViewOptions,
+    loadMore,
+    jumpTo,
+    resetFilters,
     refresh,
   }
 }
@@ -295,7 +410,7 @@ This track started as a simple piano melody that came to me during a particularl
  *   return (
  *     <div>
  *       {entries.map(entry => (
- *         <TimelineEntry key={entry.id} {...entry} />
+ *         <TimelineEntry key={entry.id} entry={entry} />
  *       ))}
  *     </div>
  *   )
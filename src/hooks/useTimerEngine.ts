@@ -0,0 +1,112 @@
+/**
+ * useTimerEngine Hook
+ *
+ * Connects the framework-free timer engine (src/lib/timerEngine.ts) to React.
+ * The engine owns the time math; this hook only re-renders the component
+ * while the timer is running so the display stays current.
+ *
+ * The re-render interval may be throttled by the browser - that only delays
+ * the next paint, it never makes the timer itself inaccurate.
+ */
+
+'use client'
+
+import { useState, useEffect, useRef, useCallback } from 'react'
+import {
+  Clock,
+  TimerEngine,
+  TimerSnapshot,
+  createTimerEngine,
+} from '@/lib/timerEngine'
+
+/**
+ * How often to refresh the snapshot while running (milliseconds).
+ * Shorter than a second so the display never skips a visible second.
+ */
+const TICK_INTERVAL_MS = 250
+
+interface UseTimerEngineOptions {
+  clock?: Clock // Injected time source (defaults to Date.now)
+}
+
+export function useTimerEngine(
+  durationSeconds: number,
+  { clock }: UseTimerEngineOptions = {}
+) {
+  const engineRef = useRef<TimerEngine | null>(null)
+  if (engineRef.current === null) {
+    engineRef.current = createTimerEngine(durationSeconds, clock)
+  }
+  const engine = engineRef.current
+
+  const [snapshot, setSnapshot] = useState<TimerSnapshot>(() =>
+    engine.getSnapshot()
+  )
+
+  // Read the current values from the engine into React state
+  const refresh = useCallback(() => {
+    setSnapshot(engine.getSnapshot())
+  }, [engine])
+
+  const start = useCallback(() => {
+    engine.start()
+    refresh()
+  }, [engine, refresh])
+
+  const pause = useCallback(() => {
+    engine.pause()
+    refresh()
+  }, [engine, refresh])
+
+  const resume = useCallback(() => {
+    engine.resume()
+    refresh()
+  }, [engine, refresh])
+
+  const reset = useCallback(
+    (newDurationSeconds?: number) => {
+      engine.reset(newDurationSeconds)
+      refresh()
+    },
+    [engine, refresh]
+  )
+
+  // Keep an idle engine in sync with the chosen duration
+  useEffect(() => {
+    if (engine.getSnapshot().status === 'idle') {
+      engine.reset(durationSeconds)
+      refresh()
+    }
+  }, [durationSeconds, engine, refresh])
+
+  // Refresh the snapshot while the clock is running
+  useEffect(() => {
+    if (snapshot.status !== 'running') return
+
+    const intervalId = setInterval(refresh, TICK_INTERVAL_MS)
+    return () => clearInterval(intervalId)
+  }, [snapshot.status, refresh])
+
+  // Reconcile with the wall clock as soon as the page is visible again,
+  // rather than waiting for a tick the browser may have throttled or frozen
+  useEffect(() => {
+    if (snapshot.status !== 'running') return
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') refresh()
+    }
+
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+    return () =>
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+  }, [snapshot.status, refresh])
+
+  return {
+    snapshot,
+    start,
+    pause,
+    resume,
+    reset,
+    refresh,
+  }
+}
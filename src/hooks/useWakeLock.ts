@@ -0,0 +1,81 @@
+/**
+ * useWakeLock Hook
+ *
+ * Keeps the screen on while `enabled` is true, using the Screen Wake Lock
+ * API. The browser drops the lock whenever the page is hidden, so it is
+ * requested again each time the page becomes visible.
+ *
+ * Where the API is missing (or the request is refused, e.g. on low
+ * battery) this does nothing - the timer keeps working, the screen just
+ * follows the device's normal auto-lock.
+ */
+
+'use client'
+
+import { useState, useEffect } from 'react'
+
+/**
+ * Whether this browser supports screen wake locks
+ */
+export function isWakeLockSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'wakeLock' in navigator
+}
+
+export function useWakeLock(enabled: boolean) {
+  const [supported, setSupported] = useState(false)
+  const [active, setActive] = useState(false)
+
+  // Feature detection has to wait for the browser
+  useEffect(() => {
+    setSupported(isWakeLockSupported())
+  }, [])
+
+  useEffect(() => {
+    if (!enabled || !isWakeLockSupported()) return
+
+    let sentinel: WakeLockSentinel | null = null
+    let cancelled = false
+
+    const handleRelease = () => setActive(false)
+
+    const acquire = async () => {
+      if (document.visibilityState !== 'visible') return
+      if (sentinel && !sentinel.released) return
+
+      try {
+        const lock = await navigator.wakeLock.request('screen')
+        if (cancelled) {
+          void lock.release()
+          return
+        }
+        sentinel = lock
+        sentinel.addEventListener('release', handleRelease)
+        setActive(true)
+      } catch (error) {
+        console.warn('Screen wake lock unavailable:', error)
+        setActive(false)
+      }
+    }
+
+    // The lock is released automatically when the page is hidden
+    const handleVisibilityChange = () => void acquire()
+
+    void acquire()
+    document.addEventListener('visibilitychange', handleVisibilityChange)
+
+    return () => {
+      cancelled = true
+      document.removeEventListener('visibilitychange', handleVisibilityChange)
+      if (sentinel) {
+        sentinel.removeEventListener('release', handleRelease)
+        void sentinel.release()
+      }
+      setActive(false)
+    }
+  }, [enabled])
+
+  return {
+    supported,
+    active,
+  }
+}
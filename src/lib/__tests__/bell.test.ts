@@ -0,0 +1,146 @@
+/**
+ * Bell Tests
+ *
+ * playBell against a fake AudioContext: the recorded sample when it
+ * decodes, the synthesized tone when it can't be fetched or decoded.
+ *
+ * @jest-environment jsdom
+ */
+
+type BellModule = typeof import('@/lib/bell')
+
+const SAMPLE = { duration: 8 } as AudioBuffer
+
+/**
+ * Fake AudioContext that records the nodes it creates
+ */
+function createFakeAudioContext(decode: () => Promise<AudioBuffer>) {
+  const param = () => ({
+    setValueAtTime: jest.fn(),
+    linearRampToValueAtTime: jest.fn(),
+    exponentialRampToValueAtTime: jest.fn(),
+  })
+  const oscillators: { start: jest.Mock }[] = []
+  const sources: { buffer: AudioBuffer | null; start: jest.Mock }[] = []
+
+  const context = {
+    state: 'running',
+    currentTime: 0,
+    sampleRate: 44100,
+    destination: {},
+    resume: jest.fn(() => Promise.resolve()),
+    decodeAudioData: jest.fn(decode),
+    createGain: () => ({ gain: param(), connect: jest.fn() }),
+    createOscillator: () => {
+      const oscillator = {
+        type: 'sine',
+        frequency: param(),
+        connect: jest.fn(),
+        start: jest.fn(),
+        stop: jest.fn(),
+      }
+      oscillators.push(oscillator)
+      return oscillator
+    },
+    createBufferSource: () => {
+      const source = { buffer: null, connect: jest.fn(), start: jest.fn() }
+      sources.push(source)
+      return source
+    },
+  }
+
+  return { context, oscillators, sources }
+}
+
+/**
+ * Load a fresh copy of the bell module (it keeps one context and a sample
+ * cache per page) wired to the given fake context
+ */
+async function loadBell(
+  fake: ReturnType<typeof createFakeAudioContext>
+): Promise<BellModule> {
+  jest.resetModules()
+  Object.defineProperty(window, 'AudioContext', {
+    configurable: true,
+    value: jest.fn(() => fake.context),
+  })
+  return import('@/lib/bell')
+}
+
+function mockFetch(ok: boolean) {
+  const fetchMock = jest.fn(() =>
+    Promise.resolve({
+      ok,
+      status: ok ? 200 : 404,
+      arrayBuffer: () => Promise.resolve(new ArrayBuffer(8)),
+    })
+  )
+  global.fetch = fetchMock as unknown as typeof fetch
+  return fetchMock
+}
+
+describe('playBell', () => {
+  it('plays the recorded sample when it decodes', async () => {
+    mockFetch(true)
+    const fake = createFakeAudioContext(() => Promise.resolve(SAMPLE))
+    const { playBell, BELL_SOUNDS, DEFAULT_BELL_SETTINGS } =
+      await loadBell(fake)
+
+    await playBell(DEFAULT_BELL_SETTINGS)
+
+    expect(global.fetch).toHaveBeenCalledWith(
+      BELL_SOUNDS[DEFAULT_BELL_SETTINGS.sound].sampleUrl
+    )
+    expect(fake.sources).toHaveLength(1)
+    expect(fake.sources[0].buffer).toBe(SAMPLE)
+    expect(fake.oscillators).toHaveLength(0)
+  })
+
+  it('synthesizes the bell when the sample cannot be decoded', async () => {
+    mockFetch(true)
+    const fake = createFakeAudioContext(() =>
+      Promise.reject(new Error('EncodingError'))
+    )
+    const { playBell, BELL_SOUNDS, DEFAULT_BELL_SETTINGS } =
+      await loadBell(fake)
+
+    await playBell(DEFAULT_BELL_SETTINGS, 2)
+
+    const partials = BELL_SOUNDS[DEFAULT_BELL_SETTINGS.sound].partials.length
+    expect(fake.sources).toHaveLength(0)
+    expect(fake.oscillators).toHaveLength(partials * 2)
+    fake.oscillators.forEach(oscillator =>
+      expect(oscillator.start).toHaveBeenCalled()
+    )
+  })
+
+  it('synthesizes the bell when the sample is missing, without refetching', async () => {
+    const fetchMock = mockFetch(false)
+    const fake = createFakeAudioContext(() => Promise.resolve(SAMPLE))
+    const { playBell, DEFAULT_BELL_SETTINGS } = await loadBell(fake)
+
+    await playBell(DEFAULT_BELL_SETTINGS)
+    await playBell(DEFAULT_BELL_SETTINGS)
+
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+    expect(fake.context.decodeAudioData).not.toHaveBeenCalled()
+    expect(fake.sources).toHaveLength(0)
+    expect(fake.oscillators.length).toBeGreaterThan(0)
+  })
+})
+
+describe('unlockAudio', () => {
+  it('resolves even when the browser refuses to resume audio', async () => {
+    const fake = createFakeAudioContext(() => Promise.resolve(SAMPLE))
+    fake.context.state = 'suspended'
+    fake.context.resume.mockImplementation(() =>
+      Promise.reject(new Error('NotAllowedError'))
+    )
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+    const { unlockAudio } = await loadBell(fake)
+
+    await expect(unlockAudio()).resolves.toBeUndefined()
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+})
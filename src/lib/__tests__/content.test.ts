@@ -0,0 +1,165 @@
+/**
+ * Content Tests
+ *
+ * fetchContentBySlug against a fake `published_content` query that
+ * behaves like PostgREST: filters, ordering, limit, and maybeSingle
+ * failing when more than one row is left.
+ */
+
+import type { ContentRowWithTags } from '@/lib/content'
+
+const mockRows: ContentRowWithTags[] = []
+
+jest.mock('@/lib/supabase', () => ({
+  requireSupabase: () => ({ from: () => createFakeQuery(mockRows) }),
+}))
+
+import { fetchContentBySlug, isLockedEntry } from '@/lib/content'
+
+type Row = ContentRowWithTags
+
+/**
+ * Chainable query over a fixed set of rows, resolved when awaited
+ */
+function createFakeQuery(rows: Row[]) {
+  let matching = rows.slice()
+  const orders: { column: keyof Row; ascending: boolean }[] = []
+  let limit = Infinity
+  let single = false
+
+  const compare = (a: Row, b: Row) => {
+    for (const { column, ascending } of orders) {
+      const order = String(a[column]).localeCompare(String(b[column]))
+      if (order !== 0) return ascending ? order : -order
+    }
+    return 0
+  }
+
+  const query = {
+    select: () => query,
+    eq: (column: keyof Row, value: unknown) => {
+      matching = matching.filter(row => row[column] === value)
+      return query
+    },
+    order: (column: keyof Row, { ascending }: { ascending: boolean }) => {
+      orders.push({ column, ascending })
+      return query
+    },
+    limit: (count: number) => {
+      limit = count
+      return query
+    },
+    maybeSingle: () => {
+      single = true
+      return query
+    },
+    overrideTypes: () => query,
+    then: (resolve: (result: { data: unknown; error: unknown }) => unknown) => {
+      matching = matching.sort(compare).slice(0, limit)
+      if (single && matching.length > 1) {
+        return Promise.resolve(
+          resolve({
+            data: null,
+            error: { message: 'JSON object requested, multiple rows returned' },
+          })
+        )
+      }
+      return Promise.resolve(
+        resolve({
+          data: single ? (matching[0] ?? null) : matching,
+          error: null,
+        })
+      )
+    },
+  }
+  return query
+}
+
+function musicRow(overrides: Partial<Row>): Row {
+  return {
+    id: 'row-1',
+    space_id: 'space-1',
+    type: 'music',
+    title: 'Morning Drone',
+    description: null,
+    slug: 'morning-drone',
+    post_date: null,
+    published_at: '2026-01-10T09:00:00.000Z',
+    created_at: '2026-01-10T09:00:00.000Z',
+    updated_at: '2026-01-10T09:00:00.000Z',
+    is_premium: false,
+    is_published: true,
+    is_locked: false,
+    sort_order: null,
+    metadata: { audioUrl: 'https://cdn.example.com/drone.mp3', duration: 312 },
+    content_tags: [{ tags: { name: 'ambient' } }],
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  mockRows.length = 0
+})
+
+describe('fetchContentBySlug', () => {
+  it('loads the entry for a type and slug', async () => {
+    mockRows.push(musicRow({}))
+
+    const entry = await fetchContentBySlug('music', 'morning-drone')
+
+    expect(entry).toMatchObject({
+      id: 'row-1',
+      type: 'music',
+      duration: 312,
+      tags: ['ambient'],
+    })
+  })
+
+  it('returns null when nothing matches', async () => {
+    mockRows.push(musicRow({}))
+
+    await expect(fetchContentBySlug('blog', 'morning-drone')).resolves.toBe(
+      null
+    )
+  })
+
+  it('picks the first published entry when two spaces share a slug', async () => {
+    mockRows.push(
+      musicRow({
+        id: 'row-a',
+        space_id: 'space-2',
+        published_at: '2026-03-01T09:00:00.000Z',
+      }),
+      musicRow({ id: 'row-b', published_at: '2026-01-10T09:00:00.000Z' })
+    )
+
+    const entry = await fetchContentBySlug('music', 'morning-drone')
+
+    expect(entry?.id).toBe('row-b')
+  })
+
+  it('returns null for a row with invalid metadata', async () => {
+    mockRows.push(musicRow({ metadata: { audioUrl: 42 } }))
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await expect(fetchContentBySlug('music', 'morning-drone')).resolves.toBe(
+      null
+    )
+    expect(warn).toHaveBeenCalled()
+    warn.mockRestore()
+  })
+
+  it('returns locked teasers as they come from the view', async () => {
+    mockRows.push(
+      musicRow({
+        is_premium: true,
+        is_locked: true,
+        metadata: {},
+      })
+    )
+
+    const entry = await fetchContentBySlug('music', 'morning-drone')
+
+    expect(entry && isLockedEntry(entry)).toBe(true)
+  })
+})
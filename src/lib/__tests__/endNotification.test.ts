@@ -0,0 +1,158 @@
+/**
+ * End Notification Tests
+ *
+ * Scheduling against a stub service worker registration: the server push
+ * when it is configured, the worker's own timer otherwise, and no
+ * rejections when the browser APIs fail.
+ *
+ * @jest-environment jsdom
+ */
+
+type EndNotificationModule = typeof import('@/lib/endNotification')
+
+const mockRpc = jest.fn()
+let mockSupabase: { rpc: typeof mockRpc } | null = null
+
+jest.mock('@/lib/supabase', () => ({
+  get supabase() {
+    return mockSupabase
+  },
+}))
+
+const CONTENT = { title: 'Meditation complete', body: 'Your session has ended' }
+
+/**
+ * Stub registration with an active worker and a push subscription
+ */
+function createRegistration() {
+  const subscription = {
+    endpoint: 'https://push.example.com/abc',
+    toJSON: () => ({ keys: { p256dh: 'p256dh-key', auth: 'auth-secret' } }),
+  }
+  return {
+    active: { postMessage: jest.fn() },
+    pushManager: {
+      getSubscription: jest.fn(() => Promise.resolve(null)),
+      subscribe: jest.fn(() => Promise.resolve(subscription)),
+    },
+  }
+}
+
+/**
+ * Load a fresh copy of the module (it remembers the scheduled push) in a
+ * browser with notifications granted and enabled
+ */
+async function loadModule({
+  getRegistration,
+  push,
+}: {
+  getRegistration: () => Promise<unknown>
+  push: boolean
+}): Promise<EndNotificationModule> {
+  jest.resetModules()
+  mockRpc.mockReset().mockResolvedValue({ error: null })
+  mockSupabase = push ? { rpc: mockRpc } : null
+  process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY = push ? 'AQID' : ''
+
+  Object.defineProperty(window, 'Notification', {
+    configurable: true,
+    value: { permission: 'granted' },
+  })
+  Object.defineProperty(window, 'PushManager', {
+    configurable: true,
+    value: function PushManager() {},
+  })
+  Object.defineProperty(navigator, 'serviceWorker', {
+    configurable: true,
+    value: { getRegistration: jest.fn(getRegistration) },
+  })
+
+  const endNotification = await import('@/lib/endNotification')
+  endNotification.saveNotificationsEnabled(true)
+  return endNotification
+}
+
+describe('scheduleEndNotification', () => {
+  it('schedules a server push when push is configured', async () => {
+    const registration = createRegistration()
+    const { scheduleEndNotification, cancelEndNotification } = await loadModule(
+      {
+        getRegistration: () => Promise.resolve(registration),
+        push: true,
+      }
+    )
+
+    await scheduleEndNotification(Date.UTC(2026, 9, 19, 7, 30), CONTENT)
+
+    expect(registration.pushManager.subscribe).toHaveBeenCalled()
+    expect(mockRpc).toHaveBeenCalledWith(
+      'schedule_end_notification',
+      expect.objectContaining({
+        endpoint: 'https://push.example.com/abc',
+        p256dh: 'p256dh-key',
+        auth: 'auth-secret',
+        send_at: '2026-10-19T07:30:00.000Z',
+        ...CONTENT,
+      })
+    )
+    expect(registration.active.postMessage).not.toHaveBeenCalledWith(
+      expect.objectContaining({ type: 'schedule-end' })
+    )
+
+    const { notification_id } = mockRpc.mock.calls[0][1]
+    await cancelEndNotification()
+    expect(mockRpc).toHaveBeenLastCalledWith('cancel_end_notification', {
+      notification_id,
+    })
+  })
+
+  it("falls back to the worker's timer without push", async () => {
+    const registration = createRegistration()
+    const { scheduleEndNotification } = await loadModule({
+      getRegistration: () => Promise.resolve(registration),
+      push: false,
+    })
+
+    await scheduleEndNotification(1_000, CONTENT)
+
+    expect(registration.active.postMessage).toHaveBeenLastCalledWith({
+      type: 'schedule-end',
+      endAt: 1_000,
+      ...CONTENT,
+    })
+  })
+
+  it("falls back to the worker's timer when the push can't be scheduled", async () => {
+    const registration = createRegistration()
+    const { scheduleEndNotification } = await loadModule({
+      getRegistration: () => Promise.resolve(registration),
+      push: true,
+    })
+    mockRpc.mockResolvedValue({ error: { message: 'Network error' } })
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await scheduleEndNotification(1_000, CONTENT)
+
+    expect(registration.active.postMessage).toHaveBeenLastCalledWith(
+      expect.objectContaining({ type: 'schedule-end' })
+    )
+    warn.mockRestore()
+  })
+
+  it('never rejects when the service worker is unavailable', async () => {
+    const { scheduleEndNotification, cancelEndNotification } = await loadModule(
+      {
+        getRegistration: () => Promise.reject(new Error('SecurityError')),
+        push: true,
+      }
+    )
+    const warn = jest.spyOn(console, 'warn').mockImplementation(() => {})
+
+    await expect(
+      scheduleEndNotification(1_000, CONTENT)
+    ).resolves.toBeUndefined()
+    await expect(cancelEndNotification()).resolves.toBeUndefined()
+    expect(warn).toHaveBeenCalledTimes(2)
+    warn.mockRestore()
+  })
+})
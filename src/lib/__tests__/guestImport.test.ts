@@ -0,0 +1,141 @@
+/**
+ * Guest Import Tests
+ *
+ * importGuestData between two in-memory practice stores standing in for
+ * the device and the account.
+ */
+
+import { importGuestData } from '@/lib/guestImport'
+import { PracticeStore } from '@/lib/practiceStore'
+import { TimerPreset } from '@/lib/presets'
+import { DEFAULT_BELL_SETTINGS } from '@/lib/bell'
+import { DEFAULT_PROGRAMS, SessionProgram } from '@/lib/sessionPrograms'
+import { MeditationSession } from '@/types/timer'
+
+function createMemoryStore({
+  presets = [],
+  programs = [],
+}: {
+  presets?: TimerPreset[]
+  programs?: SessionProgram[]
+}) {
+  const state = {
+    presets,
+    programs,
+    sessions: [] as MeditationSession[],
+  }
+
+  const store: PracticeStore = {
+    kind: 'local',
+    loadPresets: async () => state.presets,
+    savePresets: async next => {
+      state.presets = next
+    },
+    deletePreset: async (_presetId, remaining) => {
+      state.presets = remaining
+    },
+    loadPrograms: async () => state.programs,
+    savePrograms: async next => {
+      state.programs = next
+    },
+    recordSession: async session => {
+      state.sessions.push(session)
+    },
+    fetchSessions: async () => state.sessions,
+    deleteSession: async sessionId => {
+      state.sessions = state.sessions.filter(s => s.id !== sessionId)
+    },
+  }
+  return { store, state }
+}
+
+function createPreset(overrides: Partial<TimerPreset>): TimerPreset {
+  return {
+    id: 'preset-1',
+    name: 'Morning',
+    durationMinutes: 20,
+    preparationSeconds: 10,
+    ambientSound: 'none',
+    programId: null,
+    bellSettings: DEFAULT_BELL_SETTINGS,
+    intervalBells: [
+      {
+        id: 'bell-1',
+        schedule: { kind: 'repeating', everyMinutes: 5 },
+        sound: 'chime',
+        strikes: 1,
+      },
+    ],
+    ...overrides,
+  }
+}
+
+const OWN_PROGRAM: SessionProgram = {
+  id: 'program-1',
+  name: 'Short sit',
+  segments: [{ id: 'sit', name: 'Sit', durationMinutes: 5 }],
+}
+
+describe('importGuestData', () => {
+  it("doesn't import or count the built-in programs", async () => {
+    const local = createMemoryStore({
+      programs: [...DEFAULT_PROGRAMS, OWN_PROGRAM],
+    })
+    const remote = createMemoryStore({ programs: [] })
+
+    const result = await importGuestData(local.store, remote.store)
+
+    expect(result.programs).toBe(1)
+    expect(remote.state.programs).toEqual([OWN_PROGRAM])
+  })
+
+  it('treats a same-named preset with the same settings as the same preset', async () => {
+    // Saved by an older version: other key order and a key no longer used
+    const legacy = {
+      legacyTheme: 'dark',
+      intervalBells: [
+        {
+          strikes: 1,
+          sound: 'chime',
+          schedule: { everyMinutes: 5, kind: 'repeating' },
+          id: 'bell-9',
+        },
+      ],
+      bellSettings: { fadeInMs: 0, volume: 0.6, sound: 'singing-bowl' },
+      programId: null,
+      ambientSound: 'none',
+      preparationSeconds: 10,
+      durationMinutes: 20,
+      name: 'Morning',
+      id: 'guest-preset',
+    } as TimerPreset
+    const local = createMemoryStore({ presets: [legacy] })
+    const remote = createMemoryStore({
+      presets: [createPreset({ id: 'account-preset' })],
+    })
+
+    const result = await importGuestData(local.store, remote.store)
+
+    expect(result.presets).toBe(0)
+    expect(remote.state.presets.map(p => p.id)).toEqual(['account-preset'])
+  })
+
+  it('renames a same-named preset with different settings', async () => {
+    const local = createMemoryStore({
+      presets: [createPreset({ id: 'guest-preset', durationMinutes: 30 })],
+    })
+    const remote = createMemoryStore({
+      presets: [createPreset({ id: 'account-preset' })],
+    })
+
+    const result = await importGuestData(local.store, remote.store)
+
+    expect(result.renamedPresets).toEqual([
+      { from: 'Morning', to: 'Morning (2)' },
+    ])
+    expect(remote.state.presets.map(p => p.name)).toEqual([
+      'Morning',
+      'Morning (2)',
+    ])
+  })
+})
@@ -0,0 +1,86 @@
+/**
+ * Preset Tests
+ *
+ * Presets saved on this device are checked like database rows.
+ *
+ * @jest-environment jsdom
+ */
+
+import { DEFAULT_BELL_SETTINGS } from '@/lib/bell'
+import { loadLocalPresets } from '@/lib/presets'
+
+const STORAGE_KEY = 'meditation-timer:presets'
+
+const VALID_PRESET = {
+  id: 'preset-1',
+  name: 'Morning',
+  durationMinutes: 20,
+  preparationSeconds: 10,
+  ambientSound: 'rain',
+  programId: null,
+  bellSettings: { sound: 'chime', volume: 0.4, fadeInMs: 500 },
+  intervalBells: [
+    {
+      id: 'bell-1',
+      schedule: { kind: 'repeating', everyMinutes: 5 },
+      sound: 'chime',
+      strikes: 1,
+    },
+  ],
+}
+
+function store(value: unknown) {
+  window.localStorage.setItem(STORAGE_KEY, JSON.stringify(value))
+}
+
+beforeEach(() => {
+  window.localStorage.clear()
+})
+
+describe('loadLocalPresets', () => {
+  it('loads valid presets', () => {
+    store([VALID_PRESET])
+
+    expect(loadLocalPresets()).toEqual([VALID_PRESET])
+  })
+
+  it('drops presets without a valid id, name or timing', () => {
+    store([
+      { ...VALID_PRESET, id: 42 },
+      { ...VALID_PRESET, id: 'preset-2', name: undefined },
+      { ...VALID_PRESET, id: 'preset-3', durationMinutes: '20' },
+      'Evening',
+      { ...VALID_PRESET, id: 'preset-4' },
+    ])
+
+    expect(loadLocalPresets().map(preset => preset.id)).toEqual(['preset-4'])
+  })
+
+  it('falls back to defaults for invalid bell and ambient settings', () => {
+    store([
+      {
+        ...VALID_PRESET,
+        ambientSound: 'thunder',
+        programId: undefined,
+        bellSettings: 'loud',
+        intervalBells: [{ id: 'bell-1', sound: 'gong', strikes: 1 }],
+      },
+    ])
+
+    expect(loadLocalPresets()).toEqual([
+      {
+        ...VALID_PRESET,
+        ambientSound: 'none',
+        programId: null,
+        bellSettings: DEFAULT_BELL_SETTINGS,
+        intervalBells: [],
+      },
+    ])
+  })
+
+  it('returns no presets when the stored value is not a list', () => {
+    store({ presets: [VALID_PRESET] })
+
+    expect(loadLocalPresets()).toEqual([])
+  })
+})
@@ -0,0 +1,47 @@
+/**
+ * Session Program Tests
+ *
+ * Programs saved on this device go through the same parser as an
+ * account's programs.
+ *
+ * @jest-environment jsdom
+ */
+
+import { DEFAULT_PROGRAMS, loadPrograms } from '@/lib/sessionPrograms'
+
+const STORAGE_KEY = 'meditation-timer:programs'
+
+const VALID_PROGRAM = {
+  id: 'program-1',
+  name: 'Short sit',
+  segments: [{ id: 'sit', name: 'Sit', durationMinutes: 5 }],
+}
+
+beforeEach(() => {
+  window.localStorage.clear()
+})
+
+describe('loadPrograms', () => {
+  it('offers the built-in programs when nothing is saved', () => {
+    expect(loadPrograms()).toEqual(DEFAULT_PROGRAMS)
+  })
+
+  it('drops saved programs that are not valid', () => {
+    window.localStorage.setItem(
+      STORAGE_KEY,
+      JSON.stringify([
+        { ...VALID_PROGRAM, id: 'program-2', segments: [] },
+        { ...VALID_PROGRAM, id: 'program-3', segments: [{ name: 'Sit' }] },
+        VALID_PROGRAM,
+      ])
+    )
+
+    expect(loadPrograms()).toEqual([VALID_PROGRAM])
+  })
+
+  it('offers the built-in programs when the saved value is not a list', () => {
+    window.localStorage.setItem(STORAGE_KEY, '{"programs":[]}')
+
+    expect(loadPrograms()).toEqual(DEFAULT_PROGRAMS)
+  })
+})
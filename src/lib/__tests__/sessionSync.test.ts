@@ -0,0 +1,398 @@
+/**
+ * Session Sync Tests
+ *
+ * Run the sync against the in-memory queue store and a stand-in for the
+ * Supabase client that keeps rows by id, like the real table's primary key.
+ */
+
+import {
+  BASE_RETRY_DELAY_MS,
+  MAX_RETRY_DELAY_MS,
+  SessionSync,
+  SessionSyncClient,
+  SyncError,
+  createSessionSync,
+  enqueueSession,
+  getRetryDelayMs,
+  syncPendingSessions,
+} from '@/lib/sessionSync'
+import { MeditationSessionInsert } from '@/lib/sessions'
+import { createMemoryQueueStore } from '@/lib/sessionQueue'
+import { MeditationSession } from '@/types/timer'
+
+const NOW = 1_700_000_000_000
+const USER_ID = 'user-1'
+
+function createSession(id: string): MeditationSession {
+  return {
+    id,
+    startedAt: '2024-03-01T07:00:00.000Z',
+    endedAt: '2024-03-01T07:10:00.000Z',
+    plannedSeconds: 600,
+    actualSeconds: 600,
+    extendedSeconds: 0,
+    pauseCount: 0,
+    endedEarly: false,
+    programId: null,
+  }
+}
+
+/**
+ * Stand-in for the Supabase client
+ *
+ * `failNext` makes the next uploads fail (with `failCode`, if set);
+ * `loseResponse` stores the row but still reports an error, as when the
+ * connection drops mid-request.
+ */
+function createFakeClient() {
+  const rows = new Map<string, MeditationSessionInsert>()
+  const fake = {
+    rows,
+    upsertCalls: 0,
+    failNext: 0,
+    failCode: undefined as string | undefined,
+    loseResponse: false,
+    client: {
+      from: () => ({
+        upsert: async (
+          inserts: MeditationSessionInsert[]
+        ): Promise<{ error: SyncError | null }> => {
+          fake.upsertCalls += 1
+          if (fake.failNext > 0) {
+            fake.failNext -= 1
+            if (fake.loseResponse) {
+              inserts.forEach(row => {
+                if (!rows.has(row.id!)) rows.set(row.id!, row)
+              })
+            }
+            return {
+              error: fake.failCode
+                ? { message: 'Permission denied', code: fake.failCode }
+                : { message: 'Network request failed' },
+            }
+          }
+          inserts.forEach(row => {
+            if (!rows.has(row.id!)) rows.set(row.id!, row) // DO NOTHING on conflict
+          })
+          return { error: null }
+        },
+      }),
+    } as SessionSyncClient,
+  }
+  return fake
+}
+
+describe('getRetryDelayMs', () => {
+  it('doubles from the base delay up to the maximum', () => {
+    expect(getRetryDelayMs(1)).toBe(BASE_RETRY_DELAY_MS)
+    expect(getRetryDelayMs(2)).toBe(BASE_RETRY_DELAY_MS * 2)
+    expect(getRetryDelayMs(3)).toBe(BASE_RETRY_DELAY_MS * 4)
+    expect(getRetryDelayMs(20)).toBe(MAX_RETRY_DELAY_MS)
+  })
+
+  it('never goes below the base delay', () => {
+    expect(getRetryDelayMs(0)).toBe(BASE_RETRY_DELAY_MS)
+  })
+})
+
+describe('syncPendingSessions', () => {
+  it('uploads due sessions and empties the queue', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+    await enqueueSession(store, createSession('b'), USER_ID, NOW)
+
+    const result = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+    })
+
+    expect(result).toEqual({
+      synced: 2,
+      failed: 0,
+      remaining: 0,
+      nextAttemptAt: null,
+    })
+    expect(fake.rows.get('a')?.user_id).toBe(USER_ID)
+    expect(await store.getAll()).toEqual([])
+  })
+
+  it('backs off after a failure and retries once the delay has passed', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+
+    fake.failNext = 2
+    const first = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+    })
+    expect(first).toEqual({
+      synced: 0,
+      failed: 1,
+      remaining: 1,
+      nextAttemptAt: NOW + BASE_RETRY_DELAY_MS,
+    })
+
+    // Not due yet: skipped without an upload
+    const early = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW + BASE_RETRY_DELAY_MS - 1,
+    })
+    expect(early).toEqual({
+      synced: 0,
+      failed: 0,
+      remaining: 1,
+      nextAttemptAt: NOW + BASE_RETRY_DELAY_MS,
+    })
+    expect(fake.upsertCalls).toBe(1)
+
+    // Second failure doubles the delay
+    const later = NOW + BASE_RETRY_DELAY_MS
+    const second = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: later,
+    })
+    expect(second.nextAttemptAt).toBe(later + BASE_RETRY_DELAY_MS * 2)
+    expect((await store.getAll())[0].attempts).toBe(2)
+
+    const third = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: later + BASE_RETRY_DELAY_MS * 2,
+    })
+    expect(third).toEqual({
+      synced: 1,
+      failed: 0,
+      remaining: 0,
+      nextAttemptAt: null,
+    })
+  })
+
+  it('ignores backoff when forced', async () => {
+    const store = createMemoryQueueStore([
+      {
+        session: createSession('a'),
+        userId: USER_ID,
+        attempts: 3,
+        nextAttemptAt: NOW + 60_000,
+      },
+    ])
+    const fake = createFakeClient()
+
+    const result = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+      force: true,
+    })
+
+    expect(result.synced).toBe(1)
+    expect(result.remaining).toBe(0)
+  })
+
+  it('counts only the sessions left in the queue as remaining', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+    await enqueueSession(store, createSession('b'), USER_ID, NOW)
+    await enqueueSession(store, createSession('c'), USER_ID, NOW + 10_000)
+
+    fake.failNext = 1 // Only the first upload fails
+    const result = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+    })
+
+    expect(result).toEqual({
+      synced: 1,
+      failed: 1,
+      remaining: 2,
+      nextAttemptAt: NOW + BASE_RETRY_DELAY_MS,
+    })
+  })
+
+  it('does not duplicate a session whose upload response was lost', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+
+    fake.failNext = 1
+    fake.loseResponse = true
+    await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+    })
+    expect(fake.rows.size).toBe(1) // Stored, but the client doesn't know
+
+    const retry = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW + BASE_RETRY_DELAY_MS,
+    })
+
+    expect(retry.synced).toBe(1)
+    expect(fake.rows.size).toBe(1)
+    expect(await store.getAll()).toEqual([])
+  })
+})
+
+describe('syncPendingSessions with other users and refused uploads', () => {
+  it('leaves sessions of other users and signed-out devices in the queue', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('mine'), USER_ID, NOW)
+    await enqueueSession(store, createSession('theirs'), 'user-2', NOW)
+
+    const signedOut = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: null,
+      now: NOW,
+    })
+    expect(signedOut).toEqual({
+      synced: 0,
+      failed: 0,
+      remaining: 2,
+      nextAttemptAt: null,
+    })
+    expect(fake.upsertCalls).toBe(0)
+
+    const result = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+      force: true,
+    })
+    expect(result.synced).toBe(1)
+    expect(result.remaining).toBe(1)
+    expect(fake.rows.has('theirs')).toBe(false)
+    expect((await store.getAll())[0].session.id).toBe('theirs')
+  })
+
+  it('parks a session the database refuses instead of retrying it', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+
+    fake.failNext = 1
+    fake.failCode = '42501' // Row-level security
+    const refused = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+    })
+    expect(refused).toEqual({
+      synced: 0,
+      failed: 1,
+      remaining: 1,
+      nextAttemptAt: null, // No retry is scheduled
+    })
+    expect((await store.getAll())[0].parked).toBe(true)
+
+    // Not retried by normal passes, however much later
+    await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW + MAX_RETRY_DELAY_MS * 10,
+    })
+    expect(fake.upsertCalls).toBe(1)
+
+    // A forced pass tries it once more
+    const forced = await syncPendingSessions({
+      store,
+      client: fake.client,
+      userId: USER_ID,
+      now: NOW,
+      force: true,
+    })
+    expect(forced.synced).toBe(1)
+    expect(await store.getAll()).toEqual([])
+  })
+})
+
+describe('createSessionSync', () => {
+  let sessionSync: SessionSync
+
+  // Cancels the retry timer, so a failing test can't keep Jest running
+  afterEach(() => sessionSync.dispose())
+
+  it('runs a forced pass after a normal pass already in progress', async () => {
+    const store = createMemoryQueueStore([
+      {
+        session: createSession('backed-off'),
+        userId: USER_ID,
+        attempts: 4,
+        nextAttemptAt: NOW + 60_000,
+      },
+    ])
+    const fake = createFakeClient()
+    sessionSync = createSessionSync({
+      store,
+      client: fake.client,
+      getUserId: async () => USER_ID,
+      clock: () => NOW,
+    })
+
+    const normal = sessionSync.sync()
+    const forced = sessionSync.sync(true) // e.g. the browser came back online
+    await Promise.all([normal, forced])
+
+    expect(fake.rows.has('backed-off')).toBe(true)
+    expect(await sessionSync.getPendingCount()).toBe(0)
+  })
+
+  it('shares a running pass between normal callers', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    await enqueueSession(store, createSession('a'), USER_ID, NOW)
+    sessionSync = createSessionSync({
+      store,
+      client: fake.client,
+      getUserId: async () => USER_ID,
+      clock: () => NOW,
+    })
+
+    await Promise.all([sessionSync.sync(), sessionSync.sync()])
+
+    expect(fake.upsertCalls).toBe(1)
+  })
+
+  it('notifies listeners with the pending count after recording and syncing', async () => {
+    const store = createMemoryQueueStore()
+    const fake = createFakeClient()
+    fake.failNext = 1
+    sessionSync = createSessionSync({
+      store,
+      client: fake.client,
+      getUserId: async () => USER_ID,
+      clock: () => NOW,
+    })
+    const counts: number[] = []
+    sessionSync.subscribe(count => counts.push(count))
+
+    await sessionSync.record(createSession('a'), USER_ID)
+    await sessionSync.sync() // Joins the pass record() started
+
+    expect(counts).toEqual([1, 1])
+    expect(await sessionSync.getPendingCount()).toBe(1)
+  })
+})
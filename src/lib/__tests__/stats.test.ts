@@ -0,0 +1,228 @@
+/**
+ * Practice Statistics Tests
+ *
+ * Sessions just before and after local midnight on DST change days, in
+ * fixed time zones, so the results don't depend on the machine's zone.
+ */
+
+import { MeditationSession } from '@/types/timer'
+import {
+  addDays,
+  computePracticeStats,
+  getDayKey,
+  getStreaks,
+} from '@/lib/stats'
+
+const NEW_YORK = 'America/New_York'
+const LONDON = 'Europe/London'
+
+/**
+ * A finished session starting at the given instant
+ */
+function createSession(
+  startedAt: string,
+  overrides: Partial<MeditationSession> = {}
+): MeditationSession {
+  return {
+    id: startedAt,
+    startedAt,
+    endedAt: startedAt,
+    plannedSeconds: 600,
+    actualSeconds: 600,
+    extendedSeconds: 0,
+    pauseCount: 0,
+    endedEarly: false,
+    programId: null,
+    ...overrides,
+  }
+}
+
+describe('getDayKey', () => {
+  it.each([
+    // New York, spring forward (2024-03-10, EST to EDT)
+    ['2024-03-10T04:30:00Z', NEW_YORK, '2024-03-09'], // 23:30 EST
+    ['2024-03-10T05:30:00Z', NEW_YORK, '2024-03-10'], // 00:30 EST
+    ['2024-03-11T03:30:00Z', NEW_YORK, '2024-03-10'], // 23:30 EDT
+    ['2024-03-11T04:30:00Z', NEW_YORK, '2024-03-11'], // 00:30 EDT
+    // New York, fall back (2024-11-03, EDT to EST)
+    ['2024-11-03T03:30:00Z', NEW_YORK, '2024-11-02'], // 23:30 EDT
+    ['2024-11-03T04:30:00Z', NEW_YORK, '2024-11-03'], // 00:30 EDT
+    ['2024-11-04T04:30:00Z', NEW_YORK, '2024-11-03'], // 23:30 EST
+    ['2024-11-04T05:30:00Z', NEW_YORK, '2024-11-04'], // 00:30 EST
+    // London, spring forward (2024-03-31, GMT to BST)
+    ['2024-03-30T23:30:00Z', LONDON, '2024-03-30'], // 23:30 GMT
+    ['2024-03-31T00:30:00Z', LONDON, '2024-03-31'], // 00:30 GMT
+    ['2024-03-31T22:30:00Z', LONDON, '2024-03-31'], // 23:30 BST
+    ['2024-03-31T23:30:00Z', LONDON, '2024-04-01'], // 00:30 BST
+    // London, fall back (2024-10-27, BST to GMT)
+    ['2024-10-26T22:30:00Z', LONDON, '2024-10-26'], // 23:30 BST
+    ['2024-10-26T23:30:00Z', LONDON, '2024-10-27'], // 00:30 BST
+    ['2024-10-27T23:30:00Z', LONDON, '2024-10-27'], // 23:30 GMT
+    ['2024-10-28T00:30:00Z', LONDON, '2024-10-28'], // 00:30 GMT
+  ])('puts %s in %s on %s', (instant, timeZone, day) => {
+    expect(getDayKey(instant, timeZone)).toBe(day)
+  })
+})
+
+describe('addDays', () => {
+  it('moves by calendar days across DST changes', () => {
+    expect(addDays('2024-03-09', 1)).toBe('2024-03-10')
+    expect(addDays('2024-03-10', 1)).toBe('2024-03-11')
+    expect(addDays('2024-11-03', 1)).toBe('2024-11-04')
+    expect(addDays('2024-10-28', -2)).toBe('2024-10-26')
+  })
+
+  it('crosses month, year and leap-day boundaries', () => {
+    expect(addDays('2024-02-28', 1)).toBe('2024-02-29')
+    expect(addDays('2024-03-01', -1)).toBe('2024-02-29')
+    expect(addDays('2024-12-31', 1)).toBe('2025-01-01')
+    expect(addDays('2024-01-01', -366)).toBe('2022-12-31')
+  })
+})
+
+describe('getStreaks', () => {
+  const practiceDays = [
+    '2024-03-01',
+    '2024-03-02',
+    '2024-03-03',
+    '2024-03-08',
+    '2024-03-09',
+  ]
+  const days = new Set(practiceDays)
+
+  it('counts the current streak from today', () => {
+    const withToday = new Set(practiceDays.concat('2024-03-10'))
+    expect(getStreaks(withToday, '2024-03-10')).toEqual({
+      currentStreak: 3,
+      longestStreak: 3,
+    })
+  })
+
+  it('keeps the streak alive when only yesterday has a session', () => {
+    expect(getStreaks(days, '2024-03-10')).toEqual({
+      currentStreak: 2,
+      longestStreak: 3,
+    })
+  })
+
+  it('ends the streak once a whole day is missed', () => {
+    expect(getStreaks(days, '2024-03-11')).toEqual({
+      currentStreak: 0,
+      longestStreak: 3,
+    })
+  })
+
+  it('returns zeros without practice days', () => {
+    expect(getStreaks(new Set(), '2024-03-10')).toEqual({
+      currentStreak: 0,
+      longestStreak: 0,
+    })
+  })
+})
+
+describe('computePracticeStats', () => {
+  it('keeps a streak across the spring-forward night', () => {
+    const sessions = [
+      createSession('2024-03-10T04:30:00Z'), // Sat 23:30 EST
+      createSession('2024-03-11T03:30:00Z'), // Sun 23:30 EDT
+      createSession('2024-03-11T04:30:00Z'), // Mon 00:30 EDT
+    ]
+
+    const stats = computePracticeStats(sessions, {
+      now: new Date('2024-03-11T16:00:00Z'),
+      timeZone: NEW_YORK,
+    })
+
+    expect(stats.currentStreak).toBe(3)
+    expect(stats.longestStreak).toBe(3)
+  })
+
+  it('counts the extra fall-back hour as the same day', () => {
+    const sessions = [
+      createSession('2024-10-26T23:30:00Z'), // Sun 00:30 BST
+      createSession('2024-10-27T23:30:00Z'), // Sun 23:30 GMT
+    ]
+
+    const stats = computePracticeStats(sessions, {
+      now: new Date('2024-10-28T09:00:00Z'),
+      timeZone: LONDON,
+    })
+
+    expect(stats.currentStreak).toBe(1) // Only Sunday, seen from Monday
+    expect(stats.longestStreak).toBe(1)
+  })
+
+  it('starts the week on Monday in local time', () => {
+    const sessions = [
+      createSession('2024-03-04T04:30:00Z', { actualSeconds: 100 }), // Sun 3rd 23:30 EST
+      createSession('2024-03-04T05:30:00Z', { actualSeconds: 200 }), // Mon 4th 00:30 EST
+      createSession('2024-03-11T03:30:00Z', { actualSeconds: 400 }), // Sun 10th 23:30 EDT
+    ]
+
+    const sunday = computePracticeStats(sessions, {
+      now: new Date('2024-03-11T03:45:00Z'), // Sun 10th 23:45 EDT
+      timeZone: NEW_YORK,
+    })
+    expect(sunday.totals.week).toBe(600)
+
+    const monday = computePracticeStats(sessions, {
+      now: new Date('2024-03-11T04:15:00Z'), // Mon 11th 00:15 EDT
+      timeZone: NEW_YORK,
+    })
+    expect(monday.totals.week).toBe(0)
+    expect(monday.totals.month).toBe(700)
+  })
+
+  it('uses the local month and year, not the UTC ones', () => {
+    const sessions = [
+      createSession('2025-01-01T03:30:00Z', { actualSeconds: 300 }), // Dec 31st 22:30 EST
+    ]
+
+    const stats = computePracticeStats(sessions, {
+      now: new Date('2025-01-01T04:30:00Z'), // Dec 31st 23:30 EST
+      timeZone: NEW_YORK,
+    })
+
+    expect(stats.totals).toEqual({
+      week: 300,
+      month: 300,
+      year: 300,
+      allTime: 300,
+    })
+  })
+
+  it('summarises completion and overtime', () => {
+    const sessions = [
+      createSession('2024-03-01T12:00:00Z', { extendedSeconds: 120 }),
+      createSession('2024-03-02T12:00:00Z', { extendedSeconds: 60 }),
+      createSession('2024-03-03T12:00:00Z', {
+        actualSeconds: 300,
+        endedEarly: true,
+      }),
+    ]
+
+    const stats = computePracticeStats(sessions, {
+      now: new Date('2024-03-03T18:00:00Z'),
+      timeZone: LONDON,
+    })
+
+    expect(stats.sessionCount).toBe(3)
+    expect(stats.averageSeconds).toBe(500)
+    expect(stats.completedCount).toBe(2)
+    expect(stats.endedEarlyCount).toBe(1)
+    expect(stats.completionRate).toBeCloseTo(2 / 3)
+    expect(stats.totalExtendedSeconds).toBe(180)
+    expect(stats.averageExtendedSeconds).toBe(90)
+  })
+
+  it('has no completion rate without sessions', () => {
+    const stats = computePracticeStats([], {
+      now: new Date('2024-03-03T18:00:00Z'),
+      timeZone: LONDON,
+    })
+
+    expect(stats.completionRate).toBeNull()
+    expect(stats.currentStreak).toBe(0)
+    expect(stats.averageSeconds).toBe(0)
+  })
+})
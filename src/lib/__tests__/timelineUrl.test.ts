@@ -0,0 +1,104 @@
+/**
+ * Timeline URL State Tests
+ *
+ * Every filter, view option and the period must survive a trip through
+ * the URL, and a broken URL must fall back to the defaults.
+ */
+
+import {
+  DEFAULT_FILTERS,
+  DEFAULT_VIEW_OPTIONS,
+  TimelineUrlState,
+  fromTimelineParams,
+  toTimelineParams,
+} from '@/lib/timelineUrl'
+
+/**
+ * Serialize, turn into a query string (as the address bar would) and read back
+ */
+function roundTrip(state: TimelineUrlState): TimelineUrlState {
+  const query = toTimelineParams(state).toString()
+  return fromTimelineParams(new URLSearchParams(query))
+}
+
+describe('timeline URL state', () => {
+  it('round-trips every field with non-default values', () => {
+    const state: TimelineUrlState = {
+      filters: {
+        contentTypes: ['music', 'artwork', 'update'],
+        tags: ['ambient, drone', 'field recordings', 'a&b=c', '#tag'],
+        dateRange: {
+          start: '2024-01-01T00:00:00.000Z',
+          end: '2024-03-31T23:59:59.999Z',
+        },
+        isPremiumOnly: true,
+        searchQuery: 'rain "on the roof" -thunder',
+      },
+      viewOptions: {
+        layout: 'grid',
+        sortBy: 'sortOrder',
+        sortOrder: 'asc',
+        itemsPerPage: 50,
+        showFilters: true,
+      },
+      period: { year: 2023, month: 0 },
+    }
+
+    expect(roundTrip(state)).toEqual(state)
+  })
+
+  it.each([
+    ['createdAt', 'compact', 'desc'],
+    ['publishedAt', 'list', 'asc'],
+  ] as const)(
+    'round-trips sort %s with layout %s, %s',
+    (sortBy, layout, sortOrder) => {
+      const state: TimelineUrlState = {
+        filters: DEFAULT_FILTERS,
+        viewOptions: { ...DEFAULT_VIEW_OPTIONS, sortBy, layout, sortOrder },
+        period: { year: 2024, month: 11 },
+      }
+
+      expect(roundTrip(state)).toEqual(state)
+    }
+  )
+
+  it('round-trips the defaults to an empty query string', () => {
+    const state: TimelineUrlState = {
+      filters: DEFAULT_FILTERS,
+      viewOptions: DEFAULT_VIEW_OPTIONS,
+      period: null,
+    }
+
+    expect(toTimelineParams(state).toString()).toBe('')
+    expect(roundTrip(state)).toEqual(state)
+  })
+
+  it('keeps params that are not timeline state', () => {
+    const params = toTimelineParams(
+      {
+        filters: { ...DEFAULT_FILTERS, tags: ['calm'] },
+        viewOptions: DEFAULT_VIEW_OPTIONS,
+        period: null,
+      },
+      new URLSearchParams('ref=newsletter&tag=old')
+    )
+
+    expect(params.get('ref')).toBe('newsletter')
+    expect(params.getAll('tag')).toEqual(['calm'])
+  })
+
+  it('falls back to defaults for malformed values', () => {
+    const state = fromTimelineParams(
+      new URLSearchParams(
+        'type=podcast&from=yesterday&to=2024-01-01&layout=masonry&sort=random&order=up&perPage=1000&at=2024-13'
+      )
+    )
+
+    expect(state).toEqual({
+      filters: DEFAULT_FILTERS,
+      viewOptions: DEFAULT_VIEW_OPTIONS,
+      period: null,
+    })
+  })
+})
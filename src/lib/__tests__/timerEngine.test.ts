@@ -0,0 +1,157 @@
+/**
+ * Timer Engine Tests
+ *
+ * Drive the engine with a fake clock to show that its values come from
+ * timestamps alone: pauses are excluded, and long gaps between reads
+ * (a sleeping phone) lose no time.
+ */
+
+import { createTimerEngine } from '@/lib/timerEngine'
+
+const MINUTE = 60 * 1000
+const HOUR = 60 * MINUTE
+
+/**
+ * A clock that only moves when the test says so
+ */
+function createFakeClock(start = 1_700_000_000_000) {
+  let now = start
+  return {
+    clock: () => now,
+    advance: (ms: number) => {
+      now += ms
+    },
+  }
+}
+
+describe('createTimerEngine', () => {
+  it('stays idle at the full duration until started', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(600, clock)
+
+    advance(5 * MINUTE)
+    const snapshot = engine.getSnapshot()
+
+    expect(snapshot.status).toBe('idle')
+    expect(snapshot.elapsedMs).toBe(0)
+    expect(snapshot.remainingSeconds).toBe(600)
+    expect(snapshot.startedAt).toBeNull()
+  })
+
+  it('counts elapsed time from the clock', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(600, clock)
+
+    engine.start()
+    advance(90 * 1000 + 400)
+
+    const snapshot = engine.getSnapshot()
+    expect(snapshot.status).toBe('running')
+    expect(snapshot.startedAt).toBe(1_700_000_000_000)
+    expect(snapshot.elapsedMs).toBe(90_400)
+    expect(snapshot.elapsedSeconds).toBe(90)
+    expect(snapshot.remainingSeconds).toBe(510) // 509.6 rounds up
+  })
+
+  it('excludes every pause span, including one in progress', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(600, clock)
+
+    engine.start()
+    advance(2 * MINUTE)
+    engine.pause()
+    advance(10 * MINUTE)
+    expect(engine.getSnapshot().elapsedMs).toBe(2 * MINUTE)
+
+    engine.resume()
+    advance(3 * MINUTE)
+    engine.pause()
+    advance(HOUR)
+    engine.resume()
+    advance(MINUTE)
+
+    const snapshot = engine.getSnapshot()
+    expect(snapshot.elapsedMs).toBe(6 * MINUTE)
+    expect(snapshot.remainingSeconds).toBe(240)
+    expect(snapshot.pauseCount).toBe(2)
+  })
+
+  it('loses no time across a multi-hour gap between reads', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(20 * 60, clock)
+
+    engine.start()
+    advance(3 * HOUR + 1500)
+
+    const snapshot = engine.getSnapshot()
+    expect(snapshot.elapsedMs).toBe(3 * HOUR + 1500)
+    expect(snapshot.isComplete).toBe(true)
+    expect(snapshot.remainingSeconds).toBe(0)
+    expect(snapshot.overtimeSeconds).toBe(3 * 60 * 60 - 20 * 60 + 1)
+  })
+
+  it('reaches zero exactly at the planned duration and then counts overtime', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(60, clock)
+
+    engine.start()
+    advance(60 * 1000 - 1)
+    let snapshot = engine.getSnapshot()
+    expect(snapshot.remainingSeconds).toBe(1)
+    expect(snapshot.isComplete).toBe(false)
+    expect(snapshot.overtimeSeconds).toBe(0)
+
+    advance(1)
+    snapshot = engine.getSnapshot()
+    expect(snapshot.remainingSeconds).toBe(0)
+    expect(snapshot.isComplete).toBe(true)
+    expect(snapshot.overtimeSeconds).toBe(0)
+
+    advance(999)
+    expect(engine.getSnapshot().overtimeSeconds).toBe(0)
+    advance(1)
+    expect(engine.getSnapshot().overtimeSeconds).toBe(1)
+  })
+
+  it('ignores calls that do not fit the current status', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(600, clock)
+
+    engine.pause()
+    engine.resume()
+    expect(engine.getSnapshot().status).toBe('idle')
+
+    engine.start()
+    advance(MINUTE)
+    engine.start() // Already running: keeps the original start time
+    engine.resume()
+    engine.pause()
+    engine.pause() // Already paused: not counted twice
+    advance(MINUTE)
+
+    const snapshot = engine.getSnapshot()
+    expect(snapshot.startedAt).toBe(1_700_000_000_000)
+    expect(snapshot.pauseCount).toBe(1)
+    expect(snapshot.elapsedMs).toBe(MINUTE)
+  })
+
+  it('resets to idle, optionally with a new duration', () => {
+    const { clock, advance } = createFakeClock()
+    const engine = createTimerEngine(600, clock)
+
+    engine.start()
+    advance(MINUTE)
+    engine.pause()
+    engine.reset(1200)
+
+    const snapshot = engine.getSnapshot()
+    expect(snapshot).toMatchObject({
+      status: 'idle',
+      durationSeconds: 1200,
+      elapsedMs: 0,
+      remainingSeconds: 1200,
+      pauseCount: 0,
+      startedAt: null,
+    })
+  })
+})
@@ -0,0 +1,76 @@
+/**
+ * Ambient Sound
+ *
+ * Optional background sound (rain, stream, forest) that loops quietly
+ * while a session is running. Uses a plain HTMLAudioElement since looping
+ * a long file is all we need - the Web Audio graph is reserved for bells.
+ *
+ * The loops live in /public/sounds. If one can't be loaded (offline before
+ * it was cached, unsupported codec) the session carries on in silence.
+ */
+
+/**
+ * Available ambient sounds ('none' = silence)
+ */
+export type AmbientSound = 'none' | 'rain' | 'stream' | 'forest'
+
+export const AMBIENT_SOUNDS: Record<
+  AmbientSound,
+  { label: string; url: string | null }
+> = {
+  none: { label: 'None', url: null },
+  rain: { label: 'Rain', url: '/sounds/ambient-rain.mp3' },
+  stream: { label: 'Stream', url: '/sounds/ambient-stream.mp3' },
+  forest: { label: 'Forest', url: '/sounds/ambient-forest.mp3' },
+}
+
+// Ambient audio is kept well below the bell so the bell is always heard
+const AMBIENT_VOLUME = 0.25
+
+let ambientAudio: HTMLAudioElement | null = null
+let currentSound: AmbientSound = 'none'
+
+/**
+ * Start (or resume) looping the given ambient sound
+ */
+export function playAmbient(sound: AmbientSound): void {
+  if (typeof window === 'undefined') return
+
+  const { url } = AMBIENT_SOUNDS[sound]
+  if (!url) {
+    stopAmbient()
+    return
+  }
+
+  if (!ambientAudio || currentSound !== sound) {
+    stopAmbient()
+    ambientAudio = new Audio(url)
+    ambientAudio.loop = true
+    ambientAudio.volume = AMBIENT_VOLUME
+    currentSound = sound
+  }
+
+  ambientAudio.play().catch(error => {
+    // Missing file or autoplay restrictions - the timer works without it
+    console.warn('Unable to play ambient sound:', error)
+  })
+}
+
+/**
+ * Pause the ambient sound, keeping its position for resume
+ */
+export function pauseAmbient(): void {
+  ambientAudio?.pause()
+}
+
+/**
+ * Stop the ambient sound and release the audio element
+ */
+export function stopAmbient(): void {
+  if (ambientAudio) {
+    ambientAudio.pause()
+    ambientAudio.src = ''
+  }
+  ambientAudio = null
+  currentSound = 'none'
+}
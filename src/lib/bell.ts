@@ -0,0 +1,272 @@
+/**
+ * Bell Audio
+ *
+ * Plays the gentle completion bell through the Web Audio API.
+ *
+ * Each bell has a sample file in /public/sounds. If the file can't be
+ * fetched or decoded (offline, unsupported codec), we synthesize a similar
+ * tone with oscillators instead, so the user always hears a bell.
+ *
+ * Mobile browsers only allow audio that was started from a user gesture,
+ * so unlockAudio() must be called from the Start button's click handler.
+ */
+
+import { isRecord } from '@/lib/validation'
+
+/**
+ * Available bell sounds
+ */
+export type BellSound = 'singing-bowl' | 'chime' | 'wood-block'
+
+/**
+ * User-configurable bell settings
+ */
+export interface BellSettings {
+  sound: BellSound // Which bell to play
+  volume: number // 0 (silent) to 1 (full volume)
+  fadeInMs: number // How long the bell takes to reach full volume
+}
+
+export const DEFAULT_BELL_SETTINGS: BellSettings = {
+  sound: 'singing-bowl',
+  volume: 0.6, // Soft by default - this is a meditation bell, not an alarm
+  fadeInMs: 0,
+}
+
+/**
+ * Bell definitions
+ *
+ * `sampleUrl` is the recorded sound. The remaining fields describe the
+ * synthesized fallback: a set of partials (multiples of the base frequency)
+ * that decay exponentially over `decaySeconds`.
+ */
+interface BellDefinition {
+  label: string
+  sampleUrl: string
+  frequency: number // Base frequency in Hz
+  partials: number[] // Overtone ratios relative to the base frequency
+  decaySeconds: number // Time for the tone to fade out
+}
+
+export const BELL_SOUNDS: Record<BellSound, BellDefinition> = {
+  'singing-bowl': {
+    label: 'Singing bowl',
+    sampleUrl: '/sounds/singing-bowl.mp3',
+    frequency: 220,
+    partials: [1, 2.76, 5.4],
+    decaySeconds: 8,
+  },
+  chime: {
+    label: 'Chime',
+    sampleUrl: '/sounds/chime.mp3',
+    frequency: 880,
+    partials: [1, 2.0, 3.0],
+    decaySeconds: 4,
+  },
+  'wood-block': {
+    label: 'Wood block',
+    sampleUrl: '/sounds/wood-block.mp3',
+    frequency: 600,
+    partials: [1, 1.5],
+    decaySeconds: 0.4,
+  },
+}
+
+// Gap between repeated strikes of the same bell (seconds)
+const STRIKE_SPACING_SECONDS = 3
+
+// Shared audio context - browsers limit how many can exist at once
+let audioContext: AudioContext | null = null
+
+// Decoded samples, cached per sound (null = decoding failed, use synthesis)
+const sampleCache = new Map<BellSound, AudioBuffer | null>()
+
+/**
+ * Get (or lazily create) the shared AudioContext
+ *
+ * Returns null where the Web Audio API isn't available (e.g. server render).
+ */
+function getAudioContext(): AudioContext | null {
+  if (audioContext) return audioContext
+  if (typeof window === 'undefined') return null
+
+  const AudioContextClass =
+    window.AudioContext ||
+    (window as typeof window & { webkitAudioContext?: typeof AudioContext })
+      .webkitAudioContext
+  if (!AudioContextClass) return null
+
+  audioContext = new AudioContextClass()
+  return audioContext
+}
+
+/**
+ * Unlock Audio
+ *
+ * Call from a user gesture (the Start button). Resumes the audio context
+ * and plays a silent buffer, which is what iOS Safari needs to allow
+ * playback later on without a gesture. Never rejects - if the browser
+ * refuses, the bell simply tries again when it plays.
+ */
+export async function unlockAudio(): Promise<void> {
+  const context = getAudioContext()
+  if (!context) return
+
+  try {
+    if (context.state === 'suspended') {
+      await context.resume()
+    }
+
+    const silentBuffer = context.createBuffer(1, 1, context.sampleRate)
+    const source = context.createBufferSource()
+    source.buffer = silentBuffer
+    source.connect(context.destination)
+    source.start(0)
+  } catch (error) {
+    console.warn('Unable to unlock audio:', error)
+  }
+}
+
+/**
+ * Load and decode a bell sample, falling back to null on any failure
+ */
+async function loadSample(
+  context: AudioContext,
+  sound: BellSound
+): Promise<AudioBuffer | null> {
+  if (sampleCache.has(sound)) return sampleCache.get(sound) ?? null
+
+  try {
+    const response = await fetch(BELL_SOUNDS[sound].sampleUrl)
+    if (!response.ok) throw new Error(`HTTP ${response.status}`)
+
+    const buffer = await context.decodeAudioData(await response.arrayBuffer())
+    sampleCache.set(sound, buffer)
+    return buffer
+  } catch {
+    // Missing or undecodable file - remember so we don't retry every strike
+    sampleCache.set(sound, null)
+    return null
+  }
+}
+
+/**
+ * Create the gain node that applies volume and fade-in
+ */
+function createEnvelope(
+  context: AudioContext,
+  settings: BellSettings,
+  startTime: number
+): GainNode {
+  const gain = context.createGain()
+  const fadeInSeconds = Math.max(settings.fadeInMs, 0) / 1000
+
+  if (fadeInSeconds > 0) {
+    gain.gain.setValueAtTime(0.0001, startTime)
+    gain.gain.linearRampToValueAtTime(
+      settings.volume,
+      startTime + fadeInSeconds
+    )
+  } else {
+    gain.gain.setValueAtTime(settings.volume, startTime)
+  }
+
+  gain.connect(context.destination)
+  return gain
+}
+
+/**
+ * Synthesize a bell tone with decaying sine partials
+ */
+function playSynthesizedBell(
+  context: AudioContext,
+  settings: BellSettings,
+  startTime: number
+) {
+  const bell = BELL_SOUNDS[settings.sound]
+  const envelope = createEnvelope(context, settings, startTime)
+  const endTime = startTime + settings.fadeInMs / 1000 + bell.decaySeconds
+
+  bell.partials.forEach((ratio, index) => {
+    const oscillator = context.createOscillator()
+    const partialGain = context.createGain()
+
+    oscillator.type = 'sine'
+    oscillator.frequency.setValueAtTime(bell.frequency * ratio, startTime)
+
+    // Higher partials are quieter and die away faster, like a real bell
+    const level = 1 / (index + 1)
+    const partialEnd = startTime + (endTime - startTime) / (index + 1)
+    partialGain.gain.setValueAtTime(level, startTime)
+    partialGain.gain.exponentialRampToValueAtTime(0.0001, partialEnd)
+
+    oscillator.connect(partialGain)
+    partialGain.connect(envelope)
+    oscillator.start(startTime)
+    oscillator.stop(partialEnd)
+  })
+}
+
+/**
+ * Play Bell
+ *
+ * Plays the configured bell `strikes` times, a few seconds apart. Uses the
+ * recorded sample when it can be decoded and the synthesized tone otherwise.
+ * Fails silently where audio isn't available - a missing bell should never
+ * break the timer.
+ */
+export async function playBell(
+  settings: BellSettings = DEFAULT_BELL_SETTINGS,
+  strikes: number = 1
+): Promise<void> {
+  const context = getAudioContext()
+  if (!context || settings.volume <= 0) return
+
+  try {
+    if (context.state === 'suspended') {
+      await context.resume()
+    }
+
+    const sample = await loadSample(context, settings.sound)
+
+    for (let strike = 0; strike < Math.max(1, strikes); strike++) {
+      const startTime = context.currentTime + strike * STRIKE_SPACING_SECONDS
+
+      if (sample) {
+        const source = context.createBufferSource()
+        source.buffer = sample
+        source.connect(createEnvelope(context, settings, startTime))
+        source.start(startTime)
+      } else {
+        playSynthesizedBell(context, settings, startTime)
+      }
+    }
+  } catch (error) {
+    console.warn('Unable to play bell:', error)
+  }
+}
+
+/**
+ * Read bell settings from a stored JSON payload (e.g. a preset's
+ * `bell_settings` column), using the defaults for anything missing or
+ * out of range
+ */
+export function parseBellSettings(value: unknown): BellSettings {
+  if (!isRecord(value)) return DEFAULT_BELL_SETTINGS
+
+  const { sound, volume, fadeInMs } = value
+  return {
+    sound:
+      typeof sound === 'string' && sound in BELL_SOUNDS
+        ? (sound as BellSound)
+        : DEFAULT_BELL_SETTINGS.sound,
+    volume:
+      typeof volume === 'number' && volume >= 0 && volume <= 1
+        ? volume
+        : DEFAULT_BELL_SETTINGS.volume,
+    fadeInMs:
+      typeof fadeInMs === 'number' && fadeInMs >= 0
+        ? fadeInMs
+        : DEFAULT_BELL_SETTINGS.fadeInMs,
+  }
+}
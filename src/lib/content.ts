@@ -0,0 +1,566 @@
+/**
+ * Timeline Content
+ *
+ * Typed data access for published content. Components work with the
+ * camelCase entries from src/types/timeline.ts; the mapping from the
+ * snake_case columns - and the check of each type's `metadata` JSONB
+ * payload - lives here.
+ *
+ * Content is read through the `published_content` view, which decides per
+ * viewer whether a premium entry comes back in full or as a locked teaser
+ * (see migration 20261019000005). The `content` table itself only returns
+ * premium rows to subscribers and the creator.
+ */
+
+import { requireSupabase } from '@/lib/supabase'
+import { ValidationError, createFieldReader } from '@/lib/validation'
+import {
+  ArtworkEntry,
+  BlogEntry,
+  ContentType,
+  LockedEntry,
+  MusicEntry,
+  ProjectEntry,
+  ProjectStatus,
+  TimelineEntry,
+  TimelineEntryUnion,
+  TimelineFilters,
+  TimelineItem,
+  TimelinePeriod,
+  TimelineViewOptions,
+  UpdateEntry,
+} from '@/types/timeline'
+import type { Tables } from '@/types/supabase'
+
+/**
+ * Row shape of the `published_content` view: a `content` row, with
+ * `is_locked` set (and `metadata` cut down to the teaser) for premium
+ * content the viewer can't see
+ */
+export type ContentRow = Tables<'content'> & { is_locked: boolean | null }
+
+/**
+ * A content row with its tag names joined through `content_tags`
+ */
+export type ContentRowWithTags = ContentRow & {
+  content_tags: { tags: { name: string } | null }[]
+}
+
+/**
+ * Columns to select so rows can be passed to fromContentRow
+ */
+export const CONTENT_SELECT = '*, content_tags(tags(name))'
+
+const CONTENT_TYPES: readonly ContentType[] = [
+  'music',
+  'blog',
+  'artwork',
+  'project',
+  'update',
+]
+
+/**
+ * Whether a string (e.g. a route segment) names a content type
+ */
+export function isContentType(value: string): value is ContentType {
+  return (CONTENT_TYPES as readonly string[]).includes(value)
+}
+
+const PROJECT_STATUSES: readonly ProjectStatus[] = [
+  'planning',
+  'in-progress',
+  'completed',
+  'on-hold',
+  'cancelled',
+]
+
+/**
+ * Type-specific fields of each entry, i.e. what `metadata` holds
+ */
+type EntryMetadata<T extends TimelineEntry> = Omit<T, keyof TimelineEntry>
+
+/**
+ * Read the metadata payload of each content type
+ */
+const metadataParsers: {
+  [K in ContentType]: (
+    metadata: unknown,
+    context: string
+  ) => EntryMetadata<Extract<TimelineEntryUnion, { type: K }>>
+} = {
+  music: (metadata, context): EntryMetadata<MusicEntry> => {
+    const field = createFieldReader(metadata, context)
+    return {
+      audioUrl: field.string('audioUrl'),
+      duration: field.number('duration'),
+      albumName: field.optionalString('albumName'),
+      trackNumber: field.optionalNumber('trackNumber'),
+      lyrics: field.optionalString('lyrics'),
+      spotifyUrl: field.optionalString('spotifyUrl'),
+      appleMusicUrl: field.optionalString('appleMusicUrl'),
+      waveformData: field.optionalNumberArray('waveformData'),
+    }
+  },
+  blog: (metadata, context): EntryMetadata<BlogEntry> => {
+    const field = createFieldReader(metadata, context)
+    return {
+      content: field.string('content'),
+      excerpt: field.string('excerpt'),
+      readTimeMinutes: field.number('readTimeMinutes'),
+      coverImage: field.optionalString('coverImageUrl'),
+      category: field.string('category'),
+    }
+  },
+  artwork: (metadata, context): EntryMetadata<ArtworkEntry> => {
+    const field = createFieldReader(metadata, context)
+    return {
+      imageUrl: field.string('imageUrl'),
+      imageAlt: field.string('imageAlt'),
+      medium: field.optionalString('medium'),
+      dimensions: field.optionalString('dimensions'),
+      technique: field.optionalString('technique'),
+      gallery: field.optionalStringArray('gallery'),
+      purchaseUrl: field.optionalString('purchaseUrl'),
+    }
+  },
+  project: (metadata, context): EntryMetadata<ProjectEntry> => {
+    const field = createFieldReader(metadata, context)
+    return {
+      status: field.oneOf('status', PROJECT_STATUSES),
+      startDate: field.string('startDate'),
+      endDate: field.optionalString('endDate'),
+      collaborators: field.optionalStringArray('collaborators'),
+      mediaUrls: field.optionalStringArray('mediaUrls') ?? [],
+      projectUrl: field.optionalString('projectUrl'),
+      githubUrl: field.optionalString('githubUrl'),
+    }
+  },
+  update: (metadata, context): EntryMetadata<UpdateEntry> => {
+    const field = createFieldReader(metadata, context)
+    return {
+      content: field.string('content'),
+      imageUrl: field.optionalString('imageUrl'),
+      linkUrl: field.optionalString('linkUrl'),
+      linkTitle: field.optionalString('linkTitle'),
+    }
+  },
+}
+
+/**
+ * Whether an item is a locked premium teaser rather than a full entry
+ */
+export function isLockedEntry(item: TimelineItem): item is LockedEntry {
+  return 'isLocked' in item
+}
+
+/**
+ * Convert a database row into a timeline entry (or a locked teaser)
+ *
+ * Throws a ValidationError when the row's metadata doesn't match its type.
+ */
+export function fromContentRow(
+  row: ContentRow,
+  tags: string[] = []
+): TimelineItem {
+  const createdAt = row.created_at ?? new Date(0).toISOString()
+
+  const base: Omit<TimelineEntry, 'type'> = {
+    id: row.id,
+    title: row.title,
+    description: row.description ?? undefined,
+    createdAt,
+    updatedAt: row.updated_at ?? createdAt,
+    publishedAt: row.published_at ?? createdAt,
+    slug: row.slug,
+    tags,
+    isPremium: row.is_premium ?? false,
+    isPublished: row.is_published ?? false,
+    sortOrder: row.sort_order ?? undefined,
+  }
+
+  const context = `content ${row.id} metadata`
+  const metadata = row.metadata ?? {}
+
+  if (row.is_locked) {
+    const field = createFieldReader(metadata, context)
+    return {
+      ...base,
+      type: row.type,
+      isLocked: true,
+      teaser: field.optionalString('excerpt'),
+      previewImage: field.optionalString('coverImageUrl'),
+    }
+  }
+
+  switch (row.type) {
+    case 'music':
+      return {
+        ...base,
+        type: 'music',
+        ...metadataParsers.music(metadata, context),
+      }
+    case 'blog':
+      return {
+        ...base,
+        type: 'blog',
+        ...metadataParsers.blog(metadata, context),
+      }
+    case 'artwork':
+      return {
+        ...base,
+        type: 'artwork',
+        ...metadataParsers.artwork(metadata, context),
+      }
+    case 'project':
+      return {
+        ...base,
+        type: 'project',
+        ...metadataParsers.project(metadata, context),
+      }
+    case 'update':
+      return {
+        ...base,
+        type: 'update',
+        ...metadataParsers.update(metadata, context),
+      }
+  }
+}
+
+/**
+ * Tag names of a row selected with CONTENT_SELECT
+ */
+function getTagNames(row: ContentRowWithTags): string[] {
+  return row.content_tags.flatMap(link => (link.tags ? [link.tags.name] : []))
+}
+
+/**
+ * Convert rows into entries, leaving out (and logging) invalid ones so one
+ * bad row doesn't take the whole timeline down
+ */
+export function fromContentRows(rows: ContentRowWithTags[]): TimelineItem[] {
+  return rows.flatMap(row => {
+    try {
+      return [fromContentRow(row, getTagNames(row))]
+    } catch (error) {
+      if (!(error instanceof ValidationError)) throw error
+      console.warn('Skipping invalid content row:', error.message)
+      return []
+    }
+  })
+}
+
+/**
+ * Load published content, newest first
+ */
+export async function fetchPublishedContent({
+  limit = 20,
+}: { limit?: number } = {}): Promise<TimelineItem[]> {
+  const { data, error } = await requireSupabase()
+    .from('published_content')
+    .select(CONTENT_SELECT)
+    .order('published_at', { ascending: false })
+    .limit(limit)
+    .overrideTypes<ContentRowWithTags[], { merge: false }>()
+
+  if (error) throw new Error(error.message)
+  return fromContentRows(data)
+}
+
+/**
+ * Load one published entry by its type and slug (null if there is none, or
+ * if its metadata is invalid)
+ *
+ * Slugs are only unique within a space, so when several spaces use the
+ * same one the entry published first keeps the URL.
+ */
+export async function fetchContentBySlug(
+  type: ContentType,
+  slug: string
+): Promise<TimelineItem | null> {
+  const { data, error } = await requireSupabase()
+    .from('published_content')
+    .select(CONTENT_SELECT)
+    .eq('type', type)
+    .eq('slug', slug)
+    .order('published_at', { ascending: true })
+    .order('id', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+    .overrideTypes<ContentRowWithTags, { merge: false }>()
+
+  if (error) throw new Error(error.message)
+  return data ? (fromContentRows([data])[0] ?? null) : null
+}
+
+/**
+ * Everything that decides which timeline rows come back, and in what order
+ */
+export interface TimelineQuery {
+  filters: TimelineFilters
+  viewOptions: TimelineViewOptions
+  spaceId?: string // Limit to one space (lets Postgres use the space indexes)
+  after?: TimelineCursor // Continue after this row (omit for the first page)
+}
+
+/**
+ * Position of the last row of a page, in the current sort order
+ *
+ * Pages are read by keyset ("everything after this row") rather than by
+ * offset, so content published while someone scrolls doesn't shift the
+ * following pages.
+ */
+export interface TimelineCursor {
+  sortValue: string | number | null // Sort column value of the last row
+  id: string // Tie-breaker for rows with the same sort value
+}
+
+// Lowest possible id: a cursor (value, MIN_ID) comes before every row with
+// that value, so "after" it includes them going up and excludes them going
+// down
+const MIN_ID = '00000000-0000-0000-0000-000000000000'
+
+/**
+ * Whether the timeline can jump to a month: only when it is ordered by
+ * publication date (the scrubber's range comes from `published_at`), not
+ * by creation date, manual sort order or search relevance
+ */
+export function canJumpToPeriod(
+  filters: TimelineFilters,
+  viewOptions: TimelineViewOptions
+): boolean {
+  return viewOptions.sortBy === 'publishedAt' && !filters.searchQuery?.trim()
+}
+
+/**
+ * Cursor that starts the timeline at a calendar month
+ *
+ * Newest first, the page starts with the last content published before
+ * the next month begins (or the closest older content if the month is
+ * empty); oldest first, with the month's first content. Both bounds are
+ * exact: content published at midnight on the 1st belongs to that month
+ * only. Following pages continue as usual.
+ */
+export function getPeriodCursor(
+  { year, month }: TimelinePeriod,
+  ascending: boolean
+): TimelineCursor {
+  const boundary = ascending
+    ? new Date(year, month, 1)
+    : new Date(year, month + 1, 1)
+  return { sortValue: boundary.toISOString(), id: MIN_ID }
+}
+
+/**
+ * One page of timeline content
+ */
+export interface TimelinePage {
+  entries: TimelineItem[]
+  nextCursor: TimelineCursor | null // null when this was the last page
+}
+
+/**
+ * Columns to select when filtering by tag
+ *
+ * `matched_tags` is an inner join restricted to the requested tags, so only
+ * rows with at least one of them come back; `content_tags` still lists
+ * every tag of the row for display.
+ */
+const TAG_FILTER_SELECT =
+  `${CONTENT_SELECT}, matched_tags:content_tags!inner(tags!inner(name))` as const
+
+// Database columns behind each sort option
+const SORT_COLUMNS = {
+  publishedAt: 'published_at',
+  createdAt: 'created_at',
+  sortOrder: 'sort_order',
+} as const
+
+/**
+ * Quote a value for a PostgREST `or` filter, where commas and parentheses
+ * would otherwise be read as syntax
+ */
+function quoteFilterValue(value: string): string {
+  return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`
+}
+
+/**
+ * PostgREST `or` filter for the rows after a cursor
+ *
+ * Rows are ordered by (sort column, id) with nulls last in both directions,
+ * so "after" means a later sort value, the same value and a later id, or -
+ * once the non-null values run out - the null rows.
+ */
+function getCursorFilter(
+  column: string,
+  { sortValue, id }: TimelineCursor,
+  ascending: boolean
+): string {
+  const after = ascending ? 'gt' : 'lt'
+  const quotedId = quoteFilterValue(id)
+
+  if (sortValue === null) {
+    return `and(${column}.is.null,id.${after}.${quotedId})`
+  }
+
+  const value = quoteFilterValue(String(sortValue))
+  return [
+    `${column}.${after}.${value}`,
+    `and(${column}.eq.${value},id.${after}.${quotedId})`,
+    `${column}.is.null`,
+  ].join(',')
+}
+
+/**
+ * Load one page of search results, best matches first
+ *
+ * The `search_content` RPC does the matching (websearch_to_tsquery over
+ * the title, description and blog text), ranking and highlighting with
+ * the same filters as the timeline; the matching rows are then loaded with
+ * their tags. Results are always in relevance order - the sort options
+ * don't apply - and pages follow each other by keyset on (rank, id).
+ */
+async function searchTimelineContent({
+  filters,
+  viewOptions,
+  spaceId,
+  after,
+}: TimelineQuery): Promise<TimelinePage> {
+  const { contentTypes, tags, dateRange, isPremiumOnly, searchQuery } = filters
+  const client = requireSupabase()
+
+  const { data: matches, error } = await client.rpc('search_content', {
+    search_query: searchQuery?.trim() ?? '',
+    content_types: contentTypes?.length ? contentTypes : undefined,
+    tag_names: tags?.length ? tags : undefined,
+    premium_only: isPremiumOnly ?? false,
+    published_from: dateRange?.start,
+    published_to: dateRange?.end,
+    space: spaceId,
+    after_rank:
+      typeof after?.sortValue === 'number' ? after.sortValue : undefined,
+    after_id: after?.id,
+    result_limit: viewOptions.itemsPerPage,
+  })
+
+  if (error) throw new Error(error.message)
+  if (matches.length === 0) return { entries: [], nextCursor: null }
+
+  const headlines = new Map(matches.map(match => [match.id, match.headline]))
+  const { data: rows, error: rowsError } = await client
+    .from('published_content')
+    .select(CONTENT_SELECT)
+    .in(
+      'id',
+      matches.map(match => match.id)
+    )
+    .overrideTypes<ContentRowWithTags[], { merge: false }>()
+
+  if (rowsError) throw new Error(rowsError.message)
+
+  // Put the rows back in rank order and attach each highlighted snippet
+  const rowsById = new Map(rows.map(row => [row.id, row]))
+  const entries = fromContentRows(
+    matches.flatMap(match => {
+      const row = rowsById.get(match.id)
+      return row ? [row] : []
+    })
+  ).map(entry => ({ ...entry, searchHeadline: headlines.get(entry.id) }))
+
+  const lastMatch = matches[matches.length - 1]
+  return {
+    entries,
+    nextCursor:
+      matches.length === viewOptions.itemsPerPage
+        ? { sortValue: lastMatch.rank, id: lastMatch.id }
+        : null,
+  }
+}
+
+/**
+ * Load one page of published timeline content
+ *
+ * Every filter is applied in SQL: type and premium filters line up with the
+ * `idx_content_type_timeline` and `idx_content_premium_timeline` indexes,
+ * tags are matched through `content_tags` and the date range bounds
+ * `published_at`. Pages follow each other by keyset on (sort column, id),
+ * which for the default order is (published_at, id) - the order of
+ * `idx_content_timeline`. A search query switches to ranked full-text
+ * search (see searchTimelineContent).
+ */
+export async function fetchTimelineContent({
+  filters,
+  viewOptions,
+  spaceId,
+  after,
+}: TimelineQuery): Promise<TimelinePage> {
+  if (filters.searchQuery?.trim()) {
+    return searchTimelineContent({ filters, viewOptions, spaceId, after })
+  }
+
+  const { contentTypes, tags, dateRange, isPremiumOnly } = filters
+  const filterByTags = Boolean(tags && tags.length > 0)
+
+  let query = requireSupabase()
+    .from('published_content')
+    .select(filterByTags ? TAG_FILTER_SELECT : CONTENT_SELECT)
+
+  if (spaceId) query = query.eq('space_id', spaceId)
+  if (contentTypes && contentTypes.length > 0) {
+    query = query.in('type', contentTypes)
+  }
+  if (isPremiumOnly) query = query.eq('is_premium', true)
+  if (tags && filterByTags) query = query.in('matched_tags.tags.name', tags)
+  if (dateRange) {
+    query = query
+      .gte('published_at', dateRange.start)
+      .lte('published_at', dateRange.end)
+  }
+
+  const column = SORT_COLUMNS[viewOptions.sortBy]
+  const ascending = viewOptions.sortOrder === 'asc'
+  if (after) query = query.or(getCursorFilter(column, after, ascending))
+
+  query = query
+    .order(column, { ascending, nullsFirst: false })
+    .order('id', { ascending })
+
+  // The select string is chosen at runtime, which the typed select parser
+  // can't follow; both variants return ContentRowWithTags
+  const { data, error } = await query
+    .limit(viewOptions.itemsPerPage)
+    .overrideTypes<ContentRowWithTags[], { merge: false }>()
+
+  if (error) throw new Error(error.message)
+
+  // A short page is the last one; otherwise continue after its last row
+  const lastRow = data[data.length - 1]
+  return {
+    entries: fromContentRows(data),
+    nextCursor:
+      lastRow && data.length === viewOptions.itemsPerPage
+        ? { sortValue: lastRow[column], id: lastRow.id }
+        : null,
+  }
+}
+
+/**
+ * When the oldest published content was published (null if there is none)
+ */
+export async function fetchOldestPublishedAt(
+  spaceId?: string
+): Promise<string | null> {
+  let query = requireSupabase()
+    .from('published_content')
+    .select('published_at')
+    .not('published_at', 'is', null)
+
+  if (spaceId) query = query.eq('space_id', spaceId)
+
+  const { data, error } = await query
+    .order('published_at', { ascending: true })
+    .limit(1)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  return data?.published_at ?? null
+}
@@ -0,0 +1,88 @@
+/**
+ * Timeline Date Ranges
+ *
+ * Turns the date-range presets offered in the timeline filters into the
+ * `{ start, end }` ISO range stored in TimelineFilters.dateRange. Ranges
+ * cover whole days in the viewer's time zone, and the end is inclusive.
+ */
+
+import {
+  endOfDay,
+  endOfMonth,
+  endOfYear,
+  format,
+  isValid,
+  parseISO,
+  startOfDay,
+  startOfMonth,
+  startOfYear,
+  subDays,
+} from 'date-fns'
+import { TimelineFilters } from '@/types/timeline'
+
+export type DateRange = NonNullable<TimelineFilters['dateRange']>
+
+/**
+ * Date-range choices offered in the filters
+ */
+export type DateRangePreset = 'all' | 'last-7-days' | 'this-month' | 'this-year'
+
+export const DATE_RANGE_PRESETS: Record<DateRangePreset, string> = {
+  all: 'All time',
+  'last-7-days': 'Last 7 days',
+  'this-month': 'This month',
+  'this-year': 'This year',
+}
+
+/**
+ * The range a preset covers right now (undefined for "All time")
+ */
+export function getPresetRange(
+  preset: DateRangePreset,
+  now: Date = new Date()
+): DateRange | undefined {
+  const toRange = (start: Date, end: Date): DateRange => ({
+    start: start.toISOString(),
+    end: end.toISOString(),
+  })
+
+  switch (preset) {
+    case 'all':
+      return undefined
+    case 'last-7-days':
+      return toRange(startOfDay(subDays(now, 6)), endOfDay(now))
+    case 'this-month':
+      return toRange(startOfMonth(now), endOfMonth(now))
+    case 'this-year':
+      return toRange(startOfYear(now), endOfYear(now))
+  }
+}
+
+/**
+ * The range between two calendar days picked in date inputs ("yyyy-MM-dd")
+ *
+ * Returns undefined while either day is missing or invalid. The days may be
+ * given in either order.
+ */
+export function getCustomRange(
+  fromDay: string,
+  toDay: string
+): DateRange | undefined {
+  const from = parseISO(fromDay)
+  const to = parseISO(toDay)
+  if (!isValid(from) || !isValid(to)) return undefined
+
+  const [first, last] = from <= to ? [from, to] : [to, from]
+  return {
+    start: startOfDay(first).toISOString(),
+    end: endOfDay(last).toISOString(),
+  }
+}
+
+/**
+ * Calendar day ("yyyy-MM-dd") of an ISO date, for a date input's value
+ */
+export function toDayInputValue(isoDate: string): string {
+  const date = parseISO(isoDate)
+  return isValid(date) ? format(date, 'yyyy-MM-dd') : ''
+}
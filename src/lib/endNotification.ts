@@ -0,0 +1,239 @@
+/**
+ * Session End Notifications
+ *
+ * Schedules a quiet system notification for the planned end of a session,
+ * for when the browser has throttled or suspended the tab and the in-page
+ * bell can't play. Shown by the service worker (public/sw.js).
+ *
+ * - With Web Push configured (Supabase plus NEXT_PUBLIC_VAPID_PUBLIC_KEY),
+ *   the end time is handed to the database and the send-end-notifications
+ *   Edge Function pushes the notification when it is due. A push wakes the
+ *   service worker by itself, so this works for sits of any length.
+ * - Otherwise the service worker holds the notification in a timer. That is
+ *   best effort: browsers stop an idle worker after a few minutes (Chrome
+ *   after 5), so it is only reliable for ends a few minutes away.
+ *
+ * Permission is only ever requested from the settings screen. While a
+ * session runs, scheduling silently does nothing unless notifications are
+ * enabled and permission has already been granted. Scheduling and
+ * cancelling never reject - a notification must never break the timer.
+ */
+
+import { supabase } from '@/lib/supabase'
+import { createId } from '@/lib/id'
+import { isServiceWorkerSupported } from '@/lib/serviceWorker'
+
+const STORAGE_KEY = 'meditation-timer:notifications'
+
+// Public half of the key pair the Edge Function signs pushes with
+const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+
+// Push notification scheduled for the running session, if any
+let scheduledPushId: string | null = null
+
+/**
+ * Message sent to the service worker to schedule the end notification
+ */
+interface ScheduleEndMessage {
+  type: 'schedule-end'
+  endAt: number // Epoch milliseconds of the planned end
+  title: string
+  body: string
+}
+
+/**
+ * Whether this browser can show notifications from a service worker
+ */
+export function isEndNotificationSupported(): boolean {
+  return (
+    typeof window !== 'undefined' &&
+    'Notification' in window &&
+    isServiceWorkerSupported()
+  )
+}
+
+/**
+ * Current notification permission ('unsupported' where there is no API)
+ */
+export function getNotificationPermission():
+  | NotificationPermission
+  | 'unsupported' {
+  if (!isEndNotificationSupported()) return 'unsupported'
+  return Notification.permission
+}
+
+/**
+ * Ask for notification permission - call from the settings screen only
+ */
+export async function requestNotificationPermission(): Promise<
+  NotificationPermission | 'unsupported'
+> {
+  if (!isEndNotificationSupported()) return 'unsupported'
+  return Notification.requestPermission()
+}
+
+/**
+ * Whether the user has turned end notifications on
+ *
+ * Stored per device, like the permission it depends on, for guests and
+ * signed-in users alike - signing in neither imports nor replaces it.
+ */
+export function loadNotificationsEnabled(): boolean {
+  if (typeof window === 'undefined') return false
+
+  try {
+    return window.localStorage.getItem(STORAGE_KEY) === 'true'
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Save the end notification preference
+ */
+export function saveNotificationsEnabled(enabled: boolean): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, String(enabled))
+  } catch (error) {
+    console.warn('Unable to save notification setting:', error)
+  }
+}
+
+/**
+ * Whether end notifications are delivered by Web Push (and so don't
+ * depend on the service worker staying alive)
+ */
+export function isPushDeliveryAvailable(): boolean {
+  return (
+    Boolean(supabase && VAPID_PUBLIC_KEY) &&
+    typeof window !== 'undefined' &&
+    'PushManager' in window
+  )
+}
+
+/**
+ * Decode a base64url VAPID key for pushManager.subscribe
+ */
+function toApplicationServerKey(base64Url: string): BufferSource {
+  const base64 = (base64Url + '='.repeat((4 - (base64Url.length % 4)) % 4))
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+  const raw = window.atob(base64)
+  const bytes = new Uint8Array(raw.length)
+  for (let i = 0; i < raw.length; i++) bytes[i] = raw.charCodeAt(i)
+  return bytes
+}
+
+/**
+ * Schedule the notification as a push from the server
+ *
+ * Returns false when this browser has no usable push subscription.
+ */
+async function schedulePush(
+  registration: ServiceWorkerRegistration,
+  endAt: number,
+  { title, body }: { title: string; body: string }
+): Promise<boolean> {
+  if (!supabase || !VAPID_PUBLIC_KEY) return false
+
+  const subscription =
+    (await registration.pushManager.getSubscription()) ??
+    (await registration.pushManager.subscribe({
+      userVisibleOnly: true,
+      applicationServerKey: toApplicationServerKey(VAPID_PUBLIC_KEY),
+    }))
+  const { p256dh, auth } = subscription.toJSON().keys ?? {}
+  if (!p256dh || !auth) return false
+
+  const id = createId()
+  const { error } = await supabase.rpc('schedule_end_notification', {
+    notification_id: id,
+    endpoint: subscription.endpoint,
+    p256dh,
+    auth,
+    send_at: new Date(endAt).toISOString(),
+    title,
+    body,
+  })
+  if (error) throw new Error(error.message)
+
+  scheduledPushId = id
+  return true
+}
+
+/**
+ * Cancel the scheduled push, if there is one
+ */
+async function cancelPush(): Promise<void> {
+  const id = scheduledPushId
+  if (!id || !supabase) return
+
+  scheduledPushId = null
+  const { error } = await supabase.rpc('cancel_end_notification', {
+    notification_id: id,
+  })
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Schedule the end notification, replacing any already scheduled
+ *
+ * Does nothing unless notifications are enabled and permitted, and the
+ * service worker is running. Never registers the worker itself: that is
+ * left to ServiceWorkerRegistrar, which skips development builds.
+ */
+export async function scheduleEndNotification(
+  endAt: number,
+  content: { title: string; body: string }
+): Promise<void> {
+  if (!loadNotificationsEnabled()) return
+  if (getNotificationPermission() !== 'granted') return
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration()
+    const worker = registration?.active
+    if (!registration || !worker) return
+
+    worker.postMessage({ type: 'cancel-end' })
+    await cancelPush().catch(error =>
+      console.warn('Unable to cancel the previous end notification:', error)
+    )
+
+    if (isPushDeliveryAvailable()) {
+      try {
+        if (await schedulePush(registration, endAt, content)) return
+      } catch (error) {
+        console.warn('Unable to schedule the end notification push:', error)
+      }
+    }
+
+    // No push: fall back to the worker's own (best effort) timer
+    const message: ScheduleEndMessage = {
+      type: 'schedule-end',
+      endAt,
+      ...content,
+    }
+    worker.postMessage(message)
+  } catch (error) {
+    console.warn('Unable to schedule the end notification:', error)
+  }
+}
+
+/**
+ * Cancel a scheduled end notification (on pause, stop or when the in-page
+ * bell has already rung)
+ */
+export async function cancelEndNotification(): Promise<void> {
+  if (!isEndNotificationSupported()) return
+  if (getNotificationPermission() !== 'granted') return
+
+  try {
+    const registration = await navigator.serviceWorker.getRegistration()
+    registration?.active?.postMessage({ type: 'cancel-end' })
+    await cancelPush()
+  } catch (error) {
+    console.warn('Unable to cancel the end notification:', error)
+  }
+}
@@ -0,0 +1,232 @@
+/**
+ * Guest Import
+ *
+ * Someone who practiced as a guest and then signs in shouldn't lose that
+ * history. The first time an account is used on a device with guest data,
+ * the local sessions, presets and session programs are moved into the
+ * account, then cleared from the device - so the import happens once.
+ *
+ * - Everything is matched by its client-generated id, so records that are
+ *   already in the account are skipped rather than duplicated.
+ * - A guest preset whose name is already taken by a different preset in the
+ *   account is renamed ("Morning" becomes "Morning (2)"). If the two have
+ *   identical settings the guest copy is treated as the same preset.
+ * - Local data is only cleared after everything was handed over, so a
+ *   failed import is simply tried again next time.
+ *
+ * Settings in scope are the ones an account stores: session programs (the
+ * `user_settings` row) and presets, which carry the bell, interval bell and
+ * preparation choices - the timer has no separate default for those. The
+ * end notification preference is deliberately left out: it only works
+ * alongside the browser's notification permission, which is granted per
+ * device, so it stays on the device (see src/lib/endNotification.ts).
+ */
+
+import { TimerPreset } from '@/lib/presets'
+import { IntervalBell } from '@/lib/intervalBells'
+import { DEFAULT_PROGRAMS, SessionProgram } from '@/lib/sessionPrograms'
+import { PracticeStore, notifyPracticeChanged } from '@/lib/practiceStore'
+import { getLocalPracticeStore } from '@/lib/localPracticeStore'
+import { createSupabasePracticeStore } from '@/lib/supabasePracticeStore'
+
+/**
+ * What a guest import added to the account
+ */
+export interface GuestImportResult {
+  sessions: number // Sessions added to the history
+  presets: number // Presets added (including renamed ones)
+  programs: number // Session programs added
+  renamedPresets: { from: string; to: string }[] // Renamed to avoid a name clash
+}
+
+/**
+ * Name comparison ignores case and surrounding spaces
+ */
+function normalizeName(name: string): string {
+  return name.trim().toLowerCase()
+}
+
+/**
+ * Whether two interval bells ring the same way (ignoring their ids)
+ */
+function isSameIntervalBell(a: IntervalBell, b: IntervalBell): boolean {
+  if (a.sound !== b.sound || a.strikes !== b.strikes) return false
+  if (a.schedule.kind === 'repeating' && b.schedule.kind === 'repeating') {
+    return a.schedule.everyMinutes === b.schedule.everyMinutes
+  }
+  if (a.schedule.kind === 'offsets' && b.schedule.kind === 'offsets') {
+    const atMinutes = b.schedule.atMinutes
+    return (
+      a.schedule.atMinutes.length === atMinutes.length &&
+      a.schedule.atMinutes.every((minute, i) => minute === atMinutes[i])
+    )
+  }
+  return false
+}
+
+/**
+ * Whether two presets have the same settings (ignoring id and name)
+ *
+ * Compared field by field: presets saved by older versions can carry keys
+ * this version no longer knows about, or list them in another order.
+ */
+function haveSameSettings(a: TimerPreset, b: TimerPreset): boolean {
+  return (
+    a.durationMinutes === b.durationMinutes &&
+    a.preparationSeconds === b.preparationSeconds &&
+    a.ambientSound === b.ambientSound &&
+    a.programId === b.programId &&
+    a.bellSettings.sound === b.bellSettings.sound &&
+    a.bellSettings.volume === b.bellSettings.volume &&
+    a.bellSettings.fadeInMs === b.bellSettings.fadeInMs &&
+    a.intervalBells.length === b.intervalBells.length &&
+    a.intervalBells.every((bell, i) =>
+      isSameIntervalBell(bell, b.intervalBells[i])
+    )
+  )
+}
+
+/**
+ * Whether a session program is one of the built-in ones every device has
+ */
+function isDefaultProgram(program: SessionProgram): boolean {
+  return DEFAULT_PROGRAMS.some(d => d.id === program.id)
+}
+
+/**
+ * First free "Name (n)" variant of a preset name
+ */
+function getUniqueName(name: string, takenNames: Set<string>): string {
+  let suffix = 2
+  while (takenNames.has(normalizeName(`${name} (${suffix})`))) suffix += 1
+  return `${name} (${suffix})`
+}
+
+/**
+ * Whether the local store holds anything worth importing
+ */
+export async function hasGuestData(local: PracticeStore): Promise<boolean> {
+  const [sessions, presets, programs] = await Promise.all([
+    local.fetchSessions({ limit: 1 }),
+    local.loadPresets(),
+    local.loadPrograms(),
+  ])
+
+  return (
+    sessions.length > 0 ||
+    presets.length > 0 ||
+    programs.some(program => !isDefaultProgram(program))
+  )
+}
+
+/**
+ * Move guest data from the local store into an account's store
+ */
+export async function importGuestData(
+  local: PracticeStore,
+  remote: PracticeStore
+): Promise<GuestImportResult> {
+  const [localSessions, localPresets, localPrograms] = await Promise.all([
+    local.fetchSessions(),
+    local.loadPresets(),
+    local.loadPrograms(),
+  ])
+  const [remoteSessions, remotePresets, remotePrograms] = await Promise.all([
+    remote.fetchSessions(),
+    remote.loadPresets(),
+    remote.loadPrograms(),
+  ])
+
+  // Sessions: upload the ones the account doesn't have yet
+  const remoteSessionIds = new Set(remoteSessions.map(session => session.id))
+  const newSessions = localSessions.filter(
+    session => !remoteSessionIds.has(session.id)
+  )
+  for (const session of newSessions) {
+    await remote.recordSession(session)
+  }
+
+  // Presets: append new ones after the account's own, renaming clashes
+  const remotePresetIds = new Set(remotePresets.map(preset => preset.id))
+  const takenNames = new Set(remotePresets.map(p => normalizeName(p.name)))
+  const renamedPresets: GuestImportResult['renamedPresets'] = []
+  const newPresets: TimerPreset[] = []
+
+  localPresets.forEach(preset => {
+    if (remotePresetIds.has(preset.id)) return
+
+    const clash = remotePresets.find(
+      p => normalizeName(p.name) === normalizeName(preset.name)
+    )
+    if (clash && haveSameSettings(clash, preset)) return
+
+    const name = takenNames.has(normalizeName(preset.name))
+      ? getUniqueName(preset.name, takenNames)
+      : preset.name
+    if (name !== preset.name) {
+      renamedPresets.push({ from: preset.name, to: name })
+    }
+
+    takenNames.add(normalizeName(name))
+    newPresets.push({ ...preset, name })
+  })
+
+  if (newPresets.length > 0) {
+    await remote.savePresets([...remotePresets, ...newPresets])
+  }
+
+  // Programs: add the guest's own ones the account doesn't have yet (the
+  // built-in programs are not the guest's to import)
+  const remoteProgramIds = new Set(remotePrograms.map(program => program.id))
+  const newPrograms = localPrograms.filter(
+    program => !isDefaultProgram(program) && !remoteProgramIds.has(program.id)
+  )
+  if (newPrograms.length > 0) {
+    await remote.savePrograms([...remotePrograms, ...newPrograms])
+  }
+
+  // Everything is in the account now - clear the guest copy
+  for (const session of localSessions) {
+    await local.deleteSession(session.id)
+  }
+  await local.savePresets([])
+  await local.savePrograms(DEFAULT_PROGRAMS)
+
+  return {
+    sessions: newSessions.length,
+    presets: newPresets.length,
+    programs: newPrograms.length,
+    renamedPresets,
+  }
+}
+
+// Import in progress, shared by concurrent callers
+let runningImport: Promise<GuestImportResult | null> | null = null
+
+/**
+ * Import this device's guest data into a user's account, if there is any
+ *
+ * Resolves to null when there was nothing to import.
+ */
+export function importGuestDataForUser(
+  userId: string
+): Promise<GuestImportResult | null> {
+  if (runningImport) return runningImport
+
+  runningImport = (async () => {
+    try {
+      const local = getLocalPracticeStore()
+      if (!(await hasGuestData(local))) return null
+
+      const result = await importGuestData(
+        local,
+        createSupabasePracticeStore(userId)
+      )
+      notifyPracticeChanged()
+      return result
+    } finally {
+      runningImport = null
+    }
+  })()
+  return runningImport
+}
@@ -0,0 +1,117 @@
+/**
+ * IndexedDB Helpers
+ *
+ * The app keeps one IndexedDB database on the device with an object store
+ * per kind of record. This module owns the schema (add new stores here and
+ * bump DB_VERSION) and wraps each store in a small promise-based API.
+ *
+ * Where IndexedDB isn't available (server render, some private browsing
+ * modes) callers fall back to the in-memory store, which implements the
+ * same interface.
+ */
+
+const DB_NAME = 'meditation-timer'
+const DB_VERSION = 2
+
+/**
+ * Object stores and the key path of their records
+ */
+const STORES = {
+  'pending-sessions': 'session.id', // Sessions waiting to upload (v1)
+  sessions: 'id', // Guest practice history (v2)
+} as const
+
+export type StoreName = keyof typeof STORES
+
+/**
+ * Minimal key-value API over one object store
+ */
+export interface KeyedStore<T> {
+  put: (item: T) => Promise<void>
+  getAll: () => Promise<T[]>
+  remove: (key: string) => Promise<void>
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+// One connection shared by every store
+let dbPromise: Promise<IDBDatabase> | null = null
+
+/**
+ * Open (and create or upgrade on first use) the app database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return (dbPromise ??= new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION)
+
+    request.onupgradeneeded = () => {
+      const db = request.result
+      ;(Object.keys(STORES) as StoreName[]).forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: STORES[name] })
+        }
+      })
+    }
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  }))
+}
+
+/**
+ * IndexedDB-backed store
+ */
+export function createIndexedDbStore<T>(storeName: StoreName): KeyedStore<T> {
+  const withStore = async <R>(
+    mode: IDBTransactionMode,
+    run: (store: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await openDatabase()
+    const transaction = db.transaction(storeName, mode)
+    return requestToPromise(run(transaction.objectStore(storeName)))
+  }
+
+  return {
+    put: async item => {
+      await withStore('readwrite', store => store.put(item))
+    },
+    getAll: () => withStore<T[]>('readonly', store => store.getAll()),
+    remove: async key => {
+      await withStore('readwrite', store => store.delete(key))
+    },
+  }
+}
+
+/**
+ * In-memory store (fallback and test stand-in)
+ */
+export function createMemoryStore<T>(
+  getKey: (item: T) => string,
+  initial: T[] = []
+): KeyedStore<T> {
+  const items = new Map(initial.map(item => [getKey(item), item]))
+
+  return {
+    put: async item => {
+      items.set(getKey(item), item)
+    },
+    getAll: async () => Array.from(items.values()),
+    remove: async key => {
+      items.delete(key)
+    },
+  }
+}
+
+/**
+ * Whether IndexedDB can be used in this environment
+ */
+export function isIndexedDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined'
+}
@@ -0,0 +1,154 @@
+/**
+ * Interval Bells
+ *
+ * Soft marks that ring at fixed points during a session, on top of the
+ * completion bell. A bell either repeats ("every 15 min") or rings at a
+ * list of offsets ("at 5, 20, 40 min").
+ *
+ * Everything here is pure: the schedule is expanded into a flat list of
+ * marks, and the timer asks which marks are due for a given elapsed time.
+ * Because elapsed time comes from the timer engine (which excludes pauses),
+ * marks fire at the right point even across pause/resume.
+ */
+
+import { BELL_SOUNDS, BellSound } from '@/lib/bell'
+import { ValidationError, createFieldReader } from '@/lib/validation'
+
+/**
+ * When an interval bell rings
+ */
+export type IntervalBellSchedule =
+  | { kind: 'repeating'; everyMinutes: number }
+  | { kind: 'offsets'; atMinutes: number[] }
+
+/**
+ * A configured interval bell
+ */
+export interface IntervalBell {
+  id: string // Stable identifier (used to key fired marks)
+  schedule: IntervalBellSchedule
+  sound: BellSound // Which bell to play at each mark
+  strikes: number // How many times to strike it
+}
+
+/**
+ * A single point in the session where an interval bell rings
+ */
+export interface IntervalMark {
+  key: string // Unique per mark - `${bellId}@${atSeconds}`
+  bellId: string
+  atSeconds: number // Elapsed session time when the mark fires
+  sound: BellSound
+  strikes: number
+}
+
+/**
+ * Expand interval bells into a sorted list of marks
+ *
+ * Only marks strictly inside the session are kept - the completion bell
+ * already covers the planned end.
+ */
+export function getIntervalMarks(
+  bells: IntervalBell[],
+  durationSeconds: number
+): IntervalMark[] {
+  const marks: IntervalMark[] = []
+
+  bells.forEach(bell => {
+    const offsets: number[] = []
+
+    if (bell.schedule.kind === 'repeating') {
+      const step = bell.schedule.everyMinutes * 60
+      if (step > 0) {
+        for (let at = step; at < durationSeconds; at += step) {
+          offsets.push(at)
+        }
+      }
+    } else {
+      bell.schedule.atMinutes.forEach(minutes => {
+        offsets.push(Math.round(minutes * 60))
+      })
+    }
+
+    Array.from(new Set(offsets))
+      .filter(at => at > 0 && at < durationSeconds)
+      .forEach(at => {
+        marks.push({
+          key: `${bell.id}@${at}`,
+          bellId: bell.id,
+          atSeconds: at,
+          sound: bell.sound,
+          strikes: Math.max(1, bell.strikes),
+        })
+      })
+  })
+
+  return marks.sort((a, b) => a.atSeconds - b.atSeconds)
+}
+
+/**
+ * Find marks that are due and haven't fired yet
+ *
+ * @param marks - Output of getIntervalMarks()
+ * @param elapsedSeconds - Active session time from the timer engine
+ * @param firedKeys - Keys of marks that already rang this session
+ */
+export function getDueMarks(
+  marks: IntervalMark[],
+  elapsedSeconds: number,
+  firedKeys: ReadonlySet<string>
+): IntervalMark[] {
+  return marks.filter(
+    mark => mark.atSeconds <= elapsedSeconds && !firedKeys.has(mark.key)
+  )
+}
+
+/**
+ * Parse a comma-separated list of minutes ("5, 20, 40")
+ *
+ * Invalid or non-positive entries are dropped.
+ */
+export function parseOffsetMinutes(value: string): number[] {
+  return value
+    .split(',')
+    .map(part => parseFloat(part.trim()))
+    .filter(minutes => Number.isFinite(minutes) && minutes > 0)
+}
+
+/**
+ * Read interval bells from a stored JSON payload (e.g. a preset's
+ * `interval_bells` column). Entries that don't describe a valid bell are
+ * dropped.
+ */
+export function parseIntervalBells(value: unknown): IntervalBell[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((item, index): IntervalBell[] => {
+    try {
+      const bell = createFieldReader(item, `interval bell ${index}`)
+      const schedule = createFieldReader(
+        (item as Record<string, unknown>).schedule,
+        `interval bell ${index} schedule`
+      )
+      const kind = schedule.oneOf('kind', ['repeating', 'offsets'] as const)
+
+      return [
+        {
+          id: bell.string('id'),
+          schedule:
+            kind === 'repeating'
+              ? { kind, everyMinutes: schedule.number('everyMinutes') }
+              : {
+                  kind,
+                  atMinutes: schedule.optionalNumberArray('atMinutes') ?? [],
+                },
+          sound: bell.oneOf('sound', Object.keys(BELL_SOUNDS) as BellSound[]),
+          strikes: bell.number('strikes'),
+        },
+      ]
+    } catch (error) {
+      if (error instanceof ValidationError) return []
+      throw error
+    }
+  })
+}
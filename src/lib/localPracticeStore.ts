@@ -0,0 +1,74 @@
+/**
+ * Local Practice Store
+ *
+ * PracticeStore adapter that keeps everything on this device: presets and
+ * programs in localStorage, session history in IndexedDB (in memory where IndexedDB
+ * is unavailable). Used for guests and in local-only mode.
+ */
+
+import {
+  KeyedStore,
+  createIndexedDbStore,
+  createMemoryStore,
+  isIndexedDbAvailable,
+} from '@/lib/indexedDb'
+import { loadLocalPresets, saveLocalPresets } from '@/lib/presets'
+import { loadPrograms, savePrograms } from '@/lib/sessionPrograms'
+import type { PracticeStore } from '@/lib/practiceStore'
+import { MeditationSession } from '@/types/timer'
+
+/**
+ * Storage behind the local session history
+ */
+export type LocalSessionStore = KeyedStore<MeditationSession>
+
+/**
+ * Pick the best available session store for this environment
+ */
+export function createDefaultLocalSessionStore(): LocalSessionStore {
+  if (isIndexedDbAvailable()) {
+    return createIndexedDbStore<MeditationSession>('sessions')
+  }
+  return createMemoryStore<MeditationSession>(session => session.id)
+}
+
+export function createLocalPracticeStore(
+  sessions: LocalSessionStore = createDefaultLocalSessionStore()
+): PracticeStore {
+  return {
+    kind: 'local',
+
+    loadPresets: async () => loadLocalPresets(),
+    savePresets: async presets => saveLocalPresets(presets),
+    deletePreset: async (_presetId, remaining) => saveLocalPresets(remaining),
+
+    loadPrograms: async () => loadPrograms(),
+    savePrograms: async programs => savePrograms(programs),
+
+    recordSession: session => sessions.put(session),
+
+    // Same filtering and order as the Supabase query (newest first)
+    fetchSessions: async ({ from, to, limit } = {}) => {
+      const matching = (await sessions.getAll())
+        .filter(session => !from || session.startedAt >= from)
+        .filter(session => !to || session.startedAt < to)
+        .sort((a, b) => b.startedAt.localeCompare(a.startedAt))
+      return limit ? matching.slice(0, limit) : matching
+    },
+
+    deleteSession: sessionId => sessions.remove(sessionId),
+  }
+}
+
+// App-wide instance, so the in-memory fallback is shared
+let defaultLocalPracticeStore: PracticeStore | null = null
+
+/**
+ * Get the app-wide local store
+ */
+export function getLocalPracticeStore(): PracticeStore {
+  if (!defaultLocalPracticeStore) {
+    defaultLocalPracticeStore = createLocalPracticeStore()
+  }
+  return defaultLocalPracticeStore
+}
@@ -0,0 +1,132 @@
+/**
+ * Markdown Blocks
+ *
+ * Splits blog Markdown into the block-level pieces the entry page renders:
+ * headings, paragraphs, lists, quotes, fenced code and rules. Inline
+ * formatting (emphasis, code, links, images) is left in the text and
+ * handled when rendering, so nothing here ever becomes raw HTML.
+ */
+
+export type MarkdownBlock =
+  | { kind: 'heading'; level: number; text: string } // level 1-6
+  | { kind: 'paragraph'; text: string }
+  | { kind: 'list'; ordered: boolean; items: string[] }
+  | { kind: 'quote'; text: string }
+  | { kind: 'code'; language?: string; code: string }
+  | { kind: 'rule' }
+
+const HEADING = /^(#{1,6})\s+(.*?)\s*#*$/
+const RULE = /^(?:-{3,}|\*{3,}|_{3,})$/
+const FENCE = /^```\s*(\S*)/
+const QUOTE = /^>\s?/
+const UNORDERED_ITEM = /^[-*+]\s+/
+const ORDERED_ITEM = /^\d+[.)]\s+/
+
+/**
+ * Whether a line ends the paragraph before it
+ */
+function startsBlock(line: string): boolean {
+  return (
+    HEADING.test(line) ||
+    RULE.test(line) ||
+    FENCE.test(line) ||
+    QUOTE.test(line) ||
+    UNORDERED_ITEM.test(line) ||
+    ORDERED_ITEM.test(line)
+  )
+}
+
+/**
+ * Split Markdown into blocks, in document order
+ */
+export function parseMarkdown(source: string): MarkdownBlock[] {
+  const lines = source.replace(/\r\n?/g, '\n').split('\n')
+  const blocks: MarkdownBlock[] = []
+  let index = 0
+
+  while (index < lines.length) {
+    const line = lines[index].trim()
+
+    if (line === '') {
+      index++
+      continue
+    }
+
+    const fence = FENCE.exec(line)
+    if (fence) {
+      const code: string[] = []
+      index++
+      while (index < lines.length && !lines[index].trim().startsWith('```')) {
+        code.push(lines[index])
+        index++
+      }
+      index++ // Skip the closing fence (if there is one)
+      blocks.push({
+        kind: 'code',
+        language: fence[1] || undefined,
+        code: code.join('\n'),
+      })
+      continue
+    }
+
+    const heading = HEADING.exec(line)
+    if (heading) {
+      blocks.push({
+        kind: 'heading',
+        level: heading[1].length,
+        text: heading[2],
+      })
+      index++
+      continue
+    }
+
+    if (RULE.test(line)) {
+      blocks.push({ kind: 'rule' })
+      index++
+      continue
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = []
+      while (index < lines.length && QUOTE.test(lines[index].trim())) {
+        quoted.push(lines[index].trim().replace(QUOTE, ''))
+        index++
+      }
+      blocks.push({ kind: 'quote', text: quoted.join('\n') })
+      continue
+    }
+
+    const itemPattern = UNORDERED_ITEM.test(line)
+      ? UNORDERED_ITEM
+      : ORDERED_ITEM.test(line)
+        ? ORDERED_ITEM
+        : null
+    if (itemPattern) {
+      const items: string[] = []
+      while (index < lines.length && itemPattern.test(lines[index].trim())) {
+        items.push(lines[index].trim().replace(itemPattern, ''))
+        index++
+      }
+      blocks.push({
+        kind: 'list',
+        ordered: itemPattern === ORDERED_ITEM,
+        items,
+      })
+      continue
+    }
+
+    // Paragraph: consecutive lines up to a blank line or another block
+    const paragraph: string[] = []
+    while (
+      index < lines.length &&
+      lines[index].trim() !== '' &&
+      (paragraph.length === 0 || !startsBlock(lines[index].trim()))
+    ) {
+      paragraph.push(lines[index].trim())
+      index++
+    }
+    blocks.push({ kind: 'paragraph', text: paragraph.join('\n') })
+  }
+
+  return blocks
+}
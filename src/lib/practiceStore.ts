@@ -0,0 +1,72 @@
+/**
+ * Practice Store
+ *
+ * One interface for everything the app saves about a user's practice -
+ * timer presets, session programs and session history - with two adapters
+ * behind it:
+ *
+ * - Local (src/lib/localPracticeStore.ts): localStorage + IndexedDB on
+ *   this device. Used for guests, and always when Supabase isn't configured.
+ * - Supabase (src/lib/supabasePracticeStore.ts): the signed-in user's
+ *   account, with sessions uploaded through the offline sync queue.
+ *
+ * Components and hooks ask for a store with getPracticeStore() and never
+ * need to know which one they got.
+ */
+
+import { isSupabaseConfigured } from '@/lib/supabase'
+import { TimerPreset } from '@/lib/presets'
+import { SessionProgram } from '@/lib/sessionPrograms'
+import { FetchSessionsOptions } from '@/lib/sessions'
+import { getLocalPracticeStore } from '@/lib/localPracticeStore'
+import { createSupabasePracticeStore } from '@/lib/supabasePracticeStore'
+import { MeditationSession } from '@/types/timer'
+
+export interface PracticeStore {
+  kind: 'local' | 'supabase'
+
+  // Presets, in chip order
+  loadPresets: () => Promise<TimerPreset[]>
+  savePresets: (presets: TimerPreset[]) => Promise<void>
+  deletePreset: (presetId: string, remaining: TimerPreset[]) => Promise<void>
+
+  // Saved session programs
+  loadPrograms: () => Promise<SessionProgram[]>
+  savePrograms: (programs: SessionProgram[]) => Promise<void>
+
+  // Session history
+  recordSession: (session: MeditationSession) => Promise<void>
+  fetchSessions: (
+    options?: FetchSessionsOptions
+  ) => Promise<MeditationSession[]>
+  deleteSession: (sessionId: string) => Promise<void>
+}
+
+/**
+ * Pick the store for the current configuration and user
+ */
+export function getPracticeStore(userId: string | null): PracticeStore {
+  if (isSupabaseConfigured && userId) {
+    return createSupabasePracticeStore(userId)
+  }
+  return getLocalPracticeStore()
+}
+
+// Listeners told when stored practice data changed behind the hooks' backs
+const changeListeners = new Set<() => void>()
+
+/**
+ * Be told when practice data changes outside the usual hooks (e.g. after a
+ * guest import), so loaded data can be refreshed
+ */
+export function subscribeToPracticeChanges(listener: () => void): () => void {
+  changeListeners.add(listener)
+  return () => changeListeners.delete(listener)
+}
+
+/**
+ * Tell subscribers that practice data has changed
+ */
+export function notifyPracticeChanged(): void {
+  changeListeners.forEach(listener => listener())
+}
@@ -0,0 +1,194 @@
+/**
+ * Timer Presets
+ *
+ * Named timer configurations ("Morning 20", "Evening 45 + intervals") that
+ * capture duration, bells, preparation time and ambient sound.
+ *
+ * Presets are stored in localStorage for anonymous users and in the
+ * `timer_presets` Supabase table for signed-in users. The order of the
+ * array is the order of the quick-start chips.
+ */
+
+import { requireSupabase } from '@/lib/supabase'
+import { ValidationError, createFieldReader, toJson } from '@/lib/validation'
+import { AMBIENT_SOUNDS, AmbientSound } from '@/lib/ambient'
+import { BellSettings, parseBellSettings } from '@/lib/bell'
+import { IntervalBell, parseIntervalBells } from '@/lib/intervalBells'
+import type { Tables, TablesInsert } from '@/types/supabase'
+
+/**
+ * A saved timer configuration
+ */
+export interface TimerPreset {
+  id: string // Client-generated UUID
+  name: string // Chip label
+  durationMinutes: number
+  preparationSeconds: number
+  ambientSound: AmbientSound
+  programId: string | null // Saved session program, if any
+  bellSettings: BellSettings
+  intervalBells: IntervalBell[]
+}
+
+/**
+ * Row shape of the `timer_presets` table
+ */
+type TimerPresetRow = Tables<'timer_presets'>
+
+const STORAGE_KEY = 'meditation-timer:presets'
+
+/**
+ * Ambient sound stored in a row, falling back to silence for unknown values
+ */
+function toAmbientSound(value: string): AmbientSound {
+  return value in AMBIENT_SOUNDS ? (value as AmbientSound) : 'none'
+}
+
+/**
+ * Convert a database row into a preset
+ *
+ * The JSONB columns are checked on the way in; invalid bell settings fall
+ * back to the defaults and invalid interval bells are dropped.
+ */
+function fromRow(row: TimerPresetRow): TimerPreset {
+  return {
+    id: row.id,
+    name: row.name,
+    durationMinutes: row.duration_minutes,
+    preparationSeconds: row.preparation_seconds,
+    ambientSound: toAmbientSound(row.ambient_sound),
+    programId: row.program_id,
+    bellSettings: parseBellSettings(row.bell_settings),
+    intervalBells: parseIntervalBells(row.interval_bells),
+  }
+}
+
+/**
+ * Convert a preset into a database row
+ */
+function toRow(
+  preset: TimerPreset,
+  userId: string,
+  position: number
+): TablesInsert<'timer_presets'> {
+  return {
+    id: preset.id,
+    user_id: userId,
+    name: preset.name,
+    position,
+    duration_minutes: preset.durationMinutes,
+    preparation_seconds: preset.preparationSeconds,
+    ambient_sound: preset.ambientSound,
+    program_id: preset.programId,
+    bell_settings: toJson(preset.bellSettings),
+    interval_bells: toJson(preset.intervalBells),
+  }
+}
+
+/**
+ * Read presets saved on this device
+ *
+ * Checked like database rows: a preset without a valid id, name or timing
+ * is dropped, and the bell and ambient settings fall back the same way.
+ */
+export function parseLocalPresets(value: unknown): TimerPreset[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((item, index): TimerPreset[] => {
+    try {
+      const preset = createFieldReader(item, `preset ${index}`)
+      const fields = item as Record<string, unknown>
+
+      return [
+        {
+          id: preset.string('id'),
+          name: preset.string('name'),
+          durationMinutes: preset.number('durationMinutes'),
+          preparationSeconds: preset.number('preparationSeconds'),
+          ambientSound: toAmbientSound(
+            preset.optionalString('ambientSound') ?? 'none'
+          ),
+          programId: preset.optionalString('programId') ?? null,
+          bellSettings: parseBellSettings(fields.bellSettings),
+          intervalBells: parseIntervalBells(fields.intervalBells),
+        },
+      ]
+    } catch (error) {
+      if (error instanceof ValidationError) return []
+      throw error
+    }
+  })
+}
+
+/**
+ * Load presets saved on this device
+ */
+export function loadLocalPresets(): TimerPreset[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    return stored ? parseLocalPresets(JSON.parse(stored)) : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Save the full, ordered list of presets on this device
+ */
+export function saveLocalPresets(presets: TimerPreset[]): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(presets))
+  } catch (error) {
+    console.warn('Unable to save presets:', error)
+  }
+}
+
+/**
+ * Load a signed-in user's presets, in chip order
+ */
+export async function fetchRemotePresets(
+  userId: string
+): Promise<TimerPreset[]> {
+  const { data, error } = await requireSupabase()
+    .from('timer_presets')
+    .select('*')
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+
+  if (error) throw new Error(error.message)
+  return data.map(fromRow)
+}
+
+/**
+ * Save the full, ordered list of a signed-in user's presets
+ *
+ * Upserting every preset keeps `position` in sync after a reorder.
+ */
+export async function saveRemotePresets(
+  userId: string,
+  presets: TimerPreset[]
+): Promise<void> {
+  if (presets.length === 0) return
+
+  const { error } = await requireSupabase()
+    .from('timer_presets')
+    .upsert(presets.map((preset, index) => toRow(preset, userId, index)))
+
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Delete one of a signed-in user's presets
+ */
+export async function deleteRemotePreset(presetId: string): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('timer_presets')
+    .delete()
+    .eq('id', presetId)
+
+  if (error) throw new Error(error.message)
+}
@@ -0,0 +1,60 @@
+/**
+ * Service Worker Registration
+ *
+ * The service worker (public/sw.js) precaches the app shell and sounds so
+ * the timer boots with no network, and delivers end-of-session
+ * notifications (src/lib/endNotification.ts).
+ *
+ * Never registered in development, where caching would serve stale
+ * (unhashed) dev bundles.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js'
+
+// Cache the worker keeps visited pages in (`pages-<version>`)
+const PAGE_CACHE_PREFIX = 'pages-'
+
+/**
+ * Whether this browser supports service workers
+ */
+export function isServiceWorkerSupported(): boolean {
+  return typeof navigator !== 'undefined' && 'serviceWorker' in navigator
+}
+
+/**
+ * Register the service worker (safe to call repeatedly, and does nothing
+ * outside production builds)
+ */
+export async function registerServiceWorker(): Promise<ServiceWorkerRegistration | null> {
+  if (!isServiceWorkerSupported()) return null
+  if (process.env.NODE_ENV !== 'production') return null
+
+  try {
+    return await navigator.serviceWorker.register(SERVICE_WORKER_URL)
+  } catch (error) {
+    console.warn('Unable to register service worker:', error)
+    return null
+  }
+}
+
+/**
+ * Drop the pages the service worker cached while browsing
+ *
+ * They were rendered for whoever was signed in - premium pages included -
+ * so they must not stay behind for the next person on the device. The
+ * precached shell, sounds and build assets are kept. Never rejects.
+ */
+export async function clearPageCache(): Promise<void> {
+  if (typeof caches === 'undefined') return
+
+  try {
+    const keys = await caches.keys()
+    await Promise.all(
+      keys
+        .filter(key => key.startsWith(PAGE_CACHE_PREFIX))
+        .map(key => caches.delete(key))
+    )
+  } catch (error) {
+    console.warn('Unable to clear cached pages:', error)
+  }
+}
@@ -0,0 +1,268 @@
+/**
+ * Session Programs
+ *
+ * A program is an ordered list of segments (e.g. settle, breath, body scan,
+ * open awareness) that together make up one structured sit. The timer runs
+ * the whole program as a single countdown; the helpers here work out which
+ * segment is active at a given elapsed time and where transition bells ring.
+ *
+ * Programs are saved to localStorage so they can be reused, and to the
+ * `user_settings` Supabase table for signed-in users.
+ */
+
+import { requireSupabase } from '@/lib/supabase'
+import { BELL_SOUNDS, BellSound } from '@/lib/bell'
+import { IntervalMark } from '@/lib/intervalBells'
+import { ValidationError, createFieldReader, toJson } from '@/lib/validation'
+
+/**
+ * One part of a structured sit
+ */
+export interface ProgramSegment {
+  id: string
+  name: string // Shown while the segment is active
+  durationMinutes: number // Length of this segment
+  transitionBell?: BellSound // Rung when this segment begins
+  cue?: string // Optional on-screen instruction
+}
+
+/**
+ * A saved, reusable sequence of segments
+ */
+export interface SessionProgram {
+  id: string
+  name: string
+  segments: ProgramSegment[]
+}
+
+/**
+ * Where the session currently is within a program
+ */
+export interface ProgramPosition {
+  index: number // Index of the active segment
+  segment: ProgramSegment
+  segmentRemainingSeconds: number // Countdown for the active segment
+  progress: number // Overall progress through the program, 0 to 1
+}
+
+const STORAGE_KEY = 'meditation-timer:programs'
+
+/**
+ * Built-in program, offered until the user saves their own
+ */
+export const DEFAULT_PROGRAMS: SessionProgram[] = [
+  {
+    id: 'guided-structure',
+    name: 'Guided structure',
+    segments: [
+      {
+        id: 'settle',
+        name: 'Settle',
+        durationMinutes: 3,
+        cue: 'Find your posture and let the body become still',
+      },
+      {
+        id: 'breath',
+        name: 'Breath',
+        durationMinutes: 10,
+        transitionBell: 'chime',
+        cue: 'Rest attention on the breath',
+      },
+      {
+        id: 'body-scan',
+        name: 'Body scan',
+        durationMinutes: 10,
+        transitionBell: 'chime',
+        cue: 'Move attention slowly from head to feet',
+      },
+      {
+        id: 'open-awareness',
+        name: 'Open awareness',
+        durationMinutes: 7,
+        transitionBell: 'chime',
+        cue: 'Let attention rest on whatever arises',
+      },
+    ],
+  },
+]
+
+/**
+ * Total planned length of a program in seconds
+ */
+export function getProgramDurationSeconds(program: SessionProgram): number {
+  return program.segments.reduce(
+    (total, segment) => total + Math.round(segment.durationMinutes * 60),
+    0
+  )
+}
+
+/**
+ * Find the active segment for a given elapsed time
+ *
+ * Returns null for an empty program. Once the program is over, the last
+ * segment stays active with 0 seconds remaining.
+ */
+export function getProgramPosition(
+  program: SessionProgram,
+  elapsedSeconds: number
+): ProgramPosition | null {
+  if (program.segments.length === 0) return null
+
+  const totalSeconds = getProgramDurationSeconds(program)
+  let segmentStart = 0
+
+  for (let index = 0; index < program.segments.length; index++) {
+    const segment = program.segments[index]
+    const segmentEnd = segmentStart + Math.round(segment.durationMinutes * 60)
+    const isLast = index === program.segments.length - 1
+
+    if (elapsedSeconds < segmentEnd || isLast) {
+      return {
+        index,
+        segment,
+        segmentRemainingSeconds: Math.max(0, segmentEnd - elapsedSeconds),
+        progress:
+          totalSeconds > 0 ? Math.min(1, elapsedSeconds / totalSeconds) : 1,
+      }
+    }
+
+    segmentStart = segmentEnd
+  }
+
+  return null
+}
+
+/**
+ * Transition bells as interval marks
+ *
+ * Lets the timer ring segment transitions through the same
+ * fire-exactly-once logic as interval bells.
+ */
+export function getProgramMarks(program: SessionProgram): IntervalMark[] {
+  const marks: IntervalMark[] = []
+  let segmentStart = 0
+
+  program.segments.forEach(segment => {
+    if (segment.transitionBell && segmentStart > 0) {
+      marks.push({
+        key: `${program.id}:${segment.id}@${segmentStart}`,
+        bellId: `${program.id}:${segment.id}`,
+        atSeconds: segmentStart,
+        sound: segment.transitionBell,
+        strikes: 1,
+      })
+    }
+    segmentStart += Math.round(segment.durationMinutes * 60)
+  })
+
+  return marks
+}
+
+/**
+ * Load saved programs (falls back to the built-in ones)
+ *
+ * Checked with the same parser as an account's programs, so invalid ones
+ * are dropped.
+ */
+export function loadPrograms(): SessionProgram[] {
+  if (typeof window === 'undefined') return DEFAULT_PROGRAMS
+
+  try {
+    const stored = window.localStorage.getItem(STORAGE_KEY)
+    const parsed: unknown = stored ? JSON.parse(stored) : null
+    return Array.isArray(parsed)
+      ? parseSessionPrograms(parsed)
+      : DEFAULT_PROGRAMS
+  } catch {
+    return DEFAULT_PROGRAMS
+  }
+}
+
+/**
+ * Save the full list of programs
+ */
+export function savePrograms(programs: SessionProgram[]): void {
+  if (typeof window === 'undefined') return
+
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(programs))
+  } catch (error) {
+    console.warn('Unable to save programs:', error)
+  }
+}
+
+/**
+ * Load a signed-in user's programs (the built-in ones until they save their own)
+ */
+export async function fetchRemotePrograms(
+  userId: string
+): Promise<SessionProgram[]> {
+  const { data, error } = await requireSupabase()
+    .from('user_settings')
+    .select('session_programs')
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) throw new Error(error.message)
+  return data ? parseSessionPrograms(data.session_programs) : DEFAULT_PROGRAMS
+}
+
+/**
+ * Save the full list of a signed-in user's programs
+ */
+export async function saveRemotePrograms(
+  userId: string,
+  programs: SessionProgram[]
+): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('user_settings')
+    .upsert({ user_id: userId, session_programs: toJson(programs) })
+
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Read saved programs from a stored JSON payload (the `session_programs`
+ * column). Programs that don't have a valid shape are dropped.
+ */
+export function parseSessionPrograms(value: unknown): SessionProgram[] {
+  if (!Array.isArray(value)) return []
+
+  return value.flatMap((item, index): SessionProgram[] => {
+    try {
+      const program = createFieldReader(item, `program ${index}`)
+      const segments = (item as Record<string, unknown>).segments
+      if (!Array.isArray(segments) || segments.length === 0) {
+        throw new ValidationError(`program ${index} has no segments`)
+      }
+
+      return [
+        {
+          id: program.string('id'),
+          name: program.string('name'),
+          segments: segments.map((segmentItem, segmentIndex) => {
+            const segment = createFieldReader(
+              segmentItem,
+              `program ${index} segment ${segmentIndex}`
+            )
+            const transitionBell = segment.optionalString('transitionBell')
+
+            return {
+              id: segment.string('id'),
+              name: segment.string('name'),
+              durationMinutes: segment.number('durationMinutes'),
+              transitionBell:
+                transitionBell && transitionBell in BELL_SOUNDS
+                  ? (transitionBell as BellSound)
+                  : undefined,
+              cue: segment.optionalString('cue'),
+            }
+          }),
+        },
+      ]
+    } catch (error) {
+      if (error instanceof ValidationError) return []
+      throw error
+    }
+  })
+}
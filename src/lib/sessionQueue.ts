@@ -0,0 +1,63 @@
+/**
+ * Pending Session Queue
+ *
+ * Sessions are written here first, on the device, and uploaded to Supabase
+ * later by the sync module (src/lib/sessionSync.ts). That way a session
+ * finished with no signal is never lost.
+ *
+ * The queue is backed by IndexedDB. Where IndexedDB isn't available
+ * (server render, some private browsing modes) an in-memory store is used.
+ * Both implement the same SessionQueueStore interface, which is also what
+ * tests use as a local stand-in.
+ */
+
+import {
+  KeyedStore,
+  createIndexedDbStore,
+  createMemoryStore,
+  isIndexedDbAvailable,
+} from '@/lib/indexedDb'
+import { MeditationSession } from '@/types/timer'
+
+/**
+ * A session waiting to be uploaded
+ */
+export interface PendingSession {
+  session: MeditationSession
+  userId: string // Account the session belongs to (captured when recorded)
+  attempts: number // Failed upload attempts so far
+  nextAttemptAt: number // Clock time (ms) before which we shouldn't retry
+  parked?: boolean // Refused by the database - only retried when forced
+}
+
+/**
+ * Storage behind the queue, keyed by session id (so re-queuing the same
+ * session overwrites it)
+ */
+export type SessionQueueStore = KeyedStore<PendingSession>
+
+/**
+ * IndexedDB-backed queue store
+ */
+export function createIndexedDbQueueStore(): SessionQueueStore {
+  return createIndexedDbStore<PendingSession>('pending-sessions')
+}
+
+/**
+ * In-memory queue store (fallback and test stand-in)
+ */
+export function createMemoryQueueStore(
+  initial: PendingSession[] = []
+): SessionQueueStore {
+  return createMemoryStore(item => item.session.id, initial)
+}
+
+/**
+ * Pick the best available store for this environment
+ */
+export function createDefaultQueueStore(): SessionQueueStore {
+  if (isIndexedDbAvailable()) {
+    return createIndexedDbQueueStore()
+  }
+  return createMemoryQueueStore()
+}
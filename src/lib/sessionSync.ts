@@ -0,0 +1,319 @@
+/**
+ * Session Sync
+ *
+ * Uploads queued sessions (src/lib/sessionQueue.ts) to Supabase in the
+ * background, so recording a session never depends on having a signal.
+ *
+ * - Uploads are idempotent: sessions carry a client-generated id and are
+ *   upserted with ON CONFLICT (id) DO NOTHING, so a retry after a lost
+ *   response can never create a duplicate.
+ * - Failed uploads are retried with exponential backoff.
+ * - Only the signed-in user's sessions are uploaded; anyone else's wait
+ *   on the device until that account signs in again.
+ * - An upload the database refuses (row-level security, bad token) is
+ *   parked rather than retried, as retrying can't change the answer. A
+ *   forced sync (Sync now, coming back online) tries it once more.
+ * - Syncing restarts immediately when the browser comes back online.
+ *
+ * The store, client, user and clock are injected so the sync logic can be
+ * exercised against a local stand-in for the Supabase client.
+ */
+
+import { requireSupabase } from '@/lib/supabase'
+import { Clock } from '@/lib/timerEngine'
+import { MeditationSessionInsert, toSessionRow } from '@/lib/sessions'
+import {
+  PendingSession,
+  SessionQueueStore,
+  createDefaultQueueStore,
+} from '@/lib/sessionQueue'
+import { MeditationSession } from '@/types/timer'
+
+/**
+ * The part of the Supabase client that sync needs
+ */
+export interface SessionSyncClient {
+  from: (table: string) => {
+    upsert: (
+      rows: MeditationSessionInsert[],
+      options: { onConflict: string; ignoreDuplicates: boolean }
+    ) => PromiseLike<{ error: SyncError | null }>
+  }
+}
+
+/**
+ * Error returned by an upload (a PostgREST error)
+ */
+export interface SyncError {
+  message: string
+  code?: string // Postgres or PostgREST error code
+}
+
+// Codes for an upload the database refuses outright: row-level security
+// or privileges (42501) and a missing or invalid JWT (PGRST301/PGRST302)
+const PERMISSION_ERROR_CODES = ['42501', 'PGRST301', 'PGRST302']
+
+/**
+ * Whether retrying an upload that failed with this error can't help
+ */
+export function isPermissionError(error: SyncError): boolean {
+  return error.code !== undefined && PERMISSION_ERROR_CODES.includes(error.code)
+}
+
+/**
+ * Outcome of one sync pass
+ */
+export interface SyncResult {
+  synced: number // Sessions uploaded (or already present) and removed from the queue
+  failed: number // Sessions whose upload failed this pass (parked ones included)
+  remaining: number // Sessions still queued afterwards
+  nextAttemptAt: number | null // Earliest scheduled retry, if any remain
+}
+
+// Retry delays double from BASE up to MAX
+export const BASE_RETRY_DELAY_MS = 2000
+export const MAX_RETRY_DELAY_MS = 5 * 60 * 1000
+
+/**
+ * Backoff delay after a given number of failed attempts
+ */
+export function getRetryDelayMs(attempts: number): number {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * Math.pow(2, Math.max(0, attempts - 1)),
+    MAX_RETRY_DELAY_MS
+  )
+}
+
+/**
+ * Add a session to the queue, ready to upload straight away
+ */
+export async function enqueueSession(
+  store: SessionQueueStore,
+  session: MeditationSession,
+  userId: string,
+  now: number
+): Promise<void> {
+  await store.put({ session, userId, attempts: 0, nextAttemptAt: now })
+}
+
+/**
+ * Upload every queued session of the signed-in user that is due
+ *
+ * @param userId - The signed-in user (null when signed out: nothing uploads)
+ * @param force - Ignore backoff and retry parked sessions (e.g. on reconnect)
+ */
+export async function syncPendingSessions({
+  store,
+  client,
+  userId,
+  now,
+  force = false,
+}: {
+  store: SessionQueueStore
+  client: SessionSyncClient
+  userId: string | null
+  now: number
+  force?: boolean
+}): Promise<SyncResult> {
+  const pending = await store.getAll()
+  let synced = 0
+  let failed = 0
+  const retryTimes: number[] = []
+
+  for (const item of pending) {
+    // The database only accepts a user's own sessions
+    if (item.userId !== userId) continue
+    if (!force && item.parked) continue
+
+    if (!force && item.nextAttemptAt > now) {
+      retryTimes.push(item.nextAttemptAt)
+      continue
+    }
+
+    let refused = false
+    try {
+      const { error } = await client
+        .from('meditation_sessions')
+        .upsert([toSessionRow(item.session, item.userId)], {
+          onConflict: 'id',
+          ignoreDuplicates: true,
+        })
+      if (error) {
+        refused = isPermissionError(error)
+        throw new Error(error.message)
+      }
+
+      await store.remove(item.session.id)
+      synced += 1
+    } catch {
+      const attempts = item.attempts + 1
+      failed += 1
+
+      if (refused) {
+        await store.put({ ...item, attempts, parked: true })
+        continue
+      }
+
+      const retried: PendingSession = {
+        ...item,
+        attempts,
+        parked: false,
+        nextAttemptAt: now + getRetryDelayMs(attempts),
+      }
+      await store.put(retried)
+      retryTimes.push(retried.nextAttemptAt)
+    }
+  }
+
+  return {
+    synced,
+    failed,
+    remaining: pending.length - synced,
+    nextAttemptAt: retryTimes.length > 0 ? Math.min(...retryTimes) : null,
+  }
+}
+
+/**
+ * Session Sync Controller
+ *
+ * Owns the queue, schedules retries and notifies listeners when the
+ * number of unsynced sessions changes.
+ */
+export interface SessionSync {
+  record: (session: MeditationSession, userId: string) => Promise<void>
+  sync: (force?: boolean) => Promise<void>
+  getPendingCount: () => Promise<number>
+  subscribe: (listener: (pendingCount: number) => void) => () => void
+  dispose: () => void
+}
+
+export function createSessionSync({
+  store,
+  client,
+  getUserId,
+  clock = Date.now,
+}: {
+  store: SessionQueueStore
+  client: SessionSyncClient
+  getUserId: () => Promise<string | null> // The signed-in user, if any
+  clock?: Clock
+}): SessionSync {
+  const listeners = new Set<(pendingCount: number) => void>()
+  let retryTimeout: ReturnType<typeof setTimeout> | null = null
+  let running: Promise<void> | null = null
+  let forcedFollowUp: Promise<void> | null = null
+
+  const getPendingCount = async () => (await store.getAll()).length
+
+  const notify = async () => {
+    const count = await getPendingCount()
+    listeners.forEach(listener => listener(count))
+  }
+
+  const scheduleRetry = (nextAttemptAt: number | null) => {
+    if (retryTimeout) clearTimeout(retryTimeout)
+    retryTimeout = null
+    if (nextAttemptAt === null) return
+
+    retryTimeout = setTimeout(
+      () => syncInBackground(),
+      Math.max(0, nextAttemptAt - clock())
+    )
+  }
+
+  const sync = async (force = false): Promise<void> => {
+    // One pass at a time - concurrent callers share the running pass. A
+    // forced call can't join a normal pass (it would skip backed-off
+    // sessions), so it queues a single forced pass to run afterwards.
+    if (running) {
+      if (!force) return running
+      if (!forcedFollowUp) {
+        forcedFollowUp = running
+          .catch(() => undefined)
+          .then(() => {
+            forcedFollowUp = null
+            return sync(true)
+          })
+      }
+      return forcedFollowUp
+    }
+
+    running = (async () => {
+      try {
+        const result = await syncPendingSessions({
+          store,
+          client,
+          userId: await getUserId(),
+          now: clock(),
+          force,
+        })
+        scheduleRetry(result.nextAttemptAt)
+      } finally {
+        running = null
+        await notify()
+      }
+    })()
+    return running
+  }
+
+  /**
+   * Start a pass nobody waits for (a failure is retried on the next one)
+   */
+  const syncInBackground = (force = false) => {
+    sync(force).catch(error =>
+      console.warn('Background session sync failed:', error)
+    )
+  }
+
+  const record = async (session: MeditationSession, userId: string) => {
+    await enqueueSession(store, session, userId, clock())
+    await notify()
+    syncInBackground()
+  }
+
+  // Retry everything as soon as connectivity returns
+  const handleOnline = () => syncInBackground(true)
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline)
+  }
+
+  return {
+    record,
+    sync,
+    getPendingCount,
+    subscribe: listener => {
+      listeners.add(listener)
+      return () => listeners.delete(listener)
+    },
+    dispose: () => {
+      if (retryTimeout) clearTimeout(retryTimeout)
+      if (typeof window !== 'undefined') {
+        window.removeEventListener('online', handleOnline)
+      }
+      listeners.clear()
+    },
+  }
+}
+
+// App-wide instance, created on first use in the browser
+let defaultSessionSync: SessionSync | null = null
+
+/**
+ * Get the app-wide session sync (IndexedDB queue + Supabase)
+ *
+ * @throws Error in local-only mode
+ */
+export function getSessionSync(): SessionSync {
+  if (!defaultSessionSync) {
+    const client = requireSupabase()
+    defaultSessionSync = createSessionSync({
+      store: createDefaultQueueStore(),
+      client,
+      getUserId: async () => {
+        const { data } = await client.auth.getSession()
+        return data.session?.user.id ?? null
+      },
+    })
+  }
+  return defaultSessionSync
+}
@@ -0,0 +1,117 @@
+/**
+ * Meditation Session History
+ *
+ * Typed data access for the `meditation_sessions` table. Components work
+ * with camelCase MeditationSession objects; the row mapping to the
+ * snake_case database columns lives here.
+ */
+
+import { requireSupabase } from '@/lib/supabase'
+import { MeditationSession } from '@/types/timer'
+import type { Tables, TablesInsert } from '@/types/supabase'
+
+/**
+ * Row shape of the `meditation_sessions` table
+ */
+export type MeditationSessionRow = Tables<'meditation_sessions'>
+
+/**
+ * Insert shape of the `meditation_sessions` table
+ */
+export type MeditationSessionInsert = TablesInsert<'meditation_sessions'>
+
+/**
+ * Options for fetching history
+ */
+export interface FetchSessionsOptions {
+  from?: string // Only sessions started at or after this ISO date
+  to?: string // Only sessions started before this ISO date
+  limit?: number // Maximum number of sessions to return
+}
+
+/**
+ * Convert a database row into a session
+ */
+export function fromSessionRow(row: MeditationSessionRow): MeditationSession {
+  return {
+    id: row.id,
+    startedAt: row.started_at,
+    endedAt: row.ended_at,
+    plannedSeconds: row.planned_seconds,
+    actualSeconds: row.actual_seconds,
+    extendedSeconds: row.extended_seconds,
+    pauseCount: row.pause_count,
+    endedEarly: row.ended_early,
+    programId: row.program_id,
+  }
+}
+
+/**
+ * Convert a session into a database row
+ */
+export function toSessionRow(
+  session: MeditationSession,
+  userId: string
+): MeditationSessionInsert {
+  return {
+    id: session.id,
+    user_id: userId,
+    started_at: session.startedAt,
+    ended_at: session.endedAt,
+    planned_seconds: session.plannedSeconds,
+    actual_seconds: session.actualSeconds,
+    extended_seconds: session.extendedSeconds,
+    pause_count: session.pauseCount,
+    ended_early: session.endedEarly,
+    program_id: session.programId,
+  }
+}
+
+/**
+ * Insert a session for a user
+ */
+export async function insertSession(
+  userId: string,
+  session: MeditationSession
+): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('meditation_sessions')
+    .insert(toSessionRow(session, userId))
+
+  if (error) throw new Error(error.message)
+}
+
+/**
+ * Fetch a user's sessions, newest first
+ */
+export async function fetchSessions(
+  userId: string,
+  { from, to, limit }: FetchSessionsOptions = {}
+): Promise<MeditationSession[]> {
+  let query = requireSupabase()
+    .from('meditation_sessions')
+    .select('*')
+    .eq('user_id', userId)
+    .order('started_at', { ascending: false })
+
+  if (from) query = query.gte('started_at', from)
+  if (to) query = query.lt('started_at', to)
+  if (limit) query = query.limit(limit)
+
+  const { data, error } = await query
+
+  if (error) throw new Error(error.message)
+  return data.map(fromSessionRow)
+}
+
+/**
+ * Delete a session from the history
+ */
+export async function deleteSession(sessionId: string): Promise<void> {
+  const { error } = await requireSupabase()
+    .from('meditation_sessions')
+    .delete()
+    .eq('id', sessionId)
+
+  if (error) throw new Error(error.message)
+}
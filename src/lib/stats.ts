@@ -0,0 +1,244 @@
+/**
+ * Practice Statistics
+ *
+ * Pure functions that turn a session history into streaks, totals and
+ * averages. Everything is calculated in the user's time zone: a session
+ * belongs to the local calendar day on which it started, not the UTC day.
+ *
+ * Days are handled as 'YYYY-MM-DD' keys. Calendar arithmetic is done on
+ * those keys (never by adding 24 hours to a timestamp), so days that are
+ * 23 or 25 hours long around DST changes still count as exactly one day.
+ */
+
+import { MeditationSession } from '@/types/timer'
+
+/**
+ * Calendar day in the user's time zone, formatted 'YYYY-MM-DD'
+ */
+export type DayKey = string
+
+/**
+ * Summary of a user's practice
+ */
+export interface PracticeStats {
+  currentStreak: number // Consecutive days up to today (or yesterday)
+  longestStreak: number // Longest run of consecutive practice days
+  totals: {
+    week: number // Seconds meditated this week (Monday to today)
+    month: number // Seconds meditated this calendar month
+    year: number // Seconds meditated this calendar year
+    allTime: number // Seconds meditated overall
+  }
+  sessionCount: number
+  averageSeconds: number // Average sit length
+  completedCount: number // Sessions that reached the planned duration
+  endedEarlyCount: number // Sessions stopped before the planned duration
+  completionRate: number | null // completed / all sessions (null without sessions)
+  totalExtendedSeconds: number // Time spent past the planned duration
+  averageExtendedSeconds: number // Average overtime per completed session
+}
+
+/**
+ * Minutes meditated on one day
+ */
+export interface DailyTotal {
+  day: DayKey
+  seconds: number
+}
+
+// Intl formatters are expensive to create, so keep one per time zone
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+    })
+    formatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+/**
+ * The user's current time zone (e.g. 'Europe/London')
+ */
+export function getLocalTimeZone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone
+}
+
+/**
+ * Local calendar day of an instant in the given time zone
+ */
+export function getDayKey(date: Date | string, timeZone: string): DayKey {
+  const parts = getFormatter(timeZone).formatToParts(new Date(date))
+  const part = (type: string) => parts.find(p => p.type === type)?.value ?? ''
+
+  return `${part('year')}-${part('month')}-${part('day')}`
+}
+
+/**
+ * Convert a day key to a UTC midnight Date (for calendar arithmetic only)
+ */
+function dayKeyToUtcDate(day: DayKey): Date {
+  const [year, month, date] = day.split('-').map(Number)
+  return new Date(Date.UTC(year, month - 1, date))
+}
+
+/**
+ * Move a day key forwards or backwards by whole calendar days
+ */
+export function addDays(day: DayKey, days: number): DayKey {
+  const date = dayKeyToUtcDate(day)
+  date.setUTCDate(date.getUTCDate() + days)
+  return date.toISOString().slice(0, 10)
+}
+
+/**
+ * Day of the week for a day key (0 = Sunday ... 6 = Saturday)
+ */
+export function getDayOfWeek(day: DayKey): number {
+  return dayKeyToUtcDate(day).getUTCDay()
+}
+
+/**
+ * Total seconds meditated per local day
+ */
+export function getDailyTotals(
+  sessions: MeditationSession[],
+  timeZone: string
+): Map<DayKey, number> {
+  const totals = new Map<DayKey, number>()
+
+  sessions.forEach(session => {
+    const day = getDayKey(session.startedAt, timeZone)
+    totals.set(day, (totals.get(day) ?? 0) + session.actualSeconds)
+  })
+
+  return totals
+}
+
+/**
+ * Daily totals for the last `days` days, oldest first, including empty days
+ */
+export function getRecentDailyTotals(
+  sessions: MeditationSession[],
+  { now, timeZone, days }: { now: Date; timeZone: string; days: number }
+): DailyTotal[] {
+  const totals = getDailyTotals(sessions, timeZone)
+  const today = getDayKey(now, timeZone)
+
+  return Array.from({ length: days }, (_, index) => {
+    const day = addDays(today, index - days + 1)
+    return { day, seconds: totals.get(day) ?? 0 }
+  })
+}
+
+/**
+ * Current and longest streak of consecutive practice days
+ *
+ * The current streak still counts if today has no session yet but
+ * yesterday does - the day isn't over.
+ */
+export function getStreaks(
+  practiceDays: Set<DayKey>,
+  today: DayKey
+): { currentStreak: number; longestStreak: number } {
+  // Longest streak: walk each run from its first day
+  let longestStreak = 0
+  practiceDays.forEach(day => {
+    if (practiceDays.has(addDays(day, -1))) return // Not the start of a run
+
+    let length = 1
+    while (practiceDays.has(addDays(day, length))) length += 1
+    longestStreak = Math.max(longestStreak, length)
+  })
+
+  // Current streak: count back from today (or yesterday)
+  let cursor = practiceDays.has(today) ? today : addDays(today, -1)
+  let currentStreak = 0
+  while (practiceDays.has(cursor)) {
+    currentStreak += 1
+    cursor = addDays(cursor, -1)
+  }
+
+  return { currentStreak, longestStreak }
+}
+
+/**
+ * Calculate all practice statistics
+ */
+export function computePracticeStats(
+  sessions: MeditationSession[],
+  { now, timeZone }: { now: Date; timeZone: string }
+): PracticeStats {
+  const today = getDayKey(now, timeZone)
+  const daysSinceMonday = (getDayOfWeek(today) + 6) % 7
+  const weekStart = addDays(today, -daysSinceMonday)
+  const monthPrefix = today.slice(0, 7)
+  const yearPrefix = today.slice(0, 4)
+
+  const totals = { week: 0, month: 0, year: 0, allTime: 0 }
+  const practiceDays = new Set<DayKey>()
+  let completedCount = 0
+  let totalExtendedSeconds = 0
+
+  sessions.forEach(session => {
+    const day = getDayKey(session.startedAt, timeZone)
+    const seconds = session.actualSeconds
+
+    if (seconds > 0) practiceDays.add(day)
+
+    totals.allTime += seconds
+    if (day.startsWith(yearPrefix)) totals.year += seconds
+    if (day.startsWith(monthPrefix)) totals.month += seconds
+    if (day >= weekStart && day <= today) totals.week += seconds
+
+    if (!session.endedEarly) completedCount += 1
+    totalExtendedSeconds += session.extendedSeconds
+  })
+
+  const sessionCount = sessions.length
+
+  return {
+    ...getStreaks(practiceDays, today),
+    totals,
+    sessionCount,
+    averageSeconds: sessionCount > 0 ? totals.allTime / sessionCount : 0,
+    completedCount,
+    endedEarlyCount: sessionCount - completedCount,
+    completionRate: sessionCount > 0 ? completedCount / sessionCount : null,
+    totalExtendedSeconds,
+    averageExtendedSeconds:
+      completedCount > 0 ? totalExtendedSeconds / completedCount : 0,
+  }
+}
+
+/**
+ * Every day of a calendar year, in order
+ */
+export function getYearDays(year: number): DayKey[] {
+  const days: DayKey[] = []
+  const last = `${year}-12-31`
+
+  for (let day = `${year}-01-01`; day <= last; day = addDays(day, 1)) {
+    days.push(day)
+  }
+  return days
+}
+
+/**
+ * Sessions that started on a given local day, earliest first
+ */
+export function getSessionsForDay(
+  sessions: MeditationSession[],
+  day: DayKey,
+  timeZone: string
+): MeditationSession[] {
+  return sessions
+    .filter(session => getDayKey(session.startedAt, timeZone) === day)
+    .sort((a, b) => a.startedAt.localeCompare(b.startedAt))
+}
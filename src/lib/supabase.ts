@@ -4,65 +4,89 @@
  * This file creates and exports the Supabase client instance used throughout
  * the application. It handles authentication, database queries,
  * and file storage operations.
+ *
+ * Without Supabase environment variables the app runs in local-only mode:
+ * the client is null, nobody can sign in, and everything that would sync
+ * stays on the device. The timer itself never depends on Supabase.
  */
 
 import { createClient } from '@supabase/supabase-js'
+import type { Database } from '@/types/supabase'
 
-// Environment variables validation
+// Environment variables (both required for the client)
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL
 const supabaseAnonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY
 
-if (!supabaseUrl || !supabaseAnonKey) {
-  throw new Error(
-    'Missing Supabase environment variables. Please check your .env.local file.'
+/**
+ * Whether Supabase is configured (false = local-only mode)
+ */
+export const isSupabaseConfigured = Boolean(supabaseUrl && supabaseAnonKey)
+
+if (!isSupabaseConfigured && process.env.NODE_ENV === 'development') {
+  console.warn(
+    'Missing Supabase environment variables - running in local-only mode. Check your .env.local file to enable accounts and sync.'
   )
 }
 
 /**
- * Main Supabase client instance
+ * Main Supabase client instance (null in local-only mode)
  *
  * This client is used for all database operations, authentication,
  * and file storage throughout the application.
  */
-export const supabase = createClient(supabaseUrl, supabaseAnonKey, {
-  auth: {
-    // Automatically refresh tokens when they expire
-    autoRefreshToken: true,
-    // Persist authentication state across browser sessions
-    persistSession: true,
-    // Detect auth state changes (login/logout)
-    detectSessionInUrl: true,
-  },
-  // Configure database connection
-  db: {
-    // Use prepared statements for better performance
-    schema: 'public',
-  },
-  // Configure file storage
-  storage: {
-    // Use the default bucket configuration
-  },
-})
+export const supabase = isSupabaseConfigured
+  ? createClient<Database>(supabaseUrl!, supabaseAnonKey!, {
+      auth: {
+        // Automatically refresh tokens when they expire
+        autoRefreshToken: true,
+        // Persist authentication state across browser sessions
+        persistSession: true,
+        // Detect auth state changes (login/logout)
+        detectSessionInUrl: true,
+      },
+      // Configure database connection
+      db: {
+        // Use prepared statements for better performance
+        schema: 'public',
+      },
+      // Configure file storage
+      storage: {
+        // Use the default bucket configuration
+      },
+    })
+  : null
+
+/**
+ * The Supabase client, for code that only runs once a user is signed in
+ *
+ * @throws Error in local-only mode
+ */
+export function requireSupabase(): NonNullable<typeof supabase> {
+  if (!supabase) {
+    throw new Error('Supabase is not configured - running in local-only mode')
+  }
+  return supabase
+}
 
 /**
  * Type-safe database access
  *
- * This will be updated once we generate types from our schema
- * using: npm run db:generate
+ * Generated from the schema into src/types/supabase.ts. Regenerate after
+ * adding a migration with: npm run db:generate
  */
-export type Database = any // TODO: Replace with generated types
+export type { Database }
 
 /**
- * Authentication helpers
+ * Authentication helpers (null in local-only mode)
  */
-export const auth = supabase.auth
+export const auth = supabase?.auth ?? null
 
 /**
- * Database helpers
+ * Database helpers (null in local-only mode)
  */
 export const db = supabase
 
 /**
- * Storage helpers
+ * Storage helpers (null in local-only mode)
  */
-export const storage = supabase.storage
+export const storage = supabase?.storage ?? null
@@ -0,0 +1,37 @@
+/**
+ * Supabase Practice Store
+ *
+ * PracticeStore adapter for a signed-in user. Presets are read and written
+ * in the `timer_presets` table and programs in `user_settings`; new sessions go through the offline sync
+ * queue (src/lib/sessionSync.ts) so recording works without a signal.
+ */
+
+import {
+  deleteRemotePreset,
+  fetchRemotePresets,
+  saveRemotePresets,
+} from '@/lib/presets'
+import { fetchRemotePrograms, saveRemotePrograms } from '@/lib/sessionPrograms'
+import { deleteSession, fetchSessions } from '@/lib/sessions'
+import { getSessionSync } from '@/lib/sessionSync'
+import type { PracticeStore } from '@/lib/practiceStore'
+
+export function createSupabasePracticeStore(userId: string): PracticeStore {
+  return {
+    kind: 'supabase',
+
+    loadPresets: () => fetchRemotePresets(userId),
+    savePresets: presets => saveRemotePresets(userId, presets),
+    deletePreset: async (presetId, remaining) => {
+      await deleteRemotePreset(presetId)
+      await saveRemotePresets(userId, remaining)
+    },
+
+    loadPrograms: () => fetchRemotePrograms(userId),
+    savePrograms: programs => saveRemotePrograms(userId, programs),
+
+    recordSession: session => getSessionSync().record(session, userId),
+    fetchSessions: options => fetchSessions(userId, options),
+    deleteSession: sessionId => deleteSession(sessionId),
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * Timeline URL State
+ *
+ * Serializes the timeline's filters, view options and period to URL search
+ * params and back, so a filtered view can be shared as a link and restored
+ * by back/forward navigation. Only values that differ from the defaults
+ * are written, which keeps the default timeline at a clean URL.
+ *
+ *   ?type=music&tag=ambient&layout=grid&order=asc
+ *
+ * Parsing is forgiving: unknown or malformed values fall back to the
+ * defaults instead of breaking the page.
+ */
+
+import { isContentType } from '@/lib/content'
+import {
+  TimelineFilters,
+  TimelinePeriod,
+  TimelineViewOptions,
+} from '@/types/timeline'
+
+/**
+ * Default timeline view settings
+ *
+ * These provide sensible defaults for how the timeline appears initially.
+ */
+export const DEFAULT_VIEW_OPTIONS: TimelineViewOptions = {
+  layout: 'list', // Show as a vertical list (mobile-friendly)
+  sortBy: 'publishedAt', // Sort by when items were published
+  sortOrder: 'desc', // Newest items first
+  itemsPerPage: 20, // Load 20 items at a time
+  showFilters: false, // Hide filters initially for cleaner UI
+}
+
+/**
+ * Default filter settings
+ *
+ * Start with no filters applied (show everything).
+ */
+export const DEFAULT_FILTERS: TimelineFilters = {
+  contentTypes: undefined, // Show all content types
+  tags: undefined, // Show all tags
+  dateRange: undefined, // No date restrictions
+  isPremiumOnly: false, // Include both free and premium content
+  searchQuery: '', // No search query
+}
+
+/**
+ * Everything about the timeline that lives in the URL
+ */
+export interface TimelineUrlState {
+  filters: TimelineFilters
+  viewOptions: TimelineViewOptions
+  period: TimelinePeriod | null
+}
+
+// Search param names
+const PARAMS = {
+  type: 'type', // Repeated: ?type=music&type=blog
+  tag: 'tag', // Repeated, so tags may contain commas
+  from: 'from', // Date range start (ISO)
+  to: 'to', // Date range end (ISO)
+  premium: 'premium', // "1" for premium only
+  search: 'q',
+  layout: 'layout',
+  sort: 'sort',
+  order: 'order',
+  perPage: 'perPage',
+  showFilters: 'filters', // "1" to show the filter panel
+  period: 'at', // Month jumped to: "2024-05"
+} as const
+
+const LAYOUTS: readonly TimelineViewOptions['layout'][] = [
+  'list',
+  'grid',
+  'compact',
+]
+const SORT_FIELDS: readonly TimelineViewOptions['sortBy'][] = [
+  'publishedAt',
+  'createdAt',
+  'sortOrder',
+]
+const SORT_ORDERS: readonly TimelineViewOptions['sortOrder'][] = ['desc', 'asc']
+
+// Largest page size accepted from a URL
+const MAX_ITEMS_PER_PAGE = 100
+
+/**
+ * A value if it is one of the allowed ones, otherwise the fallback
+ */
+function oneOf<T extends string>(
+  value: string | null,
+  allowed: readonly T[],
+  fallback: T
+): T {
+  return allowed.find(option => option === value) ?? fallback
+}
+
+/**
+ * Write the timeline state as search params (defaults are left out)
+ *
+ * @param base - Current params of the page; anything that isn't timeline
+ *   state is kept
+ */
+export function toTimelineParams(
+  { filters, viewOptions, period }: TimelineUrlState,
+  base?: URLSearchParams
+): URLSearchParams {
+  const params = new URLSearchParams(base)
+  Object.values(PARAMS).forEach(name => params.delete(name))
+
+  filters.contentTypes?.forEach(type => params.append(PARAMS.type, type))
+  filters.tags?.forEach(tag => params.append(PARAMS.tag, tag))
+  if (filters.dateRange) {
+    params.set(PARAMS.from, filters.dateRange.start)
+    params.set(PARAMS.to, filters.dateRange.end)
+  }
+  if (filters.isPremiumOnly) params.set(PARAMS.premium, '1')
+  if (filters.searchQuery) params.set(PARAMS.search, filters.searchQuery)
+
+  const defaults = DEFAULT_VIEW_OPTIONS
+  if (viewOptions.layout !== defaults.layout) {
+    params.set(PARAMS.layout, viewOptions.layout)
+  }
+  if (viewOptions.sortBy !== defaults.sortBy) {
+    params.set(PARAMS.sort, viewOptions.sortBy)
+  }
+  if (viewOptions.sortOrder !== defaults.sortOrder) {
+    params.set(PARAMS.order, viewOptions.sortOrder)
+  }
+  if (viewOptions.itemsPerPage !== defaults.itemsPerPage) {
+    params.set(PARAMS.perPage, String(viewOptions.itemsPerPage))
+  }
+  if (viewOptions.showFilters !== defaults.showFilters) {
+    params.set(PARAMS.showFilters, viewOptions.showFilters ? '1' : '0')
+  }
+
+  if (period) {
+    const month = String(period.month + 1).padStart(2, '0')
+    params.set(PARAMS.period, `${period.year}-${month}`)
+  }
+
+  return params
+}
+
+/**
+ * Read the timeline state from search params
+ */
+export function fromTimelineParams(
+  params: Pick<URLSearchParams, 'get' | 'getAll'>
+): TimelineUrlState {
+  const contentTypes = params.getAll(PARAMS.type).filter(isContentType)
+  const tags = params.getAll(PARAMS.tag).filter(tag => tag !== '')
+  const from = params.get(PARAMS.from)
+  const to = params.get(PARAMS.to)
+  const dateRangeValid =
+    from !== null &&
+    to !== null &&
+    !Number.isNaN(Date.parse(from)) &&
+    !Number.isNaN(Date.parse(to))
+
+  const filters: TimelineFilters = {
+    contentTypes: contentTypes.length > 0 ? contentTypes : undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    dateRange: dateRangeValid ? { start: from, end: to } : undefined,
+    isPremiumOnly: params.get(PARAMS.premium) === '1',
+    searchQuery: params.get(PARAMS.search) ?? '',
+  }
+
+  const defaults = DEFAULT_VIEW_OPTIONS
+  const perPage = Number(params.get(PARAMS.perPage))
+  const showFilters = params.get(PARAMS.showFilters)
+
+  const viewOptions: TimelineViewOptions = {
+    layout: oneOf(params.get(PARAMS.layout), LAYOUTS, defaults.layout),
+    sortBy: oneOf(params.get(PARAMS.sort), SORT_FIELDS, defaults.sortBy),
+    sortOrder: oneOf(params.get(PARAMS.order), SORT_ORDERS, defaults.sortOrder),
+    itemsPerPage:
+      Number.isInteger(perPage) && perPage > 0 && perPage <= MAX_ITEMS_PER_PAGE
+        ? perPage
+        : defaults.itemsPerPage,
+    showFilters:
+      showFilters === null ? defaults.showFilters : showFilters === '1',
+  }
+
+  const periodMatch = /^(\d{4})-(\d{2})$/.exec(params.get(PARAMS.period) ?? '')
+  const periodMonth = periodMatch ? Number(periodMatch[2]) - 1 : -1
+  const period: TimelinePeriod | null =
+    periodMatch && periodMonth >= 0 && periodMonth <= 11
+      ? { year: Number(periodMatch[1]), month: periodMonth }
+      : null
+
+  return { filters, viewOptions, period }
+}
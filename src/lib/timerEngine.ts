@@ -0,0 +1,140 @@
+/**
+ * Timer Engine
+ *
+ * A framework-free timer that derives all of its values from wall-clock
+ * timestamps instead of counting interval ticks. Browsers throttle
+ * setInterval in background tabs and on locked phones, so decrementing a
+ * counter on every tick drifts; reading the clock never does.
+ *
+ * Elapsed time is always: now - startedAt - (time spent paused).
+ *
+ * The clock is injected so the engine can be driven by a fake clock in tests.
+ */
+
+/**
+ * Clock
+ *
+ * Returns the current time in milliseconds (same contract as Date.now).
+ */
+export type Clock = () => number
+
+/**
+ * Engine Status
+ *
+ * - idle: not started yet (or reset)
+ * - running: the clock is counting
+ * - paused: the clock is stopped until resume()
+ */
+export type TimerEngineStatus = 'idle' | 'running' | 'paused'
+
+/**
+ * Timer Snapshot
+ *
+ * Everything the UI needs to render the timer at a given instant.
+ */
+export interface TimerSnapshot {
+  status: TimerEngineStatus
+  durationSeconds: number // Planned duration
+  elapsedMs: number // Active (unpaused) time since start
+  elapsedSeconds: number // elapsedMs rounded down to whole seconds
+  remainingSeconds: number // Countdown value, 0 once the planned time is over
+  overtimeSeconds: number // Time counted past the planned duration
+  isComplete: boolean // Whether the planned duration has been reached
+  pauseCount: number // How many times the session was paused
+  startedAt: number | null // Clock time of the first start()
+}
+
+/**
+ * Timer Engine
+ *
+ * Returned by createTimerEngine(). All methods read the injected clock.
+ */
+export interface TimerEngine {
+  start: () => void
+  pause: () => void
+  resume: () => void
+  reset: (durationSeconds?: number) => void
+  getSnapshot: () => TimerSnapshot
+}
+
+/**
+ * Create Timer Engine
+ *
+ * @param durationSeconds - Planned session length
+ * @param clock - Time source, defaults to Date.now
+ */
+export function createTimerEngine(
+  durationSeconds: number,
+  clock: Clock = Date.now
+): TimerEngine {
+  let duration = durationSeconds
+  let status: TimerEngineStatus = 'idle'
+  let startedAt: number | null = null
+  let pausedAt: number | null = null
+  let pausedMs = 0 // Sum of all completed pause spans
+  let pauseCount = 0
+
+  /**
+   * Active time since start, excluding every pause span
+   * (including the one in progress, if paused).
+   */
+  const getElapsedMs = (now: number): number => {
+    if (startedAt === null) return 0
+
+    const currentPauseMs = pausedAt !== null ? now - pausedAt : 0
+    return Math.max(0, now - startedAt - pausedMs - currentPauseMs)
+  }
+
+  const start = () => {
+    if (status !== 'idle') return
+
+    startedAt = clock()
+    status = 'running'
+  }
+
+  const pause = () => {
+    if (status !== 'running') return
+
+    pausedAt = clock()
+    pauseCount += 1
+    status = 'paused'
+  }
+
+  const resume = () => {
+    if (status !== 'paused' || pausedAt === null) return
+
+    pausedMs += clock() - pausedAt
+    pausedAt = null
+    status = 'running'
+  }
+
+  const reset = (newDurationSeconds: number = duration) => {
+    duration = newDurationSeconds
+    status = 'idle'
+    startedAt = null
+    pausedAt = null
+    pausedMs = 0
+    pauseCount = 0
+  }
+
+  const getSnapshot = (): TimerSnapshot => {
+    const elapsedMs = getElapsedMs(clock())
+    const durationMs = duration * 1000
+
+    return {
+      status,
+      durationSeconds: duration,
+      elapsedMs,
+      elapsedSeconds: Math.floor(elapsedMs / 1000),
+      // Round up so the display shows 10:00 at start and reaches 0:00 exactly
+      // when the planned duration is over
+      remainingSeconds: Math.max(0, Math.ceil((durationMs - elapsedMs) / 1000)),
+      overtimeSeconds: Math.max(0, Math.floor((elapsedMs - durationMs) / 1000)),
+      isComplete: elapsedMs >= durationMs,
+      pauseCount,
+      startedAt,
+    }
+  }
+
+  return { start, pause, resume, reset, getSnapshot }
+}
@@ -0,0 +1,102 @@
+/**
+ * JSON Payload Validation
+ *
+ * JSONB columns (`content.metadata`, preset bell settings, saved programs)
+ * come back from Supabase typed only as `Json`. These helpers check their
+ * shape at runtime before the data is turned into domain objects, so a
+ * malformed row fails loudly in one place instead of deep inside a
+ * component.
+ */
+
+import type { Json } from '@/types/supabase'
+
+/**
+ * A JSON payload didn't have the expected shape
+ */
+export class ValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'ValidationError'
+  }
+}
+
+/**
+ * Hand a domain value (e.g. BellSettings) to a JSONB column
+ *
+ * Interfaces aren't assignable to the generated `Json` type even when they
+ * only hold JSON values, so the widening happens here rather than in every
+ * row mapper.
+ */
+export function toJson<T extends object>(value: T): Json {
+  return value as unknown as Json
+}
+
+/**
+ * Whether a value is a plain JSON object
+ */
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+const isString = (value: unknown): value is string => typeof value === 'string'
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value)
+
+/**
+ * Typed field access on a JSON object
+ *
+ * Required readers throw a ValidationError naming the field; optional
+ * readers return undefined when the field is missing or null.
+ *
+ * @param context - Describes the payload in error messages (e.g. "content abc metadata")
+ */
+export function createFieldReader(value: unknown, context: string) {
+  if (!isRecord(value)) {
+    throw new ValidationError(`${context} must be an object`)
+  }
+
+  const fail = (key: string, expected: string): never => {
+    throw new ValidationError(`${context}: "${key}" must be ${expected}`)
+  }
+
+  const optional = <T>(
+    key: string,
+    check: (field: unknown) => field is T,
+    expected: string
+  ): T | undefined => {
+    const field = value[key]
+    if (field === undefined || field === null) return undefined
+    return check(field) ? field : fail(key, expected)
+  }
+
+  const required = <T>(
+    key: string,
+    check: (field: unknown) => field is T,
+    expected: string
+  ): T => optional(key, check, expected) ?? fail(key, expected)
+
+  const isStringArray = (field: unknown): field is string[] =>
+    Array.isArray(field) && field.every(isString)
+  const isNumberArray = (field: unknown): field is number[] =>
+    Array.isArray(field) && field.every(isNumber)
+
+  return {
+    string: (key: string) => required(key, isString, 'a string'),
+    optionalString: (key: string) => optional(key, isString, 'a string'),
+    number: (key: string) => required(key, isNumber, 'a number'),
+    optionalNumber: (key: string) => optional(key, isNumber, 'a number'),
+    stringArray: (key: string) =>
+      required(key, isStringArray, 'an array of strings'),
+    optionalStringArray: (key: string) =>
+      optional(key, isStringArray, 'an array of strings'),
+    optionalNumberArray: (key: string) =>
+      optional(key, isNumberArray, 'an array of numbers'),
+    oneOf: <T extends string>(key: string, allowed: readonly T[]): T =>
+      required(
+        key,
+        (field: unknown): field is T =>
+          isString(field) && (allowed as readonly string[]).includes(field),
+        `one of ${allowed.join(', ')}`
+      ),
+  }
+}
@@ -0,0 +1,832 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  // Allows to automatically instantiate createClient with right options
+  // instead of createClient<Database, { PostgrestVersion: 'XX' }>(URL, KEY)
+  __InternalSupabase: {
+    PostgrestVersion: '12.2.3 (519615d)'
+  }
+  public: {
+    Tables: {
+      content: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string
+          is_premium: boolean | null
+          is_published: boolean | null
+          metadata: Json | null
+          post_date: string | null
+          published_at: string | null
+          slug: string
+          sort_order: number | null
+          space_id: string | null
+          title: string
+          type: Database['public']['Enums']['content_type']
+          updated_at: string | null
+        }
+        Insert: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_premium?: boolean | null
+          is_published?: boolean | null
+          metadata?: Json | null
+          post_date?: never
+          published_at?: string | null
+          slug: string
+          sort_order?: number | null
+          space_id?: string | null
+          title: string
+          type: Database['public']['Enums']['content_type']
+          updated_at?: string | null
+        }
+        Update: {
+          created_at?: string | null
+          description?: string | null
+          id?: string
+          is_premium?: boolean | null
+          is_published?: boolean | null
+          metadata?: Json | null
+          post_date?: never
+          published_at?: string | null
+          slug?: string
+          sort_order?: number | null
+          space_id?: string | null
+          title?: string
+          type?: Database['public']['Enums']['content_type']
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'content_space_id_fkey'
+            columns: ['space_id']
+            isOneToOne: false
+            referencedRelation: 'spaces'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      content_tags: {
+        Row: {
+          content_id: string
+          created_at: string | null
+          tag_id: string
+        }
+        Insert: {
+          content_id: string
+          created_at?: string | null
+          tag_id: string
+        }
+        Update: {
+          content_id?: string
+          created_at?: string | null
+          tag_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'content_tags_content_id_fkey'
+            columns: ['content_id']
+            isOneToOne: false
+            referencedRelation: 'content'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'content_tags_content_id_fkey'
+            columns: ['content_id']
+            isOneToOne: false
+            referencedRelation: 'published_content'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'content_tags_tag_id_fkey'
+            columns: ['tag_id']
+            isOneToOne: false
+            referencedRelation: 'tags'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      creators: {
+        Row: {
+          auth_user_id: string | null
+          avatar_url: string | null
+          bio: string | null
+          created_at: string | null
+          display_name: string
+          id: string
+          is_active: boolean | null
+          is_verified: boolean | null
+          location: string | null
+          space_slug: string
+          stripe_account_id: string | null
+          subscription_enabled: boolean | null
+          subscription_price_monthly: number | null
+          updated_at: string | null
+          username: string
+          website_url: string | null
+        }
+        Insert: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string | null
+          display_name: string
+          id?: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          location?: string | null
+          space_slug: string
+          stripe_account_id?: string | null
+          subscription_enabled?: boolean | null
+          subscription_price_monthly?: number | null
+          updated_at?: string | null
+          username: string
+          website_url?: string | null
+        }
+        Update: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          bio?: string | null
+          created_at?: string | null
+          display_name?: string
+          id?: string
+          is_active?: boolean | null
+          is_verified?: boolean | null
+          location?: string | null
+          space_slug?: string
+          stripe_account_id?: string | null
+          subscription_enabled?: boolean | null
+          subscription_price_monthly?: number | null
+          updated_at?: string | null
+          username?: string
+          website_url?: string | null
+        }
+        Relationships: []
+      }
+      end_notifications: {
+        Row: {
+          auth: string
+          body: string
+          claimed_at: string | null
+          created_at: string | null
+          endpoint: string
+          id: string
+          p256dh: string
+          send_at: string
+          title: string
+        }
+        Insert: {
+          auth: string
+          body: string
+          claimed_at?: string | null
+          created_at?: string | null
+          endpoint: string
+          id: string
+          p256dh: string
+          send_at: string
+          title: string
+        }
+        Update: {
+          auth?: string
+          body?: string
+          claimed_at?: string | null
+          created_at?: string | null
+          endpoint?: string
+          id?: string
+          p256dh?: string
+          send_at?: string
+          title?: string
+        }
+        Relationships: []
+      }
+      follows: {
+        Row: {
+          created_at: string | null
+          creator_id: string | null
+          follower_id: string | null
+          id: string
+        }
+        Insert: {
+          created_at?: string | null
+          creator_id?: string | null
+          follower_id?: string | null
+          id?: string
+        }
+        Update: {
+          created_at?: string | null
+          creator_id?: string | null
+          follower_id?: string | null
+          id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'follows_creator_id_fkey'
+            columns: ['creator_id']
+            isOneToOne: false
+            referencedRelation: 'creators'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'follows_follower_id_fkey'
+            columns: ['follower_id']
+            isOneToOne: false
+            referencedRelation: 'user_accounts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      media: {
+        Row: {
+          content_id: string | null
+          created_at: string | null
+          duration: number | null
+          file_size: number
+          filename: string
+          height: number | null
+          id: string
+          is_processed: boolean | null
+          mime_type: string
+          original_filename: string
+          processing_error: string | null
+          public_url: string
+          storage_path: string
+          type: Database['public']['Enums']['media_type']
+          updated_at: string | null
+          width: number | null
+        }
+        Insert: {
+          content_id?: string | null
+          created_at?: string | null
+          duration?: number | null
+          file_size: number
+          filename: string
+          height?: number | null
+          id?: string
+          is_processed?: boolean | null
+          mime_type: string
+          original_filename: string
+          processing_error?: string | null
+          public_url: string
+          storage_path: string
+          type: Database['public']['Enums']['media_type']
+          updated_at?: string | null
+          width?: number | null
+        }
+        Update: {
+          content_id?: string | null
+          created_at?: string | null
+          duration?: number | null
+          file_size?: number
+          filename?: string
+          height?: number | null
+          id?: string
+          is_processed?: boolean | null
+          mime_type?: string
+          original_filename?: string
+          processing_error?: string | null
+          public_url?: string
+          storage_path?: string
+          type?: Database['public']['Enums']['media_type']
+          updated_at?: string | null
+          width?: number | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'media_content_id_fkey'
+            columns: ['content_id']
+            isOneToOne: false
+            referencedRelation: 'content'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'media_content_id_fkey'
+            columns: ['content_id']
+            isOneToOne: false
+            referencedRelation: 'published_content'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      meditation_sessions: {
+        Row: {
+          actual_seconds: number
+          created_at: string | null
+          ended_at: string
+          ended_early: boolean
+          extended_seconds: number
+          id: string
+          pause_count: number
+          planned_seconds: number
+          program_id: string | null
+          started_at: string
+          user_id: string
+        }
+        Insert: {
+          actual_seconds: number
+          created_at?: string | null
+          ended_at: string
+          ended_early?: boolean
+          extended_seconds?: number
+          id: string
+          pause_count?: number
+          planned_seconds: number
+          program_id?: string | null
+          started_at: string
+          user_id: string
+        }
+        Update: {
+          actual_seconds?: number
+          created_at?: string | null
+          ended_at?: string
+          ended_early?: boolean
+          extended_seconds?: number
+          id?: string
+          pause_count?: number
+          planned_seconds?: number
+          program_id?: string | null
+          started_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      spaces: {
+        Row: {
+          allow_comments: boolean | null
+          cover_image_url: string | null
+          created_at: string | null
+          creator_id: string | null
+          description: string | null
+          id: string
+          is_public: boolean | null
+          name: string
+          posts_per_page: number | null
+          slug: string
+          theme_color: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          allow_comments?: boolean | null
+          cover_image_url?: string | null
+          created_at?: string | null
+          creator_id?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean | null
+          name: string
+          posts_per_page?: number | null
+          slug: string
+          theme_color?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          allow_comments?: boolean | null
+          cover_image_url?: string | null
+          created_at?: string | null
+          creator_id?: string | null
+          description?: string | null
+          id?: string
+          is_public?: boolean | null
+          name?: string
+          posts_per_page?: number | null
+          slug?: string
+          theme_color?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'spaces_creator_id_fkey'
+            columns: ['creator_id']
+            isOneToOne: false
+            referencedRelation: 'creators'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      subscriptions: {
+        Row: {
+          canceled_at: string | null
+          created_at: string | null
+          creator_id: string | null
+          current_period_end: string
+          current_period_start: string
+          id: string
+          started_at: string
+          status: Database['public']['Enums']['subscription_status']
+          stripe_subscription_id: string
+          subscriber_id: string | null
+          updated_at: string | null
+        }
+        Insert: {
+          canceled_at?: string | null
+          created_at?: string | null
+          creator_id?: string | null
+          current_period_end: string
+          current_period_start: string
+          id?: string
+          started_at: string
+          status: Database['public']['Enums']['subscription_status']
+          stripe_subscription_id: string
+          subscriber_id?: string | null
+          updated_at?: string | null
+        }
+        Update: {
+          canceled_at?: string | null
+          created_at?: string | null
+          creator_id?: string | null
+          current_period_end?: string
+          current_period_start?: string
+          id?: string
+          started_at?: string
+          status?: Database['public']['Enums']['subscription_status']
+          stripe_subscription_id?: string
+          subscriber_id?: string | null
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'subscriptions_creator_id_fkey'
+            columns: ['creator_id']
+            isOneToOne: false
+            referencedRelation: 'creators'
+            referencedColumns: ['id']
+          },
+          {
+            foreignKeyName: 'subscriptions_subscriber_id_fkey'
+            columns: ['subscriber_id']
+            isOneToOne: false
+            referencedRelation: 'user_accounts'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          color: string | null
+          created_at: string | null
+          id: string
+          name: string
+          space_id: string | null
+        }
+        Insert: {
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name: string
+          space_id?: string | null
+        }
+        Update: {
+          color?: string | null
+          created_at?: string | null
+          id?: string
+          name?: string
+          space_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'tags_space_id_fkey'
+            columns: ['space_id']
+            isOneToOne: false
+            referencedRelation: 'spaces'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+      timer_presets: {
+        Row: {
+          ambient_sound: string
+          bell_settings: Json
+          created_at: string | null
+          duration_minutes: number
+          id: string
+          interval_bells: Json
+          name: string
+          position: number
+          preparation_seconds: number
+          program_id: string | null
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          ambient_sound?: string
+          bell_settings?: Json
+          created_at?: string | null
+          duration_minutes: number
+          id: string
+          interval_bells?: Json
+          name: string
+          position?: number
+          preparation_seconds?: number
+          program_id?: string | null
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          ambient_sound?: string
+          bell_settings?: Json
+          created_at?: string | null
+          duration_minutes?: number
+          id?: string
+          interval_bells?: Json
+          name?: string
+          position?: number
+          preparation_seconds?: number
+          program_id?: string | null
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+      user_accounts: {
+        Row: {
+          auth_user_id: string | null
+          avatar_url: string | null
+          created_at: string | null
+          display_name: string | null
+          id: string
+          stripe_customer_id: string | null
+          updated_at: string | null
+          username: string | null
+        }
+        Insert: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          display_name?: string | null
+          id?: string
+          stripe_customer_id?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Update: {
+          auth_user_id?: string | null
+          avatar_url?: string | null
+          created_at?: string | null
+          display_name?: string | null
+          id?: string
+          stripe_customer_id?: string | null
+          updated_at?: string | null
+          username?: string | null
+        }
+        Relationships: []
+      }
+      user_settings: {
+        Row: {
+          created_at: string | null
+          session_programs: Json
+          updated_at: string | null
+          user_id: string
+        }
+        Insert: {
+          created_at?: string | null
+          session_programs?: Json
+          updated_at?: string | null
+          user_id: string
+        }
+        Update: {
+          created_at?: string | null
+          session_programs?: Json
+          updated_at?: string | null
+          user_id?: string
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      published_content: {
+        Row: {
+          created_at: string | null
+          description: string | null
+          id: string | null
+          is_locked: boolean | null
+          is_premium: boolean | null
+          is_published: boolean | null
+          metadata: Json | null
+          post_date: string | null
+          published_at: string | null
+          slug: string | null
+          sort_order: number | null
+          space_id: string | null
+          title: string | null
+          type: Database['public']['Enums']['content_type'] | null
+          updated_at: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: 'content_space_id_fkey'
+            columns: ['space_id']
+            isOneToOne: false
+            referencedRelation: 'spaces'
+            referencedColumns: ['id']
+          },
+        ]
+      }
+    }
+    Functions: {
+      can_view_premium_content: {
+        Args: { space: string }
+        Returns: boolean
+      }
+      cancel_end_notification: {
+        Args: { notification_id: string }
+        Returns: undefined
+      }
+      content_search_document: {
+        Args: { description: string; metadata: Json; title: string }
+        Returns: unknown
+      }
+      content_teaser_metadata: {
+        Args: {
+          content_type: Database['public']['Enums']['content_type']
+          metadata: Json
+        }
+        Returns: Json
+      }
+      schedule_end_notification: {
+        Args: {
+          auth: string
+          body: string
+          endpoint: string
+          notification_id: string
+          p256dh: string
+          send_at: string
+          title: string
+        }
+        Returns: undefined
+      }
+      search_content: {
+        Args: {
+          after_id?: string
+          after_rank?: number
+          content_types?: Database['public']['Enums']['content_type'][]
+          premium_only?: boolean
+          published_from?: string
+          published_to?: string
+          result_limit?: number
+          search_query: string
+          space?: string
+          tag_names?: string[]
+        }
+        Returns: {
+          headline: string
+          id: string
+          rank: number
+        }[]
+      }
+    }
+    Enums: {
+      content_type: 'music' | 'blog' | 'artwork' | 'project' | 'update'
+      media_type: 'image' | 'audio' | 'video' | 'document'
+      project_status:
+        | 'planning'
+        | 'in-progress'
+        | 'completed'
+        | 'on-hold'
+        | 'cancelled'
+      subscription_status: 'active' | 'canceled' | 'past_due' | 'unpaid'
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type DatabaseWithoutInternals = Omit<Database, '__InternalSupabase'>
+
+type DefaultSchema = DatabaseWithoutInternals[Extract<keyof Database, 'public'>]
+
+export type Tables<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof (DefaultSchema['Tables'] & DefaultSchema['Views'])
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+        DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? (DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'] &
+      DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Views'])[TableName] extends {
+      Row: infer R
+    }
+    ? R
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof (DefaultSchema['Tables'] &
+        DefaultSchema['Views'])
+    ? (DefaultSchema['Tables'] &
+        DefaultSchema['Views'])[DefaultSchemaTableNameOrOptions] extends {
+        Row: infer R
+      }
+      ? R
+      : never
+    : never
+
+export type TablesInsert<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Insert: infer I
+    }
+    ? I
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Insert: infer I
+      }
+      ? I
+      : never
+    : never
+
+export type TablesUpdate<
+  DefaultSchemaTableNameOrOptions extends
+    | keyof DefaultSchema['Tables']
+    | { schema: keyof DatabaseWithoutInternals },
+  TableName extends DefaultSchemaTableNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables']
+    : never = never,
+> = DefaultSchemaTableNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaTableNameOrOptions['schema']]['Tables'][TableName] extends {
+      Update: infer U
+    }
+    ? U
+    : never
+  : DefaultSchemaTableNameOrOptions extends keyof DefaultSchema['Tables']
+    ? DefaultSchema['Tables'][DefaultSchemaTableNameOrOptions] extends {
+        Update: infer U
+      }
+      ? U
+      : never
+    : never
+
+export type Enums<
+  DefaultSchemaEnumNameOrOptions extends
+    | keyof DefaultSchema['Enums']
+    | { schema: keyof DatabaseWithoutInternals },
+  EnumName extends DefaultSchemaEnumNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums']
+    : never = never,
+> = DefaultSchemaEnumNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[DefaultSchemaEnumNameOrOptions['schema']]['Enums'][EnumName]
+  : DefaultSchemaEnumNameOrOptions extends keyof DefaultSchema['Enums']
+    ? DefaultSchema['Enums'][DefaultSchemaEnumNameOrOptions]
+    : never
+
+export type CompositeTypes<
+  PublicCompositeTypeNameOrOptions extends
+    | keyof DefaultSchema['CompositeTypes']
+    | { schema: keyof DatabaseWithoutInternals },
+  CompositeTypeName extends PublicCompositeTypeNameOrOptions extends {
+    schema: keyof DatabaseWithoutInternals
+  }
+    ? keyof DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes']
+    : never = never,
+> = PublicCompositeTypeNameOrOptions extends {
+  schema: keyof DatabaseWithoutInternals
+}
+  ? DatabaseWithoutInternals[PublicCompositeTypeNameOrOptions['schema']]['CompositeTypes'][CompositeTypeName]
+  : PublicCompositeTypeNameOrOptions extends keyof DefaultSchema['CompositeTypes']
+    ? DefaultSchema['CompositeTypes'][PublicCompositeTypeNameOrOptions]
+    : never
+
+export const Constants = {
+  public: {
+    Enums: {
+      content_type: ['music', 'blog', 'artwork', 'project', 'update'],
+      media_type: ['image', 'audio', 'video', 'document'],
+      project_status: [
+        'planning',
+        'in-progress',
+        'completed',
+        'on-hold',
+        'cancelled',
+      ],
+      subscription_status: ['active', 'canceled', 'past_due', 'unpaid'],
+    },
+  },
+} as const
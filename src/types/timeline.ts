@@ -25,6 +25,7 @@ export interface TimelineEntry {
   isPremium: boolean // Requires subscription to view
   isPublished: boolean // Whether this is live on the site
   sortOrder?: number // Custom ordering (overrides date sorting)
+  searchHeadline?: string // Matched text with <mark> around the hits (search results only)
 }
 
 /**
@@ -140,6 +141,16 @@ export interface TimelineFilters {
   searchQuery?: string // Text search
 }
 
+/**
+ * Timeline Period
+ *
+ * A calendar month to jump the timeline to (in the viewer's time zone).
+ */
+export interface TimelinePeriod {
+  year: number // Full year, e.g. 2024
+  month: number // 0 (January) to 11 (December)
+}
+
 /**
  * Timeline Display Options
  *
@@ -160,12 +171,13 @@ export interface TimelineViewOptions {
  * Used for managing loading, errors, and user interactions.
  */
 export interface TimelineState {
-  entries: TimelineEntry[] // Current timeline data
+  entries: TimelineItem[] // Current timeline data
   loading: boolean // Whether data is being fetched
   error: string | null // Error message if something went wrong
   hasMore: boolean // Whether more entries can be loaded
   filters: TimelineFilters // Current filter settings
   viewOptions: TimelineViewOptions // Current display settings
+  period: TimelinePeriod | null // Month the list was jumped to (null for the start)
 }
 
 /**
@@ -182,6 +194,26 @@ export type TimelineEntryUnion =
   | ProjectEntry
   | UpdateEntry
 
+/**
+ * Locked Premium Entry
+ *
+ * A premium entry seen by someone who isn't subscribed. The database only
+ * returns the shared fields and a teaser, never the type-specific content.
+ */
+export interface LockedEntry extends TimelineEntry {
+  isLocked: true // Marks the teaser (full entries don't have this field)
+  teaser?: string // Preview text (a blog post's excerpt)
+  previewImage?: string // Preview image (a blog post's cover)
+}
+
+/**
+ * Timeline Item Type
+ *
+ * What the timeline lists: full entries, plus teasers for premium entries
+ * the viewer can't see.
+ */
+export type TimelineItem = TimelineEntryUnion | LockedEntry
+
 /**
  * Database Response Types
  *
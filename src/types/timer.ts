@@ -0,0 +1,54 @@
+/**
+ * Timer Type Definitions
+ *
+ * These TypeScript types describe the meditation timer's states and the
+ * data we record about each session.
+ */
+
+/**
+ * Timer State
+ *
+ * The lifecycle of a single meditation session:
+ * - ready: waiting for the user to press Start
+ * - preparing: optional settling-in countdown before the sit (not recorded)
+ * - running: counting down the planned duration
+ * - paused: countdown temporarily stopped
+ * - extended: planned time is over, counting up the extra time
+ * - completed: the user finished the session
+ */
+export type TimerState =
+  | 'ready'
+  | 'preparing'
+  | 'running'
+  | 'paused'
+  | 'extended'
+  | 'completed'
+
+/**
+ * Session Summary
+ *
+ * Recorded when the user finishes a session. All values are in seconds.
+ */
+export interface SessionSummary {
+  plannedSeconds: number // The duration the user chose
+  extendedSeconds: number // Time meditated beyond the planned duration
+  totalSeconds: number // planned + extended
+}
+
+/**
+ * Meditation Session
+ *
+ * A completed or stopped session as stored in the practice history.
+ * Durations are in seconds and never include preparation time.
+ */
+export interface MeditationSession {
+  id: string // Client-generated UUID
+  startedAt: string // When the countdown started (ISO date string)
+  endedAt: string // When the session was finished or stopped
+  plannedSeconds: number // The duration the user chose
+  actualSeconds: number // Active meditation time, pauses excluded
+  extendedSeconds: number // Time beyond the planned duration
+  pauseCount: number // How many times the session was paused
+  endedEarly: boolean // Stopped before the planned duration was reached
+  programId: string | null // Session program that was used, if any
+}
@@ -0,0 +1,110 @@
+/**
+ * Send End Notifications (Supabase Edge Function)
+ *
+ * Called every minute by pg_cron (migration 20261019000006). Claims the
+ * end-of-session notifications due within the next minute and sends each
+ * as a Web Push message at its time. Push messages wake the service worker
+ * (public/sw.js) on their own, so the notification arrives however long
+ * the browser has had the app in the background.
+ *
+ * - A notification cancelled after it was claimed is not sent: the row is
+ *   checked again right before sending.
+ * - Rows are deleted once sent, or once the browser's subscription turns
+ *   out to be gone.
+ *
+ * Secrets: VAPID_PUBLIC_KEY and VAPID_PRIVATE_KEY (the key pair whose
+ * public half is NEXT_PUBLIC_VAPID_PUBLIC_KEY in the app) and VAPID_SUBJECT
+ * (a mailto: or https: contact for the push services).
+ */
+
+import { createClient } from 'npm:@supabase/supabase-js@2'
+import webpush from 'npm:web-push@3'
+
+// How far ahead each run (one per minute) picks up notifications
+const LOOKAHEAD_MS = 60_000
+
+// Claimed rows older than this were left behind by a failed run
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000
+
+interface EndNotificationRow {
+  id: string
+  endpoint: string
+  p256dh: string
+  auth: string
+  send_at: string
+  title: string
+  body: string
+}
+
+webpush.setVapidDetails(
+  Deno.env.get('VAPID_SUBJECT')!,
+  Deno.env.get('VAPID_PUBLIC_KEY')!,
+  Deno.env.get('VAPID_PRIVATE_KEY')!
+)
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+)
+
+/**
+ * Wait until a notification is due, then send it unless it was cancelled
+ */
+async function sendWhenDue(row: EndNotificationRow): Promise<void> {
+  const delay = new Date(row.send_at).getTime() - Date.now()
+  if (delay > 0) await new Promise(resolve => setTimeout(resolve, delay))
+
+  const { data: current } = await supabase
+    .from('end_notifications')
+    .select('id')
+    .eq('id', row.id)
+    .maybeSingle()
+  if (!current) return // Cancelled while waiting
+
+  try {
+    await webpush.sendNotification(
+      { endpoint: row.endpoint, keys: { p256dh: row.p256dh, auth: row.auth } },
+      JSON.stringify({ title: row.title, body: row.body }),
+      { TTL: 60 * 60, urgency: 'high' }
+    )
+  } catch (error) {
+    // 404/410: the subscription is gone - nothing to retry
+    const status = (error as { statusCode?: number }).statusCode
+    if (status !== 404 && status !== 410) {
+      console.warn(`Push for ${row.id} failed:`, error)
+    }
+  }
+
+  await supabase.from('end_notifications').delete().eq('id', row.id)
+}
+
+Deno.serve(async () => {
+  const now = Date.now()
+
+  await supabase
+    .from('end_notifications')
+    .delete()
+    .lt('claimed_at', new Date(now - STALE_AFTER_MS).toISOString())
+
+  // Claiming first keeps overlapping runs from sending a row twice
+  const { data, error } = await supabase
+    .from('end_notifications')
+    .update({ claimed_at: new Date(now).toISOString() })
+    .is('claimed_at', null)
+    .lte('send_at', new Date(now + LOOKAHEAD_MS).toISOString())
+    .select('id, endpoint, p256dh, auth, send_at, title, body')
+
+  if (error) {
+    return new Response(JSON.stringify({ error: error.message }), {
+      status: 500,
+      headers: { 'Content-Type': 'application/json' },
+    })
+  }
+
+  const rows = (data ?? []) as EndNotificationRow[]
+  await Promise.all(rows.map(sendWhenDue))
+
+  return new Response(JSON.stringify({ sent: rows.length }), {
+    headers: { 'Content-Type': 'application/json' },
+  })
+})
@@ -0,0 +1,39 @@
+-- Migration: Create timer presets table
+-- Created: 2026-10-19
+-- Description: Stores named timer presets (duration, bells, preparation, ambient sound) for signed-in users
+
+-- 1. Timer presets table
+CREATE TABLE timer_presets (
+    id UUID PRIMARY KEY, -- generated on the client so local presets keep their id when synced
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+    name VARCHAR(100) NOT NULL,
+    position INTEGER NOT NULL DEFAULT 0, -- display order of the quick-start chips
+
+    -- Timer configuration
+    duration_minutes INTEGER NOT NULL,
+    preparation_seconds INTEGER NOT NULL DEFAULT 0,
+    ambient_sound VARCHAR(20) NOT NULL DEFAULT 'none',
+    program_id TEXT, -- optional saved session program
+    bell_settings JSONB NOT NULL DEFAULT '{}',
+    interval_bells JSONB NOT NULL DEFAULT '[]',
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_duration CHECK (duration_minutes BETWEEN 1 AND 999),
+    CONSTRAINT valid_preparation CHECK (preparation_seconds BETWEEN 0 AND 60)
+);
+
+-- Create indexes for timer presets
+CREATE INDEX idx_timer_presets_user_position ON timer_presets(user_id, position);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_timer_presets_updated_at BEFORE UPDATE ON timer_presets
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS: users can only manage their own presets
+ALTER TABLE timer_presets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their own timer presets" ON timer_presets
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
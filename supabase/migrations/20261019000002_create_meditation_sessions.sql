@@ -0,0 +1,49 @@
+-- Migration: Create meditation sessions table
+-- Created: 2026-10-19
+-- Description: Records every completed or stopped meditation session for practice history
+
+-- 1. Meditation sessions table
+CREATE TABLE meditation_sessions (
+    id UUID PRIMARY KEY, -- generated on the client so retried inserts can't create duplicates
+    user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Timing (all durations in seconds, preparation time excluded)
+    started_at TIMESTAMPTZ NOT NULL,
+    ended_at TIMESTAMPTZ NOT NULL,
+    planned_seconds INTEGER NOT NULL,
+    actual_seconds INTEGER NOT NULL, -- active meditation time, pauses excluded
+    extended_seconds INTEGER NOT NULL DEFAULT 0, -- time beyond the planned duration
+
+    -- Session details
+    pause_count INTEGER NOT NULL DEFAULT 0,
+    ended_early BOOLEAN NOT NULL DEFAULT false, -- stopped before the planned duration
+    program_id TEXT, -- optional session program that was used
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_planned_seconds CHECK (planned_seconds > 0),
+    CONSTRAINT valid_actual_seconds CHECK (actual_seconds >= 0),
+    CONSTRAINT valid_extended_seconds CHECK (extended_seconds >= 0),
+    CONSTRAINT valid_pause_count CHECK (pause_count >= 0),
+    CONSTRAINT valid_session_times CHECK (ended_at >= started_at)
+);
+
+-- Create indexes for meditation sessions
+-- Primary history query: a user's sessions, newest first
+CREATE INDEX idx_meditation_sessions_user_started ON meditation_sessions(user_id, started_at DESC);
+
+-- Enable RLS on meditation sessions
+ALTER TABLE meditation_sessions ENABLE ROW LEVEL SECURITY;
+
+-- Meditation session policies: users can only see and manage their own practice history
+CREATE POLICY "Users can view their own sessions" ON meditation_sessions
+    FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can record their own sessions" ON meditation_sessions
+    FOR INSERT WITH CHECK (user_id = auth.uid());
+
+CREATE POLICY "Users can update their own sessions" ON meditation_sessions
+    FOR UPDATE USING (user_id = auth.uid());
+
+CREATE POLICY "Users can delete their own sessions" ON meditation_sessions
+    FOR DELETE USING (user_id = auth.uid());
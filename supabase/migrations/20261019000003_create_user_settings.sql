@@ -0,0 +1,28 @@
+-- Migration: Create user settings table
+-- Created: 2026-10-19
+-- Description: Per-account timer settings (saved session programs), so they follow the user across devices
+
+-- 1. User settings table (one row per user)
+CREATE TABLE user_settings (
+    user_id UUID PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+
+    -- Saved session programs (array of { id, name, segments[] }, see src/lib/sessionPrograms.ts)
+    session_programs JSONB NOT NULL DEFAULT '[]',
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+    updated_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_session_programs CHECK (jsonb_typeof(session_programs) = 'array')
+);
+
+-- Add updated_at trigger
+CREATE TRIGGER update_user_settings_updated_at BEFORE UPDATE ON user_settings
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- Enable RLS on user settings
+ALTER TABLE user_settings ENABLE ROW LEVEL SECURITY;
+
+-- User settings policies: users can only read and write their own settings
+CREATE POLICY "Users can manage their own settings" ON user_settings
+    FOR ALL USING (user_id = auth.uid())
+    WITH CHECK (user_id = auth.uid());
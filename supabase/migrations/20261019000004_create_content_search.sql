@@ -0,0 +1,83 @@
+-- Migration: Create content full-text search
+-- Created: 2026-10-19
+-- Description: Ranked full-text search over published content, including blog text stored in metadata, with highlighted snippets
+
+-- 1. Search document for a content row
+-- Title matches rank highest, then description and blog excerpt, then the
+-- blog body. IMMUTABLE so it can back an expression index.
+CREATE OR REPLACE FUNCTION content_search_document(
+    title TEXT,
+    description TEXT,
+    metadata JSONB
+)
+RETURNS TSVECTOR AS $$
+    SELECT
+        setweight(to_tsvector('english', coalesce(title, '')), 'A') ||
+        setweight(to_tsvector('english', coalesce(description, '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(metadata->>'excerpt', '')), 'B') ||
+        setweight(to_tsvector('english', coalesce(metadata->>'content', '')), 'C')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 2. Replace the title/description index with one over the full document
+-- (the old expression was NULL whenever description was NULL)
+DROP INDEX IF EXISTS idx_content_search;
+CREATE INDEX idx_content_search ON content
+    USING gin(content_search_document(title, description, metadata))
+    WHERE is_published = true;
+
+-- 3. Search published content, best matches first
+-- Accepts the same filters as the timeline. Results are paged by keyset on
+-- (rank, id): pass the last row's rank and id to get the next page.
+-- SECURITY INVOKER (the default), so the content RLS policies still apply.
+CREATE OR REPLACE FUNCTION search_content(
+    search_query TEXT,
+    content_types content_type[] DEFAULT NULL,
+    tag_names TEXT[] DEFAULT NULL,
+    premium_only BOOLEAN DEFAULT false,
+    published_from TIMESTAMPTZ DEFAULT NULL,
+    published_to TIMESTAMPTZ DEFAULT NULL,
+    space UUID DEFAULT NULL,
+    after_rank REAL DEFAULT NULL,
+    after_id UUID DEFAULT NULL,
+    result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, rank REAL, headline TEXT) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS tsquery
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            ts_rank(content_search_document(c.title, c.description, c.metadata), query.tsquery) AS rank,
+            concat_ws(' ', c.description, c.metadata->>'excerpt', c.metadata->>'content') AS body,
+            query.tsquery
+        FROM content c, query
+        WHERE c.is_published = true
+          AND content_search_document(c.title, c.description, c.metadata) @@ query.tsquery
+          AND (content_types IS NULL OR c.type = ANY(content_types))
+          AND (NOT premium_only OR c.is_premium = true)
+          AND (published_from IS NULL OR c.published_at >= published_from)
+          AND (published_to IS NULL OR c.published_at <= published_to)
+          AND (space IS NULL OR c.space_id = space)
+          AND (tag_names IS NULL OR EXISTS (
+              SELECT 1 FROM content_tags ct
+              JOIN tags t ON t.id = ct.tag_id
+              WHERE ct.content_id = c.id AND t.name = ANY(tag_names)
+          ))
+    )
+    SELECT
+        m.id,
+        m.rank,
+        ts_headline(
+            'english',
+            m.body,
+            m.tsquery,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS headline
+    FROM matches m
+    WHERE after_rank IS NULL
+       OR m.rank < after_rank
+       OR (m.rank = after_rank AND m.id < after_id)
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT result_limit
+$$ LANGUAGE sql STABLE;
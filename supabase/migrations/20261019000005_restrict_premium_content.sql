@@ -0,0 +1,172 @@
+-- Migration: Restrict premium content to subscribers
+-- Created: 2026-10-19
+-- Description: Premium content rows are only readable by the space's creator and active subscribers; everyone else reads a teaser through the published_content view
+
+-- 1. Whether the current user may see a space's premium content in full:
+-- the space's creator, or an active subscriber to that creator.
+-- SECURITY DEFINER so it can be used from policies and the view below
+-- without depending on the subscriptions policies.
+CREATE OR REPLACE FUNCTION can_view_premium_content(space UUID)
+RETURNS BOOLEAN AS $$
+    SELECT EXISTS (
+        SELECT 1 FROM spaces s
+        JOIN creators c ON c.id = s.creator_id
+        WHERE s.id = space
+          AND c.auth_user_id = auth.uid()
+    ) OR EXISTS (
+        SELECT 1 FROM spaces s
+        JOIN subscriptions sub ON sub.creator_id = s.creator_id
+        JOIN user_accounts ua ON ua.id = sub.subscriber_id
+        WHERE s.id = space
+          AND ua.auth_user_id = auth.uid()
+          AND sub.status = 'active'
+    )
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- 2. Tighten the content policies
+-- The public policy used to return premium rows (metadata included) to
+-- anyone, which made the subscriber policy meaningless.
+DROP POLICY IF EXISTS "Users can view published public content" ON content;
+CREATE POLICY "Users can view published public content" ON content
+    FOR SELECT USING (
+        is_published = true
+        AND is_premium = false
+        AND space_id IN (
+            SELECT s.id FROM spaces s WHERE s.is_public = true
+        )
+    );
+
+DROP POLICY IF EXISTS "Subscribers can view premium content" ON content;
+CREATE POLICY "Subscribers can view premium content" ON content
+    FOR SELECT USING (
+        is_published = true
+        AND can_view_premium_content(space_id)
+    );
+
+-- 3. The part of a premium entry's metadata anyone may see
+-- Only what a teaser card shows: a blog post's excerpt and cover image.
+CREATE OR REPLACE FUNCTION content_teaser_metadata(
+    content_type content_type,
+    metadata JSONB
+)
+RETURNS JSONB AS $$
+    SELECT coalesce(jsonb_object_agg(key, value), '{}'::jsonb)
+    FROM jsonb_each(coalesce(metadata, '{}'::jsonb))
+    WHERE content_type = 'blog'
+      AND key IN ('excerpt', 'coverImageUrl')
+$$ LANGUAGE sql IMMUTABLE;
+
+-- 4. Published content as the current user may see it
+-- Every published row of a public space (plus the spaces the user
+-- subscribes to or owns). Premium rows the user can't see in full are
+-- marked is_locked and carry only the teaser metadata.
+-- The view runs with its owner's rights (no security_invoker), so the
+-- masking here - not the content policies - decides what is returned.
+CREATE OR REPLACE VIEW published_content AS
+SELECT
+    c.id,
+    c.space_id,
+    c.type,
+    c.title,
+    c.description,
+    c.slug,
+    c.post_date,
+    c.published_at,
+    c.created_at,
+    c.updated_at,
+    c.is_premium,
+    c.is_published,
+    c.sort_order,
+    access.is_locked,
+    CASE
+        WHEN access.is_locked THEN content_teaser_metadata(c.type, c.metadata)
+        ELSE c.metadata
+    END AS metadata
+FROM content c
+CROSS JOIN LATERAL (
+    SELECT can_view_premium_content(c.space_id) AS can_view
+) viewer
+CROSS JOIN LATERAL (
+    SELECT coalesce(c.is_premium, false) AND NOT viewer.can_view AS is_locked
+) access
+WHERE c.is_published = true
+  AND (
+      viewer.can_view
+      OR c.space_id IN (SELECT s.id FROM spaces s WHERE s.is_public = true)
+  );
+
+GRANT SELECT ON published_content TO anon, authenticated;
+
+-- 5. Keep tags visible on teasers
+-- The old policy read `content` directly, so with the tighter content
+-- policies premium teasers would lose their tags. Media keeps following
+-- the content policies: it is part of the premium content itself.
+DROP POLICY IF EXISTS "Content tags follow content access" ON content_tags;
+CREATE POLICY "Content tags follow content access" ON content_tags
+    FOR SELECT USING (
+        content_id IN (SELECT id FROM published_content)
+        OR content_id IN (
+            SELECT co.id FROM content co
+            JOIN spaces s ON co.space_id = s.id
+            JOIN creators c ON s.creator_id = c.id
+            WHERE c.auth_user_id = auth.uid()
+        )
+    );
+
+-- 6. Search what the timeline shows
+-- search_content (20261019000004) read `content` under the caller's
+-- policies, so with the policies above it left out the premium teasers the
+-- timeline lists. Reading published_content returns the same rows, and a
+-- locked entry only matches - and is only quoted in its headline - on its
+-- title, description and teaser metadata.
+CREATE OR REPLACE FUNCTION search_content(
+    search_query TEXT,
+    content_types content_type[] DEFAULT NULL,
+    tag_names TEXT[] DEFAULT NULL,
+    premium_only BOOLEAN DEFAULT false,
+    published_from TIMESTAMPTZ DEFAULT NULL,
+    published_to TIMESTAMPTZ DEFAULT NULL,
+    space UUID DEFAULT NULL,
+    after_rank REAL DEFAULT NULL,
+    after_id UUID DEFAULT NULL,
+    result_limit INTEGER DEFAULT 20
+)
+RETURNS TABLE (id UUID, rank REAL, headline TEXT) AS $$
+    WITH query AS (
+        SELECT websearch_to_tsquery('english', search_query) AS tsquery
+    ),
+    matches AS (
+        SELECT
+            c.id,
+            ts_rank(content_search_document(c.title, c.description, c.metadata), query.tsquery) AS rank,
+            concat_ws(' ', c.description, c.metadata->>'excerpt', c.metadata->>'content') AS body,
+            query.tsquery
+        FROM published_content c, query
+        WHERE content_search_document(c.title, c.description, c.metadata) @@ query.tsquery
+          AND (content_types IS NULL OR c.type = ANY(content_types))
+          AND (NOT premium_only OR c.is_premium = true)
+          AND (published_from IS NULL OR c.published_at >= published_from)
+          AND (published_to IS NULL OR c.published_at <= published_to)
+          AND (space IS NULL OR c.space_id = space)
+          AND (tag_names IS NULL OR EXISTS (
+              SELECT 1 FROM content_tags ct
+              JOIN tags t ON t.id = ct.tag_id
+              WHERE ct.content_id = c.id AND t.name = ANY(tag_names)
+          ))
+    )
+    SELECT
+        m.id,
+        m.rank,
+        ts_headline(
+            'english',
+            m.body,
+            m.tsquery,
+            'StartSel=<mark>, StopSel=</mark>, MaxWords=30, MinWords=12, MaxFragments=2, FragmentDelimiter=" … "'
+        ) AS headline
+    FROM matches m
+    WHERE after_rank IS NULL
+       OR m.rank < after_rank
+       OR (m.rank = after_rank AND m.id < after_id)
+    ORDER BY m.rank DESC, m.id DESC
+    LIMIT result_limit
+$$ LANGUAGE sql STABLE;
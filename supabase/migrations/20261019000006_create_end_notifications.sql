@@ -0,0 +1,90 @@
+-- Migration: Create scheduled end-of-session notifications
+-- Created: 2026-10-19
+-- Description: Web Push notifications for the planned end of a session, sent by the send-end-notifications Edge Function so they arrive even after the browser has stopped the service worker
+
+-- 1. Scheduled notifications table
+-- One row per running session that asked for an end notification. Guests
+-- use the timer too, so rows are not tied to an account: the id, generated
+-- on the client, is what allows cancelling a notification.
+CREATE TABLE end_notifications (
+    id UUID PRIMARY KEY,
+
+    -- Web Push subscription of the browser to notify
+    endpoint TEXT NOT NULL,
+    p256dh TEXT NOT NULL,
+    auth TEXT NOT NULL,
+
+    send_at TIMESTAMPTZ NOT NULL,
+    title VARCHAR(100) NOT NULL,
+    body VARCHAR(200) NOT NULL,
+    claimed_at TIMESTAMPTZ, -- set when the Edge Function picks the row up to send
+
+    created_at TIMESTAMPTZ DEFAULT NOW(),
+
+    CONSTRAINT valid_endpoint CHECK (endpoint LIKE 'https://%')
+);
+
+-- The Edge Function's query: unclaimed notifications that are due
+CREATE INDEX idx_end_notifications_due ON end_notifications(send_at) WHERE claimed_at IS NULL;
+
+-- Enable RLS with no policies: the table is only reached through the
+-- functions below and by the Edge Function (service role)
+ALTER TABLE end_notifications ENABLE ROW LEVEL SECURITY;
+
+-- 2. Schedule a notification
+-- At most a day ahead, which covers the longest sit the timer allows.
+-- Repeating a call with the same id changes nothing, so it can be retried.
+CREATE OR REPLACE FUNCTION schedule_end_notification(
+    notification_id UUID,
+    endpoint TEXT,
+    p256dh TEXT,
+    auth TEXT,
+    send_at TIMESTAMPTZ,
+    title TEXT,
+    body TEXT
+)
+RETURNS VOID AS $$
+BEGIN
+    IF send_at > NOW() + INTERVAL '1 day' THEN
+        RAISE EXCEPTION 'send_at must be within a day';
+    END IF;
+
+    INSERT INTO end_notifications (id, endpoint, p256dh, auth, send_at, title, body)
+    VALUES (notification_id, endpoint, p256dh, auth, send_at, title, body)
+    ON CONFLICT (id) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- 3. Cancel a notification (paused, stopped, or the in-page bell rang)
+-- Also works once claimed: the Edge Function checks the row still exists
+-- right before sending.
+CREATE OR REPLACE FUNCTION cancel_end_notification(notification_id UUID)
+RETURNS VOID AS $$
+    DELETE FROM end_notifications WHERE id = notification_id
+$$ LANGUAGE sql SECURITY DEFINER SET search_path = public;
+
+GRANT EXECUTE ON FUNCTION schedule_end_notification(UUID, TEXT, TEXT, TEXT, TIMESTAMPTZ, TEXT, TEXT) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION cancel_end_notification(UUID) TO anon, authenticated;
+
+-- 4. Call the Edge Function every minute
+-- It sends everything due within the next minute, each at its time.
+-- Needs the pg_cron and pg_net extensions, and two Vault secrets:
+-- `project_url` and `service_role_key` (see docs/database-migrations.md).
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net;
+
+SELECT cron.schedule(
+    'send-end-notifications',
+    '* * * * *',
+    $$
+    SELECT net.http_post(
+        url := (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'project_url')
+            || '/functions/v1/send-end-notifications',
+        headers := jsonb_build_object(
+            'Content-Type', 'application/json',
+            'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+        ),
+        body := '{}'::jsonb
+    )
+    $$
+);